@@ -28,8 +28,387 @@ const swaggerOptions = {
         description: "API server",
       },
     ],
+    security: [{ BearerAuth: [] }],
     components: {
+      securitySchemes: {
+        BearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "API key authentication. Include your API key in the Authorization header:\n`Authorization: Bearer <your-api-key>`\n",
+        },
+      },
+      parameters: {
+        Sort: {
+          in: "query",
+          name: "sort",
+          schema: { type: "string" },
+          example: "-createdAt,price.amount",
+          description:
+            "Comma-separated sort keys. Prefix a key with `-` to sort descending. Nested fields use dotted paths.",
+        },
+        Fields: {
+          in: "query",
+          name: "fields",
+          schema: { type: "string" },
+          example: "id,name,price.amount",
+          description:
+            "Comma-separated sparse fieldset. Nested fields use dotted paths; `id` is always included.",
+        },
+        Cursor: {
+          in: "query",
+          name: "cursor",
+          schema: { type: "string" },
+          description:
+            "Opaque cursor from `nextCursor`/`prevCursor` of a previous page. Cannot be combined with `page`; the `sort` must match the one the cursor was issued for.",
+        },
+        Currency: {
+          in: "query",
+          name: "currency",
+          schema: { type: "string" },
+          example: "EUR",
+          description:
+            "ISO 4217 code to convert amounts to, using the configured exchange rates. Takes precedence over `Accept-Currency`; the applied rates are reported in `metadata.conversion`.",
+        },
+        ReportFormat: {
+          in: "query",
+          name: "format",
+          schema: { type: "string", enum: ["json", "csv", "ndjson", "xlsx"] },
+          description:
+            "Report output format. Without it, the format is negotiated from the `Accept` header (`application/json`, `text/csv`, `application/x-ndjson` or `application/vnd.openxmlformats-officedocument.spreadsheetml.sheet`).",
+        },
+        AcceptCurrency: {
+          in: "header",
+          name: "Accept-Currency",
+          schema: { type: "string" },
+          example: "EUR, GBP",
+          description:
+            "Currencies to convert amounts to, in order of preference. The first supported one is used.",
+        },
+      },
+      headers: {
+        Link: {
+          description:
+            'RFC 8288 links to neighbouring pages, e.g. `</api/orders?limit=10&page=3>; rel="next"`',
+          schema: { type: "string" },
+        },
+      },
+      responses: {
+        Forbidden: {
+          description: "API key lacks a scope required by this operation",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ForbiddenError" },
+            },
+          },
+        },
+        InvalidQuery: {
+          description: "A query parameter is unknown or has an invalid value",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/Error" },
+                  {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: {
+                            type: "string",
+                            enum: [
+                              "INVALID_FILTER",
+                              "INVALID_SORT",
+                              "INVALID_FIELDS",
+                              "INVALID_PAGINATION",
+                              "INVALID_CURSOR",
+                              "UNSUPPORTED_CURRENCY",
+                              "INVALID_FORMAT",
+                            ],
+                          },
+                          message: { type: "string" },
+                          details: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                field: {
+                                  type: "string",
+                                  example: "price.amount",
+                                },
+                                message: {
+                                  type: "string",
+                                  example: "'cheap' is not a number",
+                                },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        NotAcceptable: {
+          description:
+            "None of the available formats matches the `Accept` header (`NOT_ACCEPTABLE`); `details.available` lists the media types",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+        },
+        NotFound: {
+          description: "The requested resource does not exist",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+        },
+        ValidationFailed: {
+          description: "The request body failed validation",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/Error" },
+                  {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: {
+                            type: "string",
+                            example: "VALIDATION_FAILED",
+                          },
+                          message: { type: "string" },
+                          details: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                field: {
+                                  type: "string",
+                                  example: "preferences.theme",
+                                },
+                                message: {
+                                  type: "string",
+                                  example: "must be one of: light, dark, auto",
+                                },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        InsufficientStock: {
+          description: "Available stock does not cover the requested items",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/Error" },
+                  {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: {
+                            type: "string",
+                            example: "INSUFFICIENT_STOCK",
+                          },
+                          message: { type: "string" },
+                          details: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                productId: { type: "string", format: "uuid" },
+                                productName: { type: "string" },
+                                requested: { type: "integer", example: 5 },
+                                available: { type: "integer", example: 2 },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        InvalidTransition: {
+          description: "The order's current status does not allow this action",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/Error" },
+                  {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: {
+                            type: "string",
+                            example: "INVALID_ORDER_TRANSITION",
+                          },
+                          message: {
+                            type: "string",
+                            example: "Cannot ship an order that is pending",
+                          },
+                          details: {
+                            type: "object",
+                            properties: {
+                              status: { type: "string", example: "pending" },
+                              action: { type: "string", example: "ship" },
+                              allowedFrom: {
+                                type: "array",
+                                items: { type: "string" },
+                                example: ["processing"],
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        UnsupportedCurrency: {
+          description: "The requested currency has no exchange rate",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/Error" },
+                  {
+                    type: "object",
+                    properties: {
+                      error: {
+                        type: "object",
+                        properties: {
+                          code: {
+                            type: "string",
+                            example: "UNSUPPORTED_CURRENCY",
+                          },
+                          message: {
+                            type: "string",
+                            example: "Currency 'XYZ' is not supported",
+                          },
+                          details: {
+                            type: "object",
+                            properties: {
+                              supported: {
+                                type: "array",
+                                items: { type: "string" },
+                                example: ["USD", "EUR", "GBP"],
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        TooManyRequests: {
+          description: "Rate limit for this API key exceeded",
+          headers: {
+            "RateLimit-Limit": { schema: { type: "integer" } },
+            "RateLimit-Remaining": { schema: { type: "integer" } },
+            "RateLimit-Reset": { schema: { type: "integer" } },
+            "Retry-After": { schema: { type: "integer" } },
+          },
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ApiResponse" },
+            },
+          },
+        },
+      },
       schemas: {
+        UnauthorizedError: {
+          type: "object",
+          properties: {
+            data: {
+              type: "object",
+              nullable: true,
+              example: null,
+            },
+            success: {
+              type: "boolean",
+              example: false,
+            },
+            message: {
+              type: "string",
+              example: "API key is not valid",
+            },
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string", example: "INVALID_API_KEY" },
+                message: { type: "string", example: "API key is not valid" },
+              },
+            },
+          },
+          required: ["data", "success", "message"],
+        },
+        ForbiddenError: {
+          type: "object",
+          properties: {
+            data: {
+              type: "object",
+              nullable: true,
+              example: null,
+            },
+            success: {
+              type: "boolean",
+              example: false,
+            },
+            message: {
+              type: "string",
+              example: "API key is missing required scope: users:read",
+            },
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string", example: "INSUFFICIENT_SCOPE" },
+                message: { type: "string" },
+                details: {
+                  type: "object",
+                  properties: {
+                    required: { type: "array", items: { type: "string" } },
+                    missing: { type: "array", items: { type: "string" } },
+                  },
+                },
+              },
+            },
+          },
+          required: ["data", "success", "message"],
+        },
         ApiResponse: {
           type: "object",
           properties: {
@@ -48,6 +427,66 @@ const swaggerOptions = {
           },
           required: ["data", "success", "message"],
         },
+        CurrencyConversion: {
+          type: "object",
+          description:
+            "Present in `metadata.conversion` when amounts were converted to a requested currency",
+          properties: {
+            currency: { type: "string", example: "EUR" },
+            rates: {
+              type: "object",
+              description: "Applied rate per source currency",
+              additionalProperties: { type: "number" },
+              example: { USD: 0.905 },
+            },
+            ratesUpdatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        ReportJob: {
+          type: "object",
+          properties: {
+            reportId: { type: "string", format: "uuid" },
+            type: { type: "string", example: "sales" },
+            format: { type: "string", example: "json" },
+            status: {
+              type: "string",
+              enum: ["queued", "running", "completed", "failed"],
+            },
+            progress: {
+              type: "integer",
+              minimum: 0,
+              maximum: 100,
+              description: "Percentage of the report generated",
+            },
+            queuePosition: {
+              type: "integer",
+              description: "Jobs ahead of this one, while queued",
+            },
+            createdAt: { type: "string", format: "date-time" },
+            startedAt: { type: "string", format: "date-time" },
+            completedAt: { type: "string", format: "date-time" },
+            expiresAt: {
+              type: "string",
+              format: "date-time",
+              description: "When the finished job and its output are discarded",
+            },
+            error: {
+              type: "string",
+              description: "Why generation failed",
+            },
+            scheduleId: {
+              type: "string",
+              format: "uuid",
+              description: "The report schedule that queued the job, if any",
+            },
+            statusUrl: { type: "string", example: "/api/reports/{reportId}" },
+            downloadUrl: {
+              type: "string",
+              nullable: true,
+              description: "Set once the report is completed",
+            },
+          },
+        },
         PaginatedResponse: {
           allOf: [
             { $ref: "#/components/schemas/ApiResponse" },
@@ -78,6 +517,14 @@ const swaggerOptions = {
             },
             success: { type: "boolean", example: false },
             message: { type: "string", example: "An error occurred" },
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string", example: "NOT_FOUND" },
+                message: { type: "string" },
+                details: {},
+              },
+            },
           },
         },
       },
@@ -111,6 +558,7 @@ try {
     indent: 2,
     lineWidth: -1,
     noRefs: true,
+    quotingType: '"',
   });
 
   // Write to openapi.yaml in the root directory
@@ -0,0 +1,71 @@
+const http = require("http");
+const fs = require("fs");
+const path = require("path");
+
+// Local stand-in for Unkey's keys.verifyKey endpoint.
+// Run with AUTH_PROVIDER=unkey UNKEY_API_URL=http://localhost:8787 on the API.
+const PORT = parseInt(process.env.MOCK_UNKEY_PORT || "8787", 10);
+const KEYS_FILE =
+  process.env.MOCK_UNKEY_KEYS_FILE ||
+  path.join(__dirname, "..", "config", "api-keys.example.json");
+
+function loadKeys() {
+  const content = JSON.parse(fs.readFileSync(KEYS_FILE, "utf8"));
+  return new Map(
+    (content.keys || [])
+      .filter((entry) => entry.key)
+      .map((entry) => [entry.key, entry]),
+  );
+}
+
+const keys = loadKeys();
+
+function verify(key) {
+  const entry = keys.get(key);
+  if (!entry) {
+    return { valid: false, code: "NOT_FOUND" };
+  }
+  if (entry.revokedAt) {
+    return { valid: false, code: "DISABLED", keyId: entry.id };
+  }
+  if (entry.expiresAt && new Date(entry.expiresAt).getTime() <= Date.now()) {
+    return { valid: false, code: "EXPIRED", keyId: entry.id };
+  }
+
+  return {
+    valid: true,
+    code: "VALID",
+    keyId: entry.id,
+    name: entry.name,
+    ownerId: entry.ownerId,
+    permissions: entry.scopes || [],
+    meta: entry.meta || {},
+    ...(entry.expiresAt && { expires: new Date(entry.expiresAt).getTime() }),
+  };
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== "POST" || req.url !== "/v1/keys.verifyKey") {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { code: "NOT_FOUND" } }));
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    try {
+      const { key } = JSON.parse(body);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(verify(key)));
+    } catch (error) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { code: "BAD_REQUEST" } }));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🔑 Mock Unkey running on http://localhost:${PORT}`);
+  console.log(`📁 Serving ${keys.size} keys from ${KEYS_FILE}`);
+});
@@ -155,7 +155,9 @@ function validateOpenAPISpec(spec) {
           }
         }
 
-        if (!operation.responses["200"] && !operation.responses["201"]) {
+        if (
+          !Object.keys(operation.responses).some((code) => /^2\d\d$/.test(code))
+        ) {
           warnings.push(
             `No success response defined for ${method.toUpperCase()} ${pathName}`,
           );
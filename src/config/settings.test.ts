@@ -0,0 +1,77 @@
+import { RateLimitConfig } from "../types";
+
+const RATE_LIMIT_VARIABLES = [
+  "RATE_LIMIT_ENABLED",
+  "RATE_LIMIT_REQUESTS_PER_MINUTE",
+  "RATE_LIMIT_BURST_LIMIT",
+  "RATE_LIMIT_STRATEGY",
+];
+
+function loadRateLimiting(env: Record<string, string>): RateLimitConfig {
+  let rateLimiting: RateLimitConfig | undefined;
+  for (const name of RATE_LIMIT_VARIABLES) {
+    delete process.env[name];
+  }
+  Object.assign(process.env, env);
+
+  jest.isolateModules(() => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { settings } = require("./settings") as typeof import("./settings");
+    ({ rateLimiting } = settings.api);
+  });
+  return rateLimiting!;
+}
+
+describe("settings.api.rateLimiting", () => {
+  const original = { ...process.env };
+
+  afterEach(() => {
+    for (const name of RATE_LIMIT_VARIABLES) {
+      delete process.env[name];
+      if (original[name] !== undefined) {
+        process.env[name] = original[name];
+      }
+    }
+  });
+
+  it("defaults to a sliding window", () => {
+    expect(loadRateLimiting({})).toEqual({
+      enabled: true,
+      requestsPerMinute: 1000,
+      burstLimit: 100,
+      strategy: "sliding-window",
+    });
+  });
+
+  it("reads the strategy and limits from the environment", () => {
+    expect(
+      loadRateLimiting({
+        RATE_LIMIT_STRATEGY: "token-bucket",
+        RATE_LIMIT_REQUESTS_PER_MINUTE: "60",
+        RATE_LIMIT_BURST_LIMIT: "10",
+      }),
+    ).toMatchObject({
+      requestsPerMinute: 60,
+      burstLimit: 10,
+      strategy: "token-bucket",
+    });
+  });
+
+  it("fails at load on an unknown strategy", () => {
+    expect(() => loadRateLimiting({ RATE_LIMIT_STRATEGY: "leaky" })).toThrow(
+      "Unknown RATE_LIMIT_STRATEGY 'leaky'",
+    );
+  });
+
+  it.each(["abc", "0", "-5", "1.5"])(
+    "fails at load on a limit of '%s'",
+    (value) => {
+      expect(() =>
+        loadRateLimiting({ RATE_LIMIT_REQUESTS_PER_MINUTE: value }),
+      ).toThrow("RATE_LIMIT_REQUESTS_PER_MINUTE must be a positive integer");
+      expect(() => loadRateLimiting({ RATE_LIMIT_BURST_LIMIT: value })).toThrow(
+        "RATE_LIMIT_BURST_LIMIT must be a positive integer",
+      );
+    },
+  );
+});
@@ -0,0 +1,317 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AnalyticsEventsConfig,
+  ExchangeRatesConfig,
+  HealthConfig,
+  PricingConfig,
+  RateLimitConfig,
+  RateLimitStrategy,
+  ReportJobsConfig,
+  ReportSchedulesConfig,
+} from "../types";
+
+const RATE_LIMIT_STRATEGIES: RateLimitStrategy[] = [
+  "sliding-window",
+  "token-bucket",
+];
+
+/**
+ * Reads a positive integer from the environment. A value that is set but
+ * not a positive integer stops startup instead of reaching the limiter.
+ */
+function readPositiveInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got '${raw}'`);
+  }
+  return value;
+}
+
+/**
+ * Global rate limit applied to every API key. Keys may override
+ * `requestsPerMinute`, `burstLimit` and `strategy` individually.
+ */
+function loadRateLimiting(): RateLimitConfig {
+  const strategy = process.env["RATE_LIMIT_STRATEGY"] || "sliding-window";
+  if (!RATE_LIMIT_STRATEGIES.includes(strategy as RateLimitStrategy)) {
+    throw new Error(
+      `Unknown RATE_LIMIT_STRATEGY '${strategy}', expected one of: ${RATE_LIMIT_STRATEGIES.join(", ")}`,
+    );
+  }
+
+  return {
+    enabled: process.env["RATE_LIMIT_ENABLED"] !== "false",
+    requestsPerMinute: readPositiveInt("RATE_LIMIT_REQUESTS_PER_MINUTE", 1000),
+    burstLimit: readPositiveInt("RATE_LIMIT_BURST_LIMIT", 100),
+    strategy: strategy as RateLimitStrategy,
+  };
+}
+
+const rateLimiting = loadRateLimiting();
+
+/**
+ * Limits of the in-process queue behind `POST /api/reports`.
+ */
+const reportJobs: ReportJobsConfig = {
+  concurrency: parseInt(process.env["REPORT_JOB_CONCURRENCY"] || "2", 10),
+  maxQueued: parseInt(process.env["REPORT_JOB_MAX_QUEUED"] || "100", 10),
+  ttlSeconds: parseInt(process.env["REPORT_JOB_TTL_SECONDS"] || "3600", 10),
+};
+
+/**
+ * Limits of the recurring reports defined with `POST /api/reports/schedules`.
+ */
+const reportSchedules: ReportSchedulesConfig = {
+  retentionSeconds: parseInt(
+    process.env["REPORT_SCHEDULE_RETENTION_SECONDS"] || "604800",
+    10,
+  ),
+  maxPerOwner: parseInt(
+    process.env["REPORT_SCHEDULE_MAX_PER_OWNER"] || "50",
+    10,
+  ),
+};
+
+/**
+ * Limits of the traffic ingested with `POST /api/analytics/events`. The
+ * default retention covers `last_year` compared with the year before.
+ */
+const analyticsEvents: AnalyticsEventsConfig = {
+  retentionDays: parseInt(
+    process.env["ANALYTICS_EVENT_RETENTION_DAYS"] || "800",
+    10,
+  ),
+  maxBatchSize: parseInt(process.env["ANALYTICS_EVENT_MAX_BATCH"] || "500", 10),
+  conversionEvents: (
+    process.env["ANALYTICS_CONVERSION_EVENTS"] ||
+    "purchase,order_placed,conversion"
+  )
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean),
+};
+
+/**
+ * Probes behind `GET /health`.
+ */
+const health: HealthConfig = {
+  probeTimeoutMs: parseInt(
+    process.env["HEALTH_PROBE_TIMEOUT_MS"] || "2000",
+    10,
+  ),
+};
+
+const CONFIG_DIR = path.join(__dirname, "..", "..", "config");
+
+/**
+ * Reads the top-level fields of a JSON config file, if it exists, to be
+ * applied over built-in defaults.
+ */
+function readOverrides<T>(file: string): Partial<T> {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Partial<T>;
+}
+
+/**
+ * Tax and shipping rules used to price orders. Any of the top-level fields
+ * can be overridden by a JSON file at `PRICING_FILE`
+ * (default `config/pricing.json`).
+ */
+function loadPricing(): PricingConfig {
+  const defaults: PricingConfig = {
+    defaultTaxRate: 0.08,
+    taxShipping: false,
+    taxRates: [
+      {
+        country: "US",
+        aliases: ["USA", "United States", "United States of America"],
+        rate: 0,
+      },
+      { country: "US", state: "CA", rate: 0.0725 },
+      { country: "US", state: "NY", rate: 0.04 },
+      { country: "US", state: "TX", rate: 0.0625 },
+      { country: "US", state: "WA", rate: 0.065 },
+      { country: "US", state: "FL", rate: 0.06 },
+      { country: "CA", aliases: ["Canada"], rate: 0.05 },
+      { country: "CA", state: "ON", rate: 0.13 },
+      { country: "GB", aliases: ["United Kingdom", "UK"], rate: 0.2 },
+      { country: "DE", aliases: ["Germany"], rate: 0.19 },
+      { country: "FR", aliases: ["France"], rate: 0.2 },
+      { country: "AU", aliases: ["Australia"], rate: 0.1 },
+    ],
+    shippingMethods: {
+      standard: { cost: 5, days: 5, freeShippingThreshold: 100 },
+      ground: { cost: 8, days: 7 },
+      express: { cost: 15, days: 2 },
+      overnight: { cost: 25, days: 1 },
+    },
+  };
+
+  return {
+    ...defaults,
+    ...readOverrides<PricingConfig>(
+      process.env["PRICING_FILE"] || path.join(CONFIG_DIR, "pricing.json"),
+    ),
+  };
+}
+
+/**
+ * Exchange rates used to convert amounts into the currency a client asks
+ * for. Any of the top-level fields can be overridden by a JSON file at
+ * `EXCHANGE_RATES_FILE` (default `config/exchange-rates.json`).
+ */
+function loadExchangeRates(): ExchangeRatesConfig {
+  const defaults: ExchangeRatesConfig = {
+    base: "USD",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    rates: {
+      USD: 1,
+      EUR: 0.905,
+      GBP: 0.786,
+      CAD: 1.324,
+      AUD: 1.468,
+      CHF: 0.842,
+      JPY: 141.1,
+      INR: 83.21,
+    },
+  };
+
+  return {
+    ...defaults,
+    ...readOverrides<ExchangeRatesConfig>(
+      process.env["EXCHANGE_RATES_FILE"] ||
+        path.join(CONFIG_DIR, "exchange-rates.json"),
+    ),
+  };
+}
+
+export const settings = {
+  general: {
+    applicationName: "Complex API Demo",
+    timezone: "UTC",
+    defaultLanguage: "en",
+    dateFormat: "YYYY-MM-DD",
+    timeFormat: "24h",
+    currency: "USD",
+    theme: "light",
+    companyName: "Unkey",
+    supportEmail: "support@unkey.dev",
+    maintenanceMode: false,
+    debugMode: false,
+  },
+  security: {
+    passwordPolicy: {
+      minLength: 8,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireNumbers: true,
+      requireSpecialChars: true,
+      maxAge: 90,
+      preventReuse: 5,
+    },
+    sessionTimeout: 3600,
+    twoFactorAuth: true,
+    allowedDomains: ["unkey.dev", "localhost"],
+    loginAttempts: {
+      maxAttempts: 5,
+      lockoutDuration: 900,
+    },
+    encryption: {
+      algorithm: "AES-256-GCM",
+      keyRotation: "quarterly",
+    },
+    auditLogging: true,
+  },
+  notifications: {
+    emailNotifications: true,
+    pushNotifications: true,
+    smsNotifications: false,
+    notificationTypes: {
+      security: true,
+      system: true,
+      billing: true,
+      marketing: false,
+      updates: true,
+    },
+    deliveryMethods: {
+      urgent: ["email", "push"],
+      normal: ["email"],
+      low: ["email"],
+    },
+    quietHours: {
+      enabled: true,
+      start: "22:00",
+      end: "08:00",
+    },
+  },
+  api: {
+    rateLimiting,
+    cors: {
+      enabled: false,
+      allowedOrigins: [],
+      allowedMethods: ["GET", "POST", "PUT", "DELETE"],
+      allowCredentials: false,
+    },
+    versioning: {
+      strategy: "header",
+      defaultVersion: "v1",
+      deprecationPolicy: "6 months",
+      supportedVersions: ["v1"],
+    },
+    documentation: {
+      enabled: true,
+      path: "/docs",
+      authentication: false,
+    },
+  },
+  integrations: {
+    enabledIntegrations: ["stripe", "sendgrid", "google-analytics", "aws-s3"],
+    webhookRetries: 3,
+    webhookTimeout: 30,
+    webhookSecurity: {
+      signatureValidation: true,
+      ipWhitelisting: false,
+      ssl: true,
+    },
+    thirdPartyApis: {
+      timeout: 10,
+      retryPolicy: "exponential-backoff",
+      circuitBreaker: true,
+    },
+  },
+  analytics: {
+    events: analyticsEvents,
+  },
+  health,
+  reports: {
+    jobs: reportJobs,
+    schedules: reportSchedules,
+  },
+  pricing: loadPricing(),
+  exchangeRates: loadExchangeRates(),
+  billing: {
+    plan: "pro",
+    billingCycle: "monthly",
+    autoRenewal: true,
+    currency: "USD",
+    taxCalculation: true,
+    invoiceGeneration: "automatic",
+    paymentMethods: ["credit_card", "bank_transfer"],
+    gracePeriod: 7,
+    usage: {
+      tracking: true,
+      alerts: {
+        80: true,
+        90: true,
+        100: true,
+      },
+    },
+  },
+};
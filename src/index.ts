@@ -6,6 +6,7 @@ import * as yaml from "js-yaml";
 import * as fs from "fs";
 import * as path from "path";
 import { setupRoutes } from "./routes";
+import { flushDataStore, getDataStore } from "./services/dataStore";
 
 const app = express();
 const PORT = parseInt(process.env["PORT"] || "3000", 10);
@@ -21,7 +22,7 @@ const loadOpenAPISpec = () => {
   try {
     const openapiPath = path.join(__dirname, "..", "openapi.yaml");
     const yamlContent = fs.readFileSync(openapiPath, "utf8");
-    return yaml.load(yamlContent) as any;
+    return yaml.load(yamlContent) as swaggerUi.JsonObject;
   } catch (error) {
     console.error("Error loading OpenAPI specification:", error);
     // Fallback to a minimal spec if file not found
@@ -72,7 +73,7 @@ app.use(
     err: any,
     req: express.Request,
     res: express.Response,
-    next: express.NextFunction,
+    _next: express.NextFunction,
   ) => {
     console.error("Error:", err);
 
@@ -87,12 +88,16 @@ app.use(
   },
 );
 
+// Load (or seed) the data store before accepting requests
+getDataStore();
+
 // Start server
 const server = app.listen(PORT, "0.0.0.0", () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📚 API Documentation: http://localhost:${PORT}/docs`);
   console.log(`🏥 Health Check: http://localhost:${PORT}/health`);
   console.log(`📋 OpenAPI Spec: http://localhost:${PORT}/openapi.yaml`);
+  console.log(`📦 Data Store: ${process.env["DATA_STORE"] || "memory"}`);
   console.log(`🌍 Environment: ${process.env["NODE_ENV"] || "development"}`);
   console.log(`🔧 Process ID: ${process.pid}`);
 });
@@ -112,16 +117,20 @@ server.on("error", (error: NodeJS.ErrnoException) => {
 process.on("SIGTERM", () => {
   console.log("📴 SIGTERM received, shutting down gracefully");
   server.close(() => {
-    console.log("💤 Server closed");
-    process.exit(0);
+    void flushDataStore().then(() => {
+      console.log("💤 Server closed");
+      process.exit(0);
+    });
   });
 });
 
 process.on("SIGINT", () => {
   console.log("📴 SIGINT received, shutting down gracefully");
   server.close(() => {
-    console.log("💤 Server closed");
-    process.exit(0);
+    void flushDataStore().then(() => {
+      console.log("💤 Server closed");
+      process.exit(0);
+    });
   });
 });
 
@@ -0,0 +1,90 @@
+import { NextFunction, Request, Response } from "express";
+import { hasScope, requireScope } from "./auth";
+
+interface RecordedResponse {
+  statusCode?: number;
+  body?: unknown;
+}
+
+function invoke(
+  scopes: string[] | undefined,
+  required: string[],
+): { recorded: RecordedResponse; next: jest.Mock } {
+  const recorded: RecordedResponse = {};
+  const res = {
+    status(code: number) {
+      recorded.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      recorded.body = body;
+      return this;
+    },
+  } as unknown as Response;
+  const req = (scopes
+    ? { apiKey: { id: "key_1", scopes } }
+    : {}) as unknown as Request;
+  const next = jest.fn();
+
+  requireScope(...required)(req, res, next as NextFunction);
+  return { recorded, next };
+}
+
+describe("hasScope", () => {
+  it("matches an exact scope", () => {
+    expect(hasScope(["users:read"], "users:read")).toBe(true);
+    expect(hasScope(["users:read"], "users:write")).toBe(false);
+  });
+
+  it("lets a resource wildcard cover every scope of that resource only", () => {
+    expect(hasScope(["users:*"], "users:write")).toBe(true);
+    expect(hasScope(["users:*"], "settings:read")).toBe(false);
+  });
+
+  it("lets * cover everything", () => {
+    expect(hasScope(["*"], "reports:generate")).toBe(true);
+  });
+
+  it("grants nothing without scopes", () => {
+    expect(hasScope([], "users:read")).toBe(false);
+  });
+});
+
+describe("requireScope", () => {
+  it("calls next when every required scope is granted", () => {
+    const { recorded, next } = invoke(
+      ["users:read", "reports:*"],
+      ["users:read", "reports:generate"],
+    );
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(recorded.statusCode).toBeUndefined();
+  });
+
+  it("rejects with 403 and lists the missing scopes", () => {
+    const { recorded, next } = invoke(
+      ["users:read"],
+      ["users:read", "settings:read"],
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(recorded.statusCode).toBe(403);
+    expect(recorded.body).toMatchObject({
+      success: false,
+      error: {
+        code: "INSUFFICIENT_SCOPE",
+        details: {
+          required: ["users:read", "settings:read"],
+          missing: ["settings:read"],
+        },
+      },
+    });
+  });
+
+  it("rejects requests without a verified key", () => {
+    const { recorded, next } = invoke(undefined, ["users:read"]);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(recorded.statusCode).toBe(403);
+  });
+});
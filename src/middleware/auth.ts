@@ -1,21 +1,32 @@
 import { Request, Response, NextFunction } from "express";
+import { KeyVerificationCode } from "../types";
+import { getKeyVerifier } from "../services/keyVerifier";
+import { DataGenerator } from "../utils/dataGenerator";
+
+const verificationErrors: Record<
+  Exclude<KeyVerificationCode, "VALID">,
+  { code: string; message: string }
+> = {
+  NOT_FOUND: { code: "INVALID_API_KEY", message: "API key is not valid" },
+  REVOKED: { code: "API_KEY_REVOKED", message: "API key has been revoked" },
+  EXPIRED: { code: "API_KEY_EXPIRED", message: "API key has expired" },
+};
 
 /**
  * Authentication middleware that validates Bearer tokens.
  *
- * This middleware checks for the presence of a valid Bearer token
- * in the Authorization header. If the token is missing or malformed,
- * the request is rejected with a 401 Unauthorized response.
+ * This middleware checks for the presence of a Bearer token in the
+ * Authorization header and verifies it with the configured key verifier
+ * (see `services/keyVerifier`). Missing, malformed, unknown, revoked or
+ * expired keys are rejected with a 401 Unauthorized response.
  *
- * Note: This middleware only validates the presence and format of the token.
- * Actual token verification (e.g., JWT validation, database lookup)
- * should be implemented based on your authentication strategy.
+ * On success the resolved key identity is attached to `req.apiKey`.
  */
-export function requireBearerToken(
+export async function requireBearerToken(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const authHeader = req.headers.authorization;
 
   // Check if Authorization header exists
@@ -51,17 +62,72 @@ export function requireBearerToken(
     return;
   }
 
-  // TODO: Implement actual token verification here
-  // Examples:
-  // - JWT verification: jwt.verify(token, secretKey)
-  // - Database lookup: await TokenService.validate(token)
-  // - External auth service: await authService.verifyToken(token)
+  let result;
+  try {
+    result = await getKeyVerifier().verify(token);
+  } catch (error) {
+    console.error("Error verifying API key:", error);
+    res
+      .status(503)
+      .json(
+        DataGenerator.createErrorResponse(
+          "AUTH_SERVICE_UNAVAILABLE",
+          "API key could not be verified, please retry later",
+        ),
+      );
+    return;
+  }
+
+  if (!result.valid || !result.key) {
+    const failure =
+      verificationErrors[result.code === "VALID" ? "NOT_FOUND" : result.code];
+    res
+      .status(401)
+      .json(DataGenerator.createErrorResponse(failure.code, failure.message));
+    return;
+  }
 
-  // Attach token to request for downstream use (optional)
-  (req as any).token = token;
+  // Attach the resolved key identity for downstream use
+  req.apiKey = result.key;
 
-  // Token is present and properly formatted, proceed to the next middleware
   next();
 }
 
+/**
+ * Checks whether the granted scopes cover a required scope. A granted `*`
+ * matches everything and `users:*` matches every `users:` scope.
+ */
+export function hasScope(granted: string[], required: string): boolean {
+  const [resource] = required.split(":");
+  return granted.some(
+    (scope) => scope === "*" || scope === required || scope === `${resource}:*`,
+  );
+}
+
+/**
+ * Authorization middleware that requires the verified API key to carry
+ * every listed scope. Must run after `requireBearerToken`.
+ */
+export function requireScope(...scopes: string[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const granted = req.apiKey?.scopes || [];
+    const missing = scopes.filter((scope) => !hasScope(granted, scope));
+
+    if (missing.length > 0) {
+      res
+        .status(403)
+        .json(
+          DataGenerator.createErrorResponse(
+            "INSUFFICIENT_SCOPE",
+            `API key is missing required scope: ${missing.join(", ")}`,
+            { required: scopes, missing },
+          ),
+        );
+      return;
+    }
+
+    next();
+  };
+}
+
 export default requireBearerToken;
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import { isSupportedCurrency, supportedCurrencies } from "../services/currency";
+import { DataGenerator } from "../utils/dataGenerator";
+
+/**
+ * Resolves the currency a client wants amounts converted to into
+ * `req.currency`.
+ *
+ * The currency is taken from the `currency` query parameter or the
+ * `Accept-Currency` header, in that order. The header may list several
+ * comma-separated codes in order of preference; the first supported one
+ * wins. Unsupported currencies are rejected with 400.
+ */
+export function currency(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  res.vary("Accept-Currency");
+
+  const queryCurrency = req.query["currency"];
+  const requested =
+    typeof queryCurrency === "string"
+      ? [queryCurrency]
+      : (req.header("Accept-Currency") || "")
+          .split(",")
+          .map((code) => code.split(";")[0]!)
+          .filter((code) => code.trim() !== "");
+
+  if (requested.length === 0) {
+    next();
+    return;
+  }
+
+  const resolved = requested
+    .map((code) => code.trim().toUpperCase())
+    .find(isSupportedCurrency);
+  if (!resolved) {
+    const response = DataGenerator.createErrorResponse(
+      "UNSUPPORTED_CURRENCY",
+      `Currency '${requested.join(", ")}' is not supported`,
+      { supported: supportedCurrencies() },
+    );
+    res.status(400).json(response);
+    return;
+  }
+
+  req.currency = resolved;
+  next();
+}
+
+export default currency;
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from "express";
+import { DataGenerator } from "../utils/dataGenerator";
+
+const SEEDED_METHODS = new Set(["GET", "HEAD"]);
+
+/**
+ * Makes generated mock data reproducible for a request.
+ *
+ * The seed is taken from the `X-Mock-Seed` header, the `seed` query
+ * parameter or the `MOCK_SEED` environment variable, in that order, and is
+ * echoed back in the `X-Mock-Seed` response header. Only read requests
+ * are seeded: writes draw order numbers, transaction ids and the like that
+ * must stay unique. Must be the last middleware before synchronous route
+ * handlers, since the seed only applies while `next()` runs.
+ */
+export function mockSeed(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const querySeed = req.query["seed"];
+  const rawSeed =
+    req.header("X-Mock-Seed") ||
+    (typeof querySeed === "string" ? querySeed : undefined) ||
+    process.env["MOCK_SEED"];
+
+  if (!rawSeed || !SEEDED_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  const seed = DataGenerator.parseSeed(rawSeed);
+  res.setHeader("X-Mock-Seed", seed);
+  DataGenerator.withSeed(seed, () => next());
+}
+
+export default mockSeed;
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from "express";
+import { RateLimitConfig } from "../types";
+import { settings } from "../config/settings";
+import { getRateLimiter } from "../services/rateLimiter";
+import { DataGenerator } from "../utils/dataGenerator";
+
+/**
+ * Resolves the limit for a request: the global `settings.api.rateLimiting`
+ * with the API key's own override applied on top.
+ */
+export function resolveRateLimit(req: Request): RateLimitConfig {
+  return {
+    ...settings.api.rateLimiting,
+    ...req.apiKey?.ratelimit,
+    enabled: settings.api.rateLimiting.enabled,
+  };
+}
+
+/**
+ * Per-key rate limiting middleware. Must run after `requireBearerToken`.
+ *
+ * Every response carries `RateLimit-Limit`, `RateLimit-Remaining` and
+ * `RateLimit-Reset` headers; requests over the limit get a 429 response
+ * with a `Retry-After` header.
+ */
+export function rateLimit(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const config = resolveRateLimit(req);
+  if (!config.enabled || !req.apiKey) {
+    next();
+    return;
+  }
+
+  const result = getRateLimiter(config.strategy).consume(
+    `${config.strategy}:${req.apiKey.id}`,
+    config,
+  );
+
+  res.setHeader("RateLimit-Limit", result.limit);
+  res.setHeader("RateLimit-Remaining", result.remaining);
+  res.setHeader("RateLimit-Reset", Math.ceil(result.resetMs / 1000));
+  res.setHeader(
+    "RateLimit-Policy",
+    config.strategy === "token-bucket"
+      ? `${config.requestsPerMinute};w=60;burst=${config.burstLimit}`
+      : `${config.requestsPerMinute};w=60`,
+  );
+
+  if (!result.allowed) {
+    const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+    res.setHeader("Retry-After", retryAfter);
+    res.status(429).json(
+      DataGenerator.createErrorResponse(
+        "RATE_LIMIT_EXCEEDED",
+        `Rate limit exceeded, retry in ${retryAfter} seconds`,
+        {
+          limit: result.limit,
+          strategy: config.strategy,
+          retryAfter,
+        },
+      ),
+    );
+    return;
+  }
+
+  next();
+}
+
+export default rateLimit;
@@ -1,14 +1,201 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import { CurrencyConverter, withConversion } from "../services/currency";
+import {
+  AnalyticsQuery,
+  computeAnalytics,
+  validateAnalyticsQuery,
+} from "../services/analytics";
+import {
+  AnalyticsEvent,
+  getAnalyticsEventStore,
+  validateEventBatch,
+} from "../services/analyticsEvents";
+import {
+  computeFunnel,
+  FunnelInput,
+  validateFunnelInput,
+} from "../services/funnels";
+import {
+  CohortQuery,
+  computeCohorts,
+  validateCohortQuery,
+} from "../services/cohorts";
 
 const router = Router();
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AnalyticsMetrics:
+ *       type: object
+ *       properties:
+ *         totalUsers:
+ *           type: integer
+ *           description: Users signed up by the end of the range
+ *         activeUsers:
+ *           type: integer
+ *           description: Active users who logged in during the range
+ *         newUsers:
+ *           type: integer
+ *         totalRevenue:
+ *           type: number
+ *         totalOrders:
+ *           type: integer
+ *           description: Orders placed, except cancelled and refunded ones
+ *         averageOrderValue:
+ *           type: number
+ *         conversionRate:
+ *           type: number
+ *           description: |
+ *             Percentage of sessions with a conversion event (see
+ *             `ANALYTICS_CONVERSION_EVENTS`); 0 without ingested traffic
+ *         bounceRate:
+ *           type: number
+ *           description: Percentage of sessions with a single page view
+ *         pageViews:
+ *           type: integer
+ *           description: Page views ingested through `/api/analytics/events`
+ *         uniqueVisitors:
+ *           type: integer
+ *           description: Distinct visitors over the whole range
+ *     MetricChange:
+ *       type: object
+ *       properties:
+ *         previous:
+ *           type: number
+ *         change:
+ *           type: number
+ *           description: Current minus previous value
+ *         changePercent:
+ *           type: number
+ *           nullable: true
+ *           description: Change relative to the previous value; null when that is 0
+ *     Analytics:
+ *       type: object
+ *       properties:
+ *         period:
+ *           type: string
+ *           example: last_30_days
+ *           description: The preset, or `custom` for from/to ranges
+ *         currency:
+ *           type: string
+ *           description: Currency of every revenue figure
+ *           example: USD
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           description: Last day of the range, inclusive
+ *         interval:
+ *           type: string
+ *           enum: [day, week]
+ *         metrics:
+ *           $ref: '#/components/schemas/AnalyticsMetrics'
+ *         trends:
+ *           type: array
+ *           description: One point per day or week (weeks start on Monday)
+ *           items:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: First day of the point
+ *               users:
+ *                 type: integer
+ *                 description: New users
+ *               revenue:
+ *                 type: number
+ *               orders:
+ *                 type: integer
+ *               pageViews:
+ *                 type: integer
+ *         topProducts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               sales:
+ *                 type: integer
+ *               revenue:
+ *                 type: number
+ *         trafficSources:
+ *           type: array
+ *           description: Sessions per source, most first
+ *           items:
+ *             type: object
+ *             properties:
+ *               source:
+ *                 type: string
+ *               visitors:
+ *                 type: integer
+ *               percentage:
+ *                 type: number
+ *         demographics:
+ *           type: object
+ *           description: Sessions per device and country; age groups are not collected
+ *           properties:
+ *             ageGroups:
+ *               type: object
+ *               additionalProperties:
+ *                 type: integer
+ *             countries:
+ *               type: object
+ *               additionalProperties:
+ *                 type: integer
+ *             devices:
+ *               type: object
+ *               additionalProperties:
+ *                 type: integer
+ *         events:
+ *           type: object
+ *           description: Custom events per name
+ *           additionalProperties:
+ *             type: integer
+ *         comparison:
+ *           type: object
+ *           description: Only with `compare=previous_period`
+ *           properties:
+ *             compare:
+ *               type: string
+ *               enum: [previous_period]
+ *             startDate:
+ *               type: string
+ *               format: date
+ *             endDate:
+ *               type: string
+ *               format: date
+ *             metrics:
+ *               type: object
+ *               description: Change of every field of `metrics`
+ *               additionalProperties:
+ *                 $ref: '#/components/schemas/MetricChange'
+ */
+
 /**
  * @swagger
  * /api/analytics:
  *   get:
  *     summary: Get analytics data
+ *     description: |
+ *       Analytics over a preset `period` ending today, or over a custom
+ *       range from `from` to `to` (both inclusive). `trends` has one point
+ *       per day for ranges up to 90 days and one per week beyond, unless
+ *       `interval` is given. With `compare=previous_period` the response
+ *       also holds the change of every metric against the equally long
+ *       period right before the range.
  *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: [analytics:read]
  *     parameters:
  *       - in: query
  *         name: period
@@ -16,7 +203,33 @@ const router = Router();
  *           type: string
  *           enum: [last_7_days, last_30_days, last_90_days, last_year]
  *           default: last_30_days
- *         description: Time period for analytics data
+ *         description: Preset range; cannot be combined with from and to
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First day of a custom range
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last day of a custom range, at most 1098 days after from; defaults to today
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week]
+ *         description: Length of each trend point
+ *       - in: query
+ *         name: compare
+ *         schema:
+ *           type: string
+ *           enum: [previous_period]
+ *         description: Compare the metrics with the previous period
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
  *     responses:
  *       200:
  *         description: Analytics data
@@ -26,73 +239,455 @@ const router = Router();
  *               type: object
  *               properties:
  *                 data:
+ *                   $ref: '#/components/schemas/Analytics'
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Analytics data retrieved successfully"
+ *       400:
+ *         description: |
+ *           Unknown period, interval or comparison, invalid dates, `from`
+ *           after `to`, `period` combined with a custom range or a range
+ *           that is too long (`INVALID_ANALYTICS_PARAMETERS`), or an
+ *           unsupported currency (`UNSUPPORTED_CURRENCY`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/",
+  requireScope("analytics:read"),
+  (req: Request, res: Response) => {
+    const input: Record<string, unknown> = {};
+    for (const field of ["period", "from", "to", "interval", "compare"]) {
+      if (req.query[field] !== undefined) {
+        input[field] = req.query[field];
+      }
+    }
+    const errors = validateAnalyticsQuery(input);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_ANALYTICS_PARAMETERS",
+        "Invalid analytics parameters",
+        errors,
+      );
+      return res.status(400).json(response);
+    }
+
+    const analytics = computeAnalytics(input as AnalyticsQuery);
+
+    const converter = new CurrencyConverter(req.currency);
+    const response = DataGenerator.createApiResponse(
+      converter.analytics(analytics),
+      true,
+      "Analytics data retrieved successfully",
+    );
+
+    return res.json(withConversion(response, converter));
+  },
+);
+
+/**
+ * @swagger
+ * /api/analytics/events:
+ *   post:
+ *     summary: Record page views and custom events
+ *     description: |
+ *       Ingests a batch of events, which count towards `GET /api/analytics`
+ *       right away. Events are folded into per-day traffic figures, and
+ *       each session keeps a timeline of event types, names and page paths
+ *       for funnels. A session is attributed to a traffic source
+ *       (from the landing page's `utm_medium` or the referrer), device
+ *       (from the user agent) and country by its first event of the day.
+ *       The whole batch is rejected if any event is invalid.
+ *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: [analytics:write]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [events]
+ *             properties:
+ *               events:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 500
+ *                 description: At most `ANALYTICS_EVENT_MAX_BATCH` events
+ *                 items:
  *                   type: object
+ *                   required: [type, sessionId]
  *                   properties:
- *                     period:
+ *                     type:
  *                       type: string
- *                       example: "last_30_days"
- *                     totalUsers:
- *                       type: integer
- *                       example: 12500
- *                     activeUsers:
- *                       type: integer
- *                       example: 8750
- *                     newUsers:
- *                       type: integer
- *                       example: 2100
- *                     totalRevenue:
- *                       type: number
- *                       format: float
- *                       example: 156789.50
- *                     totalOrders:
+ *                       enum: [page_view, custom]
+ *                     name:
+ *                       type: string
+ *                       example: add_to_cart
+ *                       description: Required for custom events
+ *                     sessionId:
+ *                       type: string
+ *                     visitorId:
+ *                       type: string
+ *                       description: Visitor across sessions; each session counts as a visitor when unset
+ *                     url:
+ *                       type: string
+ *                       format: uri
+ *                       description: Required for page views
+ *                     referrer:
+ *                       type: string
+ *                     userAgent:
+ *                       type: string
+ *                     country:
+ *                       type: string
+ *                       example: DE
+ *                       description: ISO 3166-1 alpha-2 country code
+ *                     timestamp:
+ *                       type: string
+ *                       format: date-time
+ *                       description: Defaults to the time received; at most `ANALYTICS_EVENT_RETENTION_DAYS` old
+ *     responses:
+ *       200:
+ *         description: The events were recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     received:
  *                       type: integer
- *                       example: 3420
- *                     conversionRate:
- *                       type: number
- *                       format: float
- *                       example: 0.0275
- *                     topProducts:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/events",
+  requireScope("analytics:write"),
+  (req: Request, res: Response) => {
+    const errors = validateEventBatch(req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Event batch is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const { events } = req.body as { events: AnalyticsEvent[] };
+    getAnalyticsEventStore().record(events);
+
+    const response = DataGenerator.createApiResponse(
+      { received: events.length },
+      true,
+      "Events recorded",
+    );
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/analytics/funnels:
+ *   post:
+ *     summary: Evaluate a conversion funnel
+ *     description: |
+ *       Counts the sessions (or visitors, with `by=visitor`) that went
+ *       through the steps in order within the range, from the events
+ *       ingested with `POST /api/analytics/events`. Other events may happen
+ *       between two steps. With `by=visitor` the sessions of a visitor are
+ *       merged; sessions without a `visitorId` count on their own.
+ *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: [analytics:read]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [steps]
+ *             properties:
+ *               steps:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 10
+ *                 items:
+ *                   type: object
+ *                   required: [type]
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [page_view, custom]
+ *                     name:
+ *                       type: string
+ *                       example: add_to_cart
+ *                       description: Custom event name; required for custom event steps
+ *                     url:
+ *                       type: string
+ *                       example: /products/*
+ *                       description: Page path of page view steps, where `*` matches anything; any page when unset
+ *                     label:
+ *                       type: string
+ *               by:
+ *                 type: string
+ *                 enum: [session, visitor]
+ *                 default: session
+ *               period:
+ *                 type: string
+ *                 enum: [last_7_days, last_30_days, last_90_days, last_year]
+ *                 default: last_30_days
+ *               from:
+ *                 type: string
+ *                 format: date
+ *               to:
+ *                 type: string
+ *                 format: date
+ *           example:
+ *             steps:
+ *               - type: page_view
+ *                 url: /products/*
+ *                 label: View product
+ *               - type: custom
+ *                 name: add_to_cart
+ *               - type: custom
+ *                 name: order_placed
+ *     responses:
+ *       200:
+ *         description: Conversion per step
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Funnel'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *
+ * components:
+ *   schemas:
+ *     Funnel:
+ *       type: object
+ *       properties:
+ *         period:
+ *           type: string
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *         by:
+ *           type: string
+ *           enum: [session, visitor]
+ *         steps:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               step:
+ *                 type: integer
+ *               label:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               count:
+ *                 type: integer
+ *                 description: Sessions or visitors that reached the step
+ *               conversionRate:
+ *                 type: number
+ *                 description: Percentage of those entering the funnel
+ *               stepConversionRate:
+ *                 type: number
+ *                 description: Percentage of those reaching the previous step
+ *               dropOff:
+ *                 type: integer
+ *                 description: Lost since the previous step
+ *         entered:
+ *           type: integer
+ *         converted:
+ *           type: integer
+ *         conversionRate:
+ *           type: number
+ */
+router.post(
+  "/funnels",
+  requireScope("analytics:read"),
+  (req: Request, res: Response) => {
+    const errors = validateFunnelInput(req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Funnel is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      computeFunnel(req.body as FunnelInput),
+      true,
+      "Funnel evaluated successfully",
+    );
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/analytics/cohorts:
+ *   get:
+ *     summary: Get a retention table by signup cohort
+ *     description: |
+ *       Groups users by the week (starting Monday) or month they signed up
+ *       in, ending with the current one, and gives the share of each
+ *       cohort active in every period since. With `activity=order` a user
+ *       is active in a period when they placed an order that is not
+ *       cancelled or refunded. With `activity=login` they are active when
+ *       their last login was in that period or later (rolling retention),
+ *       as only the last login is stored.
+ *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: [analytics:read]
+ *     parameters:
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [week, month]
+ *           default: week
+ *       - in: query
+ *         name: activity
+ *         schema:
+ *           type: string
+ *           enum: [order, login]
+ *           default: order
+ *       - in: query
+ *         name: cohorts
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 52
+ *           default: 12
+ *         description: Number of cohorts
+ *     responses:
+ *       200:
+ *         description: Retention table
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     interval:
+ *                       type: string
+ *                     activity:
+ *                       type: string
+ *                     startDate:
+ *                       type: string
+ *                       format: date
+ *                     endDate:
+ *                       type: string
+ *                       format: date
+ *                     cohorts:
  *                       type: array
  *                       items:
  *                         type: object
  *                         properties:
- *                           id:
+ *                           cohort:
  *                             type: string
- *                           name:
- *                             type: string
- *                           sales:
+ *                             format: date
+ *                             description: First day of the signup period
+ *                           users:
  *                             type: integer
- *                     trafficSources:
- *                       type: object
- *                       properties:
- *                         organic:
- *                           type: number
- *                         direct:
- *                           type: number
- *                         social:
- *                           type: number
- *                         referral:
- *                           type: number
+ *                           retention:
+ *                             type: array
+ *                             description: One entry per period up to the current one; period 0 is the signup period
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 period:
+ *                                   type: integer
+ *                                 activeUsers:
+ *                                   type: integer
+ *                                 rate:
+ *                                   type: number
  *                 success:
  *                   type: boolean
- *                   example: true
  *                 message:
  *                   type: string
- *                   example: "Analytics data retrieved successfully"
+ *       400:
+ *         description: Unknown interval or activity, or cohorts out of range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const period = (req.query["period"] as string) || "last_30_days";
-
-  const analytics = DataGenerator.generateAnalytics();
-  analytics.period = period;
-
-  const response = DataGenerator.createApiResponse(
-    analytics,
-    true,
-    "Analytics data retrieved successfully",
-  );
+router.get(
+  "/cohorts",
+  requireScope("analytics:read"),
+  (req: Request, res: Response) => {
+    const input: Record<string, unknown> = {};
+    for (const field of ["interval", "activity", "cohorts"]) {
+      if (req.query[field] !== undefined) {
+        input[field] = req.query[field];
+      }
+    }
+    const errors = validateCohortQuery(input);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_ANALYTICS_PARAMETERS",
+        "Invalid cohort parameters",
+        errors,
+      );
+      return res.status(400).json(response);
+    }
 
-  res.json(response);
-});
+    const response = DataGenerator.createApiResponse(
+      computeCohorts(input as CohortQuery),
+      true,
+      "Cohorts retrieved successfully",
+    );
+    return res.json(response);
+  },
+);
 
 export default router;
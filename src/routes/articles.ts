@@ -1,20 +1,84 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import { getDataStore } from "../services/dataStore";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  setPaginationLinks,
+} from "../utils/collection";
 
 const router = Router();
 
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on
+ * `GET /api/articles`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    title: "string",
+    slug: "string",
+    "author.id": "string",
+    category: "string",
+    tags: "array",
+    featured: "boolean",
+    status: "string",
+    publishedAt: "date",
+    updatedAt: "date",
+    "metrics.views": "number",
+    "metrics.likes": "number",
+    "metrics.readingTime": "number",
+  },
+  selectable: [
+    "id",
+    "title",
+    "slug",
+    "content",
+    "excerpt",
+    "author",
+    "author.id",
+    "author.name",
+    "author.avatar",
+    "category",
+    "tags",
+    "featured",
+    "publishedAt",
+    "updatedAt",
+    "status",
+    "seo",
+    "metrics",
+    "metrics.views",
+    "metrics.likes",
+    "metrics.shares",
+    "metrics.comments",
+    "metrics.readingTime",
+    "featuredImage",
+  ],
+};
+
 /**
  * @swagger
  * /api/articles:
  *   get:
  *     summary: Get paginated list of articles
+ *     description: |
+ *       Any field listed in the README filter table can be used as a filter:
+ *       `field=value` for equality, or `field[op]=value` with an operator
+ *       such as `gte`, `lt`, `in` or `contains` (for example
+ *       `createdAt[gte]=2024-01-01`). Unknown fields or operators are
+ *       rejected with 400.
  *     tags: [Articles]
+ *     security:
+ *       - BearerAuth: [articles:read]
  *     parameters:
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 10000
  *           default: 1
  *         description: Page number
  *       - in: query
@@ -25,6 +89,9 @@ const router = Router();
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
  *       - in: query
  *         name: category
  *         schema:
@@ -38,6 +105,9 @@ const router = Router();
  *     responses:
  *       200:
  *         description: Paginated list of articles
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
@@ -96,44 +166,278 @@ const router = Router();
  *                       type: boolean
  *                     hasPrev:
  *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                     prevCursor:
+ *                       type: string
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/",
+  requireScope("articles:read"),
+  (req: Request, res: Response) => {
+    const category =
+      typeof req.query["category"] === "string"
+        ? req.query["category"]
+        : undefined;
+    const featured = req.query["featured"] === "true";
+
+    const { query, error } = parseCollectionQuery(req.query, collectionFields);
+    if (error) {
+      const response = DataGenerator.createErrorResponse(
+        error.code,
+        error.message,
+        error.details,
+      );
+      return res.status(400).json(response);
+    }
+
+    const repository = getDataStore().articles;
+    const result = paginateCollection(repository.list(), query);
+    if (result.error) {
+      const response = DataGenerator.createErrorResponse(
+        result.error.code,
+        result.error.message,
+        result.error.details,
+      );
+      return res.status(400).json(response);
+    }
+    setPaginationLinks(req, res, result, query);
+
+    let message = "Articles retrieved successfully";
+    if (category) {
+      message = `Articles in category '${category}' retrieved successfully`;
+    }
+    if (featured) {
+      message = "Featured articles retrieved successfully";
+    }
+    if (category && featured) {
+      message = `Featured articles in category '${category}' retrieved successfully`;
+    }
+
+    const response = createCollectionResponse(result, query);
+
+    response.message = message;
+
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Article:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         content:
+ *           type: string
+ *         excerpt:
+ *           type: string
+ *         author:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             avatar:
+ *               type: string
+ *             bio:
+ *               type: string
+ *         category:
+ *           type: string
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         featured:
+ *           type: boolean
+ *         publishedAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [draft, published, archived]
+ *         seo:
+ *           type: object
+ *           properties:
+ *             title:
+ *               type: string
+ *             description:
+ *               type: string
+ *             keywords:
+ *               type: array
+ *               items:
+ *                 type: string
+ *             canonicalUrl:
+ *               type: string
+ *         metrics:
+ *           type: object
+ *           properties:
+ *             views:
+ *               type: integer
+ *             likes:
+ *               type: integer
+ *             shares:
+ *               type: integer
+ *             comments:
+ *               type: integer
+ *             readingTime:
+ *               type: integer
+ *         featuredImage:
+ *           type: object
+ *           properties:
+ *             url:
+ *               type: string
+ *             alt:
+ *               type: string
+ *             caption:
+ *               type: string
+ */
+
+/**
+ * @swagger
+ * /api/articles/slug/{slug}:
+ *   get:
+ *     summary: Get an article by slug
+ *     tags: [Articles]
+ *     security:
+ *       - BearerAuth: [articles:read]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Article slug
+ *     responses:
+ *       200:
+ *         description: The article
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Article'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/slug/:slug",
+  requireScope("articles:read"),
+  (req: Request, res: Response) => {
+    const slug = req.params["slug"] as string;
+    const [article] = getDataStore().articles.find(
+      (item) => item.slug === slug,
+    );
+
+    if (!article) {
+      const response = DataGenerator.createErrorResponse(
+        "ARTICLE_NOT_FOUND",
+        `Article with slug '${slug}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      article,
+      true,
+      "Article retrieved successfully",
+    );
+
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/articles/{id}:
+ *   get:
+ *     summary: Get an article by id
+ *     tags: [Articles]
+ *     security:
+ *       - BearerAuth: [articles:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Article id
+ *     responses:
+ *       200:
+ *         description: The article
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Article'
  *                 success:
  *                   type: boolean
  *                 message:
  *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const page = parseInt(req.query["page"] as string) || 1;
-  const limit = parseInt(req.query["limit"] as string) || 10;
-  const category = req.query["category"] as string;
-  const featured = req.query["featured"] === "true";
-
-  const articles = DataGenerator.generateArray(
-    () => DataGenerator.generateArticle(),
-    limit,
-  );
-  const total = 750; // Mock total count
-
-  let message = "Articles retrieved successfully";
-  if (category) {
-    message = `Articles in category '${category}' retrieved successfully`;
-  }
-  if (featured) {
-    message = "Featured articles retrieved successfully";
-  }
-  if (category && featured) {
-    message = `Featured articles in category '${category}' retrieved successfully`;
-  }
-
-  const response = DataGenerator.createPaginatedResponse(
-    articles,
-    page,
-    limit,
-    total,
-  );
-
-  response.message = message;
-
-  res.json(response);
-});
+router.get(
+  "/:id",
+  requireScope("articles:read"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const article = getDataStore().articles.get(id);
+
+    if (!article) {
+      const response = DataGenerator.createErrorResponse(
+        "ARTICLE_NOT_FOUND",
+        `Article '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      article,
+      true,
+      "Article retrieved successfully",
+    );
+
+    return res.json(response);
+  },
+);
 
 export default router;
@@ -1,61 +1,165 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { DataGenerator } from '../utils/dataGenerator';
+import { getHealthRegistry } from '../services/health';
 
 const router = Router();
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SystemHealth:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [healthy, degraded, down]
+ *           description: Down when a critical service is, degraded when any service is not healthy
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *         uptime:
+ *           type: number
+ *           description: Seconds since the process started
+ *           example: 12345.67
+ *         version:
+ *           type: string
+ *           example: v1.0.0
+ *         environment:
+ *           type: string
+ *           example: production
+ *         services:
+ *           type: array
+ *           description: One entry per registered probe
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: data-store
+ *               status:
+ *                 type: string
+ *                 enum: [healthy, degraded, down]
+ *               critical:
+ *                 type: boolean
+ *                 description: Whether the service is down while this dependency is
+ *               responseTime:
+ *                 type: integer
+ *                 description: Milliseconds the probe took
+ *               lastCheck:
+ *                 type: string
+ *                 format: date-time
+ *               error:
+ *                 type: string
+ *                 description: Why the probe failed or timed out
+ *               details:
+ *                 type: object
+ *         performance:
+ *           type: object
+ *           properties:
+ *             cpu:
+ *               type: object
+ *               properties:
+ *                 usage:
+ *                   type: number
+ *                   description: Percentage of all cores busy since the previous check
+ *                 cores:
+ *                   type: integer
+ *                 loadAverage:
+ *                   type: array
+ *                   description: 1, 5 and 15 minute load averages
+ *                   items:
+ *                     type: number
+ *             memory:
+ *               type: object
+ *               description: System memory in bytes
+ *               properties:
+ *                 used:
+ *                   type: integer
+ *                 total:
+ *                   type: integer
+ *                 percentage:
+ *                   type: number
+ *                 process:
+ *                   type: integer
+ *                   description: Resident set size of the API process
+ *             disk:
+ *               type: object
+ *               description: Bytes on the file system holding DATA_DIR; absent where unavailable
+ *               properties:
+ *                 used:
+ *                   type: integer
+ *                 total:
+ *                   type: integer
+ *                 percentage:
+ *                   type: number
+ */
+
 /**
  * @swagger
  * /health:
  *   get:
  *     summary: Get system health status
+ *     description: |
+ *       Runs the probe of every dependency, such as the data store, the
+ *       report queue and the API key verifier. A probe that fails or takes
+ *       longer than `HEALTH_PROBE_TIMEOUT_MS` reports its dependency as
+ *       down. Responds with 503 while the service is down, so load
+ *       balancers can take the instance out of rotation.
  *     tags: [Health]
+ *     security: []
  *     responses:
  *       200:
- *         description: System health information
+ *         description: The service is healthy or degraded
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
  *                 data:
- *                   type: object
- *                   properties:
- *                     status:
- *                       type: string
- *                       example: "healthy"
- *                     uptime:
- *                       type: number
- *                       example: 12345.67
- *                     timestamp:
- *                       type: string
- *                       format: date-time
- *                     memory:
- *                       type: object
- *                       properties:
- *                         used:
- *                           type: number
- *                         total:
- *                           type: number
- *                     cpu:
- *                       type: object
- *                       properties:
- *                         usage:
- *                           type: number
+ *                   $ref: '#/components/schemas/SystemHealth'
  *                 success:
  *                   type: boolean
  *                   example: true
  *                 message:
  *                   type: string
  *                   example: "System health retrieved successfully"
+ *       503:
+ *         description: A critical dependency is down (`SERVICE_UNAVAILABLE`); the health report is in `error.details`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Error'
+ *                 - type: object
+ *                   properties:
+ *                     error:
+ *                       type: object
+ *                       properties:
+ *                         details:
+ *                           $ref: '#/components/schemas/SystemHealth'
  */
-router.get('/', (req: Request, res: Response) => {
-  const healthData = DataGenerator.generateSystemHealth();
-  const response = DataGenerator.createApiResponse(
-    healthData,
-    true,
-    'System health retrieved successfully'
-  );
-  res.json(response);
+router.get('/', (req: Request, res: Response, next: NextFunction) => {
+  getHealthRegistry()
+    .check()
+    .then((health) => {
+      if (health.status === 'down') {
+        const response = DataGenerator.createErrorResponse(
+          'SERVICE_UNAVAILABLE',
+          'One or more critical services are down',
+          health
+        );
+        return res.status(503).json(response);
+      }
+
+      const response = DataGenerator.createApiResponse(
+        health,
+        true,
+        'System health retrieved successfully'
+      );
+      return res.json(response);
+    })
+    .catch(next);
 });
 
 export default router;
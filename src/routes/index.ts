@@ -1,5 +1,8 @@
 import { Express } from "express";
 import { requireBearerToken } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { mockSeed } from "../middleware/mockSeed";
+import { currency } from "../middleware/currency";
 import healthRoutes from "./health";
 import usersRoutes from "./users";
 import productsRoutes from "./products";
@@ -9,6 +12,7 @@ import articlesRoutes from "./articles";
 import notificationsRoutes from "./notifications";
 import searchRoutes from "./search";
 import reportsRoutes from "./reports";
+import reportSchedulesRoutes from "./reportSchedules";
 import integrationsRoutes from "./integrations";
 import settingsRoutes from "./settings";
 import openapiRoutes from "./openapi";
@@ -21,14 +25,21 @@ export function setupRoutes(app: Express): void {
   app.use("/", openapiRoutes);
 
   // API routes with /api prefix - all require Bearer token authentication
-  app.use("/api/users", requireBearerToken, usersRoutes);
-  app.use("/api/products", requireBearerToken, productsRoutes);
-  app.use("/api/orders", requireBearerToken, ordersRoutes);
-  app.use("/api/analytics", requireBearerToken, analyticsRoutes);
-  app.use("/api/articles", requireBearerToken, articlesRoutes);
-  app.use("/api/notifications", requireBearerToken, notificationsRoutes);
-  app.use("/api/search", requireBearerToken, searchRoutes);
-  app.use("/api/reports", requireBearerToken, reportsRoutes);
-  app.use("/api/integrations", requireBearerToken, integrationsRoutes);
-  app.use("/api/settings", requireBearerToken, settingsRoutes);
+  // and are rate limited per API key
+  const protectedApi = [requireBearerToken, rateLimit, mockSeed];
+  // Routes reporting amounts also convert them to a requested currency
+  const monetaryApi = [requireBearerToken, rateLimit, currency, mockSeed];
+
+  app.use("/api/users", protectedApi, usersRoutes);
+  app.use("/api/products", monetaryApi, productsRoutes);
+  app.use("/api/orders", monetaryApi, ordersRoutes);
+  app.use("/api/analytics", monetaryApi, analyticsRoutes);
+  app.use("/api/articles", protectedApi, articlesRoutes);
+  app.use("/api/notifications", protectedApi, notificationsRoutes);
+  app.use("/api/search", protectedApi, searchRoutes);
+  // Before /api/reports, whose /:reportId would match "schedules"
+  app.use("/api/reports/schedules", monetaryApi, reportSchedulesRoutes);
+  app.use("/api/reports", monetaryApi, reportsRoutes);
+  app.use("/api/integrations", protectedApi, integrationsRoutes);
+  app.use("/api/settings", protectedApi, settingsRoutes);
 }
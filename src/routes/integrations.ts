@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { DataGenerator } from '../utils/dataGenerator';
+import { requireScope } from '../middleware/auth';
 
 const router = Router();
 
@@ -9,6 +10,8 @@ const router = Router();
  *   get:
  *     summary: Get list of available integrations
  *     tags: [Integrations]
+ *     security:
+ *       - BearerAuth: [integrations:read]
  *     responses:
  *       200:
  *         description: List of integrations
@@ -59,8 +62,12 @@ const router = Router();
  *                 message:
  *                   type: string
  *                   example: "Integrations retrieved successfully"
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get('/', (req: Request, res: Response) => {
+router.get('/', requireScope('integrations:read'), (req: Request, res: Response) => {
   const integrations = [
     {
       id: 'stripe',
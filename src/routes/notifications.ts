@@ -1,20 +1,71 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import { getDataStore } from "../services/dataStore";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  setPaginationLinks,
+} from "../utils/collection";
 
 const router = Router();
 
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on
+ * `GET /api/notifications`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    userId: "string",
+    type: "string",
+    isRead: "boolean",
+    priority: "string",
+    channels: "array",
+    createdAt: "date",
+    expiresAt: "date",
+  },
+  selectable: [
+    "id",
+    "userId",
+    "type",
+    "title",
+    "message",
+    "data",
+    "isRead",
+    "priority",
+    "channels",
+    "scheduledFor",
+    "createdAt",
+    "readAt",
+    "actionUrl",
+    "actionText",
+    "expiresAt",
+  ],
+};
+
 /**
  * @swagger
  * /api/notifications:
  *   get:
  *     summary: Get paginated list of notifications
+ *     description: |
+ *       Any field listed in the README filter table can be used as a filter:
+ *       `field=value` for equality, or `field[op]=value` with an operator
+ *       such as `gte`, `lt`, `in` or `contains` (for example
+ *       `createdAt[gte]=2024-01-01`). Unknown fields or operators are
+ *       rejected with 400.
  *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: [notifications:read]
  *     parameters:
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 10000
  *           default: 1
  *         description: Page number
  *       - in: query
@@ -25,6 +76,9 @@ const router = Router();
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
  *       - in: query
  *         name: type
  *         schema:
@@ -39,6 +93,9 @@ const router = Router();
  *     responses:
  *       200:
  *         description: Paginated list of notifications
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
@@ -91,44 +148,191 @@ const router = Router();
  *                       type: boolean
  *                     hasPrev:
  *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                     prevCursor:
+ *                       type: string
  *                 success:
  *                   type: boolean
  *                 message:
  *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const page = parseInt(req.query["page"] as string) || 1;
-  const limit = parseInt(req.query["limit"] as string) || 10;
-  const type = req.query["type"] as string;
-  const unread = req.query["unread"] === "true";
+router.get(
+  "/",
+  requireScope("notifications:read"),
+  (req: Request, res: Response) => {
+    const type =
+      typeof req.query["type"] === "string" ? req.query["type"] : undefined;
+    const unread = req.query["unread"] === "true";
+
+    const { query, error } = parseCollectionQuery(req.query, collectionFields, [
+      "unread",
+    ]);
+    if (error) {
+      const response = DataGenerator.createErrorResponse(
+        error.code,
+        error.message,
+        error.details,
+      );
+      return res.status(400).json(response);
+    }
+    if (unread) {
+      query.filters.push({
+        field: "isRead",
+        type: "boolean",
+        operator: "eq",
+        values: [false],
+      });
+    }
+
+    const repository = getDataStore().notifications;
+    const result = paginateCollection(repository.list(), query);
+    if (result.error) {
+      const response = DataGenerator.createErrorResponse(
+        result.error.code,
+        result.error.message,
+        result.error.details,
+      );
+      return res.status(400).json(response);
+    }
+    setPaginationLinks(req, res, result, query);
+
+    let message = "Notifications retrieved successfully";
+    if (type) {
+      message = `${type.charAt(0).toUpperCase() + type.slice(1)} notifications retrieved successfully`;
+    }
+    if (unread) {
+      message = "Unread notifications retrieved successfully";
+    }
+    if (type && unread) {
+      message = `Unread ${type} notifications retrieved successfully`;
+    }
 
-  const notifications = DataGenerator.generateArray(
-    () => DataGenerator.generateNotification(),
-    limit,
-  );
-  const total = 300; // Mock total count
+    const response = createCollectionResponse(result, query);
 
-  let message = "Notifications retrieved successfully";
-  if (type) {
-    message = `${type.charAt(0).toUpperCase() + type.slice(1)} notifications retrieved successfully`;
-  }
-  if (unread) {
-    message = "Unread notifications retrieved successfully";
-  }
-  if (type && unread) {
-    message = `Unread ${type} notifications retrieved successfully`;
-  }
+    response.message = message;
+
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         userId:
+ *           type: string
+ *           format: uuid
+ *         type:
+ *           type: string
+ *           enum: [info, success, warning, error, promotion]
+ *         title:
+ *           type: string
+ *         message:
+ *           type: string
+ *         data:
+ *           type: object
+ *           additionalProperties: true
+ *         isRead:
+ *           type: boolean
+ *         priority:
+ *           type: string
+ *           enum: [low, medium, high, urgent]
+ *         channels:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [email, push, sms, in_app]
+ *         scheduledFor:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *         actionUrl:
+ *           type: string
+ *         actionText:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/notifications/{id}:
+ *   get:
+ *     summary: Get a notification by id
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: [notifications:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Notification id
+ *     responses:
+ *       200:
+ *         description: The notification
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Notification'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:id",
+  requireScope("notifications:read"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const notification = getDataStore().notifications.get(id);
 
-  const response = DataGenerator.createPaginatedResponse(
-    notifications,
-    page,
-    limit,
-    total,
-  );
+    if (!notification) {
+      const response = DataGenerator.createErrorResponse(
+        "NOTIFICATION_NOT_FOUND",
+        `Notification '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
 
-  response.message = message;
+    const response = DataGenerator.createApiResponse(
+      notification,
+      true,
+      "Notification retrieved successfully",
+    );
 
-  res.json(response);
-});
+    return res.json(response);
+  },
+);
 
 export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import * as fs from "fs";
+import * as yaml from "js-yaml";
 import * as path from "path";
 
 const router = Router();
@@ -10,6 +11,7 @@ const router = Router();
  *   get:
  *     summary: Get OpenAPI specification in YAML format
  *     tags: [Documentation]
+ *     security: []
  *     responses:
  *       200:
  *         description: OpenAPI specification
@@ -47,6 +49,7 @@ router.get("/openapi.yaml", (req: Request, res: Response) => {
  *   get:
  *     summary: Get OpenAPI specification in JSON format
  *     tags: [Documentation]
+ *     security: []
  *     responses:
  *       200:
  *         description: OpenAPI specification in JSON format
@@ -80,7 +83,6 @@ router.get("/openapi.json", (req: Request, res: Response) => {
     }
 
     const yamlContent = fs.readFileSync(openapiPath, "utf8");
-    const yaml = require("js-yaml");
     const jsonSpec = yaml.load(yamlContent);
 
     res.setHeader("Content-Type", "application/json");
@@ -1,20 +1,103 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import { CurrencyConverter, withConversion } from "../services/currency";
+import { getDataStore } from "../services/dataStore";
+import { findStockShortages } from "../services/inventory";
+import {
+  canTransition,
+  createOrder,
+  ORDER_TRANSITIONS,
+  OrderAction,
+  OrderInput,
+  transitionOrder,
+  TransitionInput,
+  validateOrderInput,
+  validateQuoteInput,
+  validateTransitionInput,
+} from "../services/orders";
+import { quoteOrder, QuoteInput } from "../services/pricing";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  setPaginationLinks,
+} from "../utils/collection";
 
 const router = Router();
 
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on
+ * `GET /api/orders`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    orderNumber: "string",
+    customerId: "string",
+    status: "string",
+    "payment.method": "string",
+    "payment.status": "string",
+    "payment.currency": "string",
+    "shipping.method": "string",
+    "shipping.address.country": "string",
+    "totals.total": "number",
+    "totals.subtotal": "number",
+    createdAt: "date",
+    updatedAt: "date",
+  },
+  selectable: [
+    "id",
+    "orderNumber",
+    "customerId",
+    "status",
+    "statusHistory",
+    "items",
+    "shipping",
+    "shipping.address",
+    "shipping.address.country",
+    "shipping.method",
+    "shipping.cost",
+    "shipping.estimatedDelivery",
+    "shipping.trackingNumber",
+    "payment",
+    "payment.method",
+    "payment.status",
+    "payment.amount",
+    "payment.currency",
+    "totals",
+    "totals.subtotal",
+    "totals.tax",
+    "totals.shipping",
+    "totals.discount",
+    "totals.total",
+    "createdAt",
+    "updatedAt",
+    "notes",
+  ],
+};
+
 /**
  * @swagger
  * /api/orders:
  *   get:
  *     summary: Get paginated list of orders
+ *     description: |
+ *       Any field listed in the README filter table can be used as a filter:
+ *       `field=value` for equality, or `field[op]=value` with an operator
+ *       such as `gte`, `lt`, `in` or `contains` (for example
+ *       `createdAt[gte]=2024-01-01`). Unknown fields or operators are
+ *       rejected with 400.
  *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:read]
  *     parameters:
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 10000
  *           default: 1
  *         description: Page number
  *       - in: query
@@ -25,15 +108,23 @@ const router = Router();
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
  *       - in: query
  *         name: status
  *         schema:
  *           type: string
  *           enum: [pending, processing, shipped, delivered, cancelled]
  *         description: Filter by order status
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
  *     responses:
  *       200:
  *         description: Paginated list of orders
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
@@ -85,34 +176,896 @@ const router = Router();
  *                       type: boolean
  *                     hasPrev:
  *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                     prevCursor:
+ *                       type: string
  *                 success:
  *                   type: boolean
  *                 message:
  *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const page = parseInt(req.query["page"] as string) || 1;
-  const limit = parseInt(req.query["limit"] as string) || 10;
-  const status = req.query["status"] as string;
-
-  const orders = DataGenerator.generateArray(
-    () => DataGenerator.generateOrder(),
-    limit,
-  );
-  const total = 2500; // Mock total count
+router.get("/", requireScope("orders:read"), (req: Request, res: Response) => {
+  const status =
+    typeof req.query["status"] === "string" ? req.query["status"] : undefined;
 
-  const response = DataGenerator.createPaginatedResponse(
-    orders,
-    page,
-    limit,
-    total,
+  const { query, error } = parseCollectionQuery(req.query, collectionFields);
+  if (error) {
+    const response = DataGenerator.createErrorResponse(
+      error.code,
+      error.message,
+      error.details,
+    );
+    return res.status(400).json(response);
+  }
+
+  const repository = getDataStore().orders;
+  const converter = new CurrencyConverter(req.currency);
+  const result = paginateCollection(repository.list(), query, (order) =>
+    converter.order(order),
   );
+  if (result.error) {
+    const response = DataGenerator.createErrorResponse(
+      result.error.code,
+      result.error.message,
+      result.error.details,
+    );
+    return res.status(400).json(response);
+  }
+  setPaginationLinks(req, res, result, query);
+
+  const response = createCollectionResponse(result, query);
 
   response.message = status
     ? `Orders with status '${status}' retrieved successfully`
     : "Orders retrieved successfully";
 
-  res.json(response);
+  return res.json(withConversion(response, converter));
 });
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Order:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         orderNumber:
+ *           type: string
+ *         customerId:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [pending, processing, shipped, delivered, cancelled, refunded]
+ *         statusHistory:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, processing, shipped, delivered, cancelled, refunded]
+ *               changedAt:
+ *                 type: string
+ *                 format: date-time
+ *               note:
+ *                 type: string
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *               productName:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *               unitPrice:
+ *                 type: number
+ *               totalPrice:
+ *                 type: number
+ *               sku:
+ *                 type: string
+ *         shipping:
+ *           type: object
+ *           properties:
+ *             address:
+ *               type: object
+ *               properties:
+ *                 street:
+ *                   type: string
+ *                 city:
+ *                   type: string
+ *                 state:
+ *                   type: string
+ *                 zipCode:
+ *                   type: string
+ *                 country:
+ *                   type: string
+ *             method:
+ *               type: string
+ *             cost:
+ *               type: number
+ *             estimatedDelivery:
+ *               type: string
+ *               format: date-time
+ *             trackingNumber:
+ *               type: string
+ *         payment:
+ *           type: object
+ *           properties:
+ *             method:
+ *               type: string
+ *               enum: [credit_card, paypal, bank_transfer, crypto]
+ *             status:
+ *               type: string
+ *               enum: [pending, completed, failed, refunded]
+ *             transactionId:
+ *               type: string
+ *             amount:
+ *               type: number
+ *             currency:
+ *               type: string
+ *         totals:
+ *           type: object
+ *           properties:
+ *             subtotal:
+ *               type: number
+ *             tax:
+ *               type: number
+ *             shipping:
+ *               type: number
+ *             discount:
+ *               type: number
+ *             total:
+ *               type: number
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   get:
+ *     summary: Get an order by id
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     responses:
+ *       200:
+ *         description: The order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:id",
+  requireScope("orders:read"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const order = getDataStore().orders.get(id);
+
+    if (!order) {
+      const response = DataGenerator.createErrorResponse(
+        "ORDER_NOT_FOUND",
+        `Order '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const converter = new CurrencyConverter(req.currency);
+    const response = DataGenerator.createApiResponse(
+      converter.order(order),
+      true,
+      "Order retrieved successfully",
+    );
+
+    return res.json(withConversion(response, converter));
+  },
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OrderInput:
+ *       type: object
+ *       required: [customerId, items, shipping, payment]
+ *       properties:
+ *         customerId:
+ *           type: string
+ *           format: uuid
+ *         items:
+ *           type: array
+ *           minItems: 1
+ *           items:
+ *             type: object
+ *             required: [productId, quantity]
+ *             properties:
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *         shipping:
+ *           type: object
+ *           required: [address, method]
+ *           properties:
+ *             address:
+ *               type: object
+ *               required: [street, city, state, zipCode, country]
+ *               properties:
+ *                 street:
+ *                   type: string
+ *                 city:
+ *                   type: string
+ *                 state:
+ *                   type: string
+ *                 zipCode:
+ *                   type: string
+ *                 country:
+ *                   type: string
+ *             method:
+ *               type: string
+ *               enum: [standard, ground, express, overnight]
+ *         payment:
+ *           type: object
+ *           required: [method]
+ *           properties:
+ *             method:
+ *               type: string
+ *               enum: [credit_card, paypal, bank_transfer, crypto]
+ *         notes:
+ *           type: string
+ *     QuoteInput:
+ *       type: object
+ *       required: [items, shipping]
+ *       properties:
+ *         items:
+ *           type: array
+ *           minItems: 1
+ *           items:
+ *             type: object
+ *             required: [productId, quantity]
+ *             properties:
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *         shipping:
+ *           type: object
+ *           required: [address, method]
+ *           properties:
+ *             address:
+ *               type: object
+ *               required: [country]
+ *               properties:
+ *                 state:
+ *                   type: string
+ *                 country:
+ *                   type: string
+ *             method:
+ *               type: string
+ *               enum: [standard, ground, express, overnight]
+ *     Quote:
+ *       type: object
+ *       properties:
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *               productName:
+ *                 type: string
+ *               sku:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *               unitPrice:
+ *                 type: number
+ *                 description: List price before the product discount
+ *               discountPercentage:
+ *                 type: number
+ *               discount:
+ *                 type: number
+ *               totalPrice:
+ *                 type: number
+ *                 description: unitPrice * quantity, before the discount
+ *         totals:
+ *           type: object
+ *           properties:
+ *             subtotal:
+ *               type: number
+ *             tax:
+ *               type: number
+ *             shipping:
+ *               type: number
+ *             discount:
+ *               type: number
+ *             total:
+ *               type: number
+ *         currency:
+ *           type: string
+ *         tax:
+ *           type: object
+ *           properties:
+ *             rate:
+ *               type: number
+ *             country:
+ *               type: string
+ *             state:
+ *               type: string
+ *         shipping:
+ *           type: object
+ *           properties:
+ *             method:
+ *               type: string
+ *             cost:
+ *               type: number
+ *             estimatedDelivery:
+ *               type: string
+ *               format: date-time
+ *             freeShippingApplied:
+ *               type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/orders:
+ *   post:
+ *     summary: Place an order
+ *     description: |
+ *       Creates a pending order and reserves stock for each item. Prices and
+ *       totals are computed as by `POST /api/orders/quote`. Reserved stock is
+ *       released when the order is cancelled and deducted from stock when it
+ *       ships.
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:write]
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderInput'
+ *     responses:
+ *       201:
+ *         description: The created order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         $ref: '#/components/responses/InsufficientStock'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/",
+  requireScope("orders:write"),
+  (req: Request, res: Response) => {
+    const errors = validateOrderInput(req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Order is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const input = req.body as OrderInput;
+    const shortages = findStockShortages(input.items);
+    if (shortages.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "INSUFFICIENT_STOCK",
+        "Not enough stock available for some items",
+        shortages,
+      );
+      return res.status(409).json(response);
+    }
+
+    const order = createOrder(input);
+    const converter = new CurrencyConverter(req.currency);
+    const response = DataGenerator.createApiResponse(
+      converter.order(order),
+      true,
+      "Order created successfully",
+    );
+
+    return res.status(201).json(withConversion(response, converter));
+  },
+);
+
+/**
+ * @swagger
+ * /api/orders/quote:
+ *   post:
+ *     summary: Quote an order
+ *     description: |
+ *       Computes the price breakdown of an order without placing it or
+ *       reserving stock. Lines are priced at list price with the product
+ *       discount shown separately; shipping is free once the discounted
+ *       subtotal reaches the method's threshold; tax uses the rate of the
+ *       shipping state, falling back to the country and then the default
+ *       rate. A full `OrderInput` body is accepted as well.
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:read]
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuoteInput'
+ *     responses:
+ *       200:
+ *         description: The price breakdown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Quote'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/quote",
+  requireScope("orders:read"),
+  (req: Request, res: Response) => {
+    const errors = validateQuoteInput(req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Quote request is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const quote = quoteOrder(req.body as QuoteInput);
+    const converter = new CurrencyConverter(req.currency);
+    const response = DataGenerator.createApiResponse(
+      converter.quote(quote),
+      true,
+      "Quote computed successfully",
+    );
+
+    return res.json(withConversion(response, converter));
+  },
+);
+
+/**
+ * Builds the handler for `POST /api/orders/:id/<action>`, which rejects
+ * transitions the order lifecycle does not allow with 409.
+ */
+function transition(action: OrderAction) {
+  return (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const order = getDataStore().orders.get(id);
+
+    if (!order) {
+      const response = DataGenerator.createErrorResponse(
+        "ORDER_NOT_FOUND",
+        `Order '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const errors = validateTransitionInput(action, req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Transition request is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    if (!canTransition(order, action)) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_ORDER_TRANSITION",
+        `Cannot ${action} an order that is ${order.status}`,
+        {
+          status: order.status,
+          action,
+          allowedFrom: ORDER_TRANSITIONS[action].from,
+        },
+      );
+      return res.status(409).json(response);
+    }
+
+    const updated = transitionOrder(order, action, req.body as TransitionInput);
+    const converter = new CurrencyConverter(req.currency);
+    const response = DataGenerator.createApiResponse(
+      converter.order(updated),
+      true,
+      `Order is now ${updated.status}`,
+    );
+
+    return res.json(withConversion(response, converter));
+  };
+}
+
+/**
+ * @swagger
+ * /api/orders/{id}/process:
+ *   post:
+ *     summary: Start processing an order
+ *     description: Moves the order from pending to processing. Payment is captured (`payment.status` becomes `completed`).
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Recorded in the status history
+ *     responses:
+ *       200:
+ *         description: The updated order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/:id/process",
+  requireScope("orders:write"),
+  transition("process"),
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}/ship:
+ *   post:
+ *     summary: Ship an order
+ *     description: Moves the order from processing to shipped. A tracking number is generated unless one is given.
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               trackingNumber:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *                 description: Recorded in the status history
+ *     responses:
+ *       200:
+ *         description: The updated order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post("/:id/ship", requireScope("orders:write"), transition("ship"));
+
+/**
+ * @swagger
+ * /api/orders/{id}/deliver:
+ *   post:
+ *     summary: Mark an order as delivered
+ *     description: Moves the order from shipped to delivered.
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Recorded in the status history
+ *     responses:
+ *       200:
+ *         description: The updated order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/:id/deliver",
+  requireScope("orders:write"),
+  transition("deliver"),
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel an order
+ *     description: Moves the order from pending or processing to cancelled. A captured payment is refunded; an uncaptured one is voided (`failed`).
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Recorded in the status history
+ *     responses:
+ *       200:
+ *         description: The updated order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post("/:id/cancel", requireScope("orders:write"), transition("cancel"));
+
+/**
+ * @swagger
+ * /api/orders/{id}/refund:
+ *   post:
+ *     summary: Refund a delivered order
+ *     description: Moves the order from delivered to refunded. `payment.status` becomes `refunded`.
+ *     tags: [Orders]
+ *     security:
+ *       - BearerAuth: [orders:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Order id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Recorded in the status history
+ *     responses:
+ *       200:
+ *         description: The updated order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Order'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/InvalidTransition'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post("/:id/refund", requireScope("orders:write"), transition("refund"));
+
 export default router;
@@ -1,20 +1,90 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import { CurrencyConverter, withConversion } from "../services/currency";
+import { getDataStore } from "../services/dataStore";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  setPaginationLinks,
+} from "../utils/collection";
 
 const router = Router();
 
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on
+ * `GET /api/products`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    name: "string",
+    category: "string",
+    brand: "string",
+    "price.amount": "number",
+    "price.currency": "string",
+    "price.discountPercentage": "number",
+    "inventory.stock": "number",
+    "inventory.available": "number",
+    "ratings.average": "number",
+    "ratings.count": "number",
+    tags: "array",
+    isActive: "boolean",
+    createdAt: "date",
+    updatedAt: "date",
+  },
+  selectable: [
+    "id",
+    "name",
+    "description",
+    "category",
+    "brand",
+    "price",
+    "price.amount",
+    "price.currency",
+    "price.discountPercentage",
+    "price.originalPrice",
+    "images",
+    "specifications",
+    "inventory",
+    "inventory.stock",
+    "inventory.reserved",
+    "inventory.available",
+    "inventory.lowStockThreshold",
+    "ratings",
+    "ratings.average",
+    "ratings.count",
+    "ratings.distribution",
+    "tags",
+    "createdAt",
+    "updatedAt",
+    "isActive",
+    "seoData",
+  ],
+};
+
 /**
  * @swagger
  * /api/products:
  *   get:
  *     summary: Get paginated list of products
+ *     description: |
+ *       Any field listed in the README filter table can be used as a filter:
+ *       `field=value` for equality, or `field[op]=value` with an operator
+ *       such as `gte`, `lt`, `in` or `contains` (for example
+ *       `createdAt[gte]=2024-01-01`). Unknown fields or operators are
+ *       rejected with 400.
  *     tags: [Products]
+ *     security:
+ *       - BearerAuth: [products:read]
  *     parameters:
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 10000
  *           default: 1
  *         description: Page number
  *       - in: query
@@ -25,14 +95,22 @@ const router = Router();
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
  *       - in: query
  *         name: category
  *         schema:
  *           type: string
  *         description: Filter by product category
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
  *     responses:
  *       200:
  *         description: Paginated list of products
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
@@ -82,34 +160,213 @@ const router = Router();
  *                       type: boolean
  *                     hasPrev:
  *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                     prevCursor:
+ *                       type: string
  *                 success:
  *                   type: boolean
  *                 message:
  *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/",
+  requireScope("products:read"),
+  (req: Request, res: Response) => {
+    const category =
+      typeof req.query["category"] === "string"
+        ? req.query["category"]
+        : undefined;
+
+    const { query, error } = parseCollectionQuery(req.query, collectionFields);
+    if (error) {
+      const response = DataGenerator.createErrorResponse(
+        error.code,
+        error.message,
+        error.details,
+      );
+      return res.status(400).json(response);
+    }
+
+    const repository = getDataStore().products;
+    const converter = new CurrencyConverter(req.currency);
+    const result = paginateCollection(repository.list(), query, (product) =>
+      converter.product(product),
+    );
+    if (result.error) {
+      const response = DataGenerator.createErrorResponse(
+        result.error.code,
+        result.error.message,
+        result.error.details,
+      );
+      return res.status(400).json(response);
+    }
+    setPaginationLinks(req, res, result, query);
+
+    const response = createCollectionResponse(result, query);
+
+    response.message = category
+      ? `Products in category '${category}' retrieved successfully`
+      : "Products retrieved successfully";
+
+    return res.json(withConversion(response, converter));
+  },
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Product:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         category:
+ *           type: string
+ *         brand:
+ *           type: string
+ *         price:
+ *           type: object
+ *           properties:
+ *             amount:
+ *               type: number
+ *             currency:
+ *               type: string
+ *             discountPercentage:
+ *               type: number
+ *             originalPrice:
+ *               type: number
+ *         images:
+ *           type: array
+ *           items:
+ *             type: string
+ *         specifications:
+ *           type: object
+ *           additionalProperties: true
+ *         inventory:
+ *           type: object
+ *           properties:
+ *             stock:
+ *               type: integer
+ *             reserved:
+ *               type: integer
+ *             available:
+ *               type: integer
+ *             lowStockThreshold:
+ *               type: integer
+ *         ratings:
+ *           type: object
+ *           properties:
+ *             average:
+ *               type: number
+ *             count:
+ *               type: integer
+ *             distribution:
+ *               type: object
+ *               additionalProperties:
+ *                 type: integer
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         seoData:
+ *           type: object
+ *           properties:
+ *             title:
+ *               type: string
+ *             description:
+ *               type: string
+ *             keywords:
+ *               type: array
+ *               items:
+ *                 type: string
  */
-router.get("/", (req: Request, res: Response) => {
-  const page = parseInt(req.query["page"] as string) || 1;
-  const limit = parseInt(req.query["limit"] as string) || 10;
-  const category = req.query["category"] as string;
 
-  const products = DataGenerator.generateArray(
-    () => DataGenerator.generateProduct(),
-    limit,
-  );
-  const total = 5000; // Mock total count
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   get:
+ *     summary: Get a product by id
+ *     tags: [Products]
+ *     security:
+ *       - BearerAuth: [products:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Product id
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     responses:
+ *       200:
+ *         description: The product
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/Product'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/UnsupportedCurrency'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:id",
+  requireScope("products:read"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const product = getDataStore().products.get(id);
 
-  const response = DataGenerator.createPaginatedResponse(
-    products,
-    page,
-    limit,
-    total,
-  );
+    if (!product) {
+      const response = DataGenerator.createErrorResponse(
+        "PRODUCT_NOT_FOUND",
+        `Product '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
 
-  response.message = category
-    ? `Products in category '${category}' retrieved successfully`
-    : "Products retrieved successfully";
+    const converter = new CurrencyConverter(req.currency);
+    const response = DataGenerator.createApiResponse(
+      converter.product(product),
+      true,
+      "Product retrieved successfully",
+    );
 
-  res.json(response);
-});
+    return res.json(withConversion(response, converter));
+  },
+);
 
 export default router;
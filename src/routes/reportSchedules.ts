@@ -0,0 +1,568 @@
+import { Router, Request, Response } from "express";
+import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import {
+  getReportScheduler,
+  ReportSchedule,
+  ReportScheduleInput,
+  validateScheduleInput,
+} from "../services/reportSchedules";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  setPaginationLinks,
+} from "../utils/collection";
+
+const router = Router();
+
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on
+ * `GET /api/reports/schedules`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    name: "string",
+    type: "string",
+    range: "string",
+    format: "string",
+    status: "string",
+    createdAt: "date",
+    nextRunAt: "date",
+    lastRunAt: "date",
+  },
+  selectable: [
+    "id",
+    "ownerId",
+    "name",
+    "cron",
+    "type",
+    "range",
+    "groupBy",
+    "format",
+    "currency",
+    "status",
+    "createdAt",
+    "updatedAt",
+    "nextRunAt",
+    "lastRunAt",
+    "lastReportId",
+    "lastRunStatus",
+    "lastError",
+    "runCount",
+  ],
+};
+
+/**
+ * Looks up a schedule of the requesting key's owner, responding with 404
+ * when there is none. Schedules of other owners are reported as missing.
+ */
+function findSchedule(req: Request, res: Response): ReportSchedule | undefined {
+  const scheduleId = req.params["scheduleId"] as string;
+  const schedule = getReportScheduler().get(scheduleId);
+
+  if (!schedule || schedule.ownerId !== req.apiKey?.ownerId) {
+    const response = DataGenerator.createErrorResponse(
+      "REPORT_SCHEDULE_NOT_FOUND",
+      `Report schedule '${scheduleId}' not found`,
+    );
+    res.status(404).json(response);
+    return undefined;
+  }
+  return schedule;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReportSchedule:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         ownerId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         cron:
+ *           type: string
+ *           example: 0 6 * * mon
+ *           description: Five-field cron expression, evaluated in UTC
+ *         type:
+ *           type: string
+ *           enum: [sales, users, products, orders]
+ *         range:
+ *           type: string
+ *           example: previous_7_days
+ *         groupBy:
+ *           type: string
+ *           enum: [day, week, month]
+ *         format:
+ *           type: string
+ *           enum: [json, csv, ndjson, xlsx]
+ *         currency:
+ *           type: string
+ *           example: EUR
+ *         status:
+ *           type: string
+ *           enum: [active, paused]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         nextRunAt:
+ *           type: string
+ *           format: date-time
+ *           description: Unset while paused
+ *         lastRunAt:
+ *           type: string
+ *           format: date-time
+ *         lastReportId:
+ *           type: string
+ *           format: uuid
+ *           description: Report job of the last run, see `/api/reports/{reportId}`
+ *         lastRunStatus:
+ *           type: string
+ *           enum: [queued, completed, failed, skipped]
+ *         lastError:
+ *           type: string
+ *         runCount:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/reports/schedules:
+ *   post:
+ *     summary: Schedule a recurring report
+ *     description: |
+ *       Generates the report whenever the cron expression (UTC) fires, over
+ *       the date range given by `range` at that time:
+ *
+ *       - `previous_<N>_days`: the N full days up to and including
+ *         yesterday, N from 1 to 366
+ *       - `previous_week`: Monday to Sunday of last week
+ *       - `previous_month`: the whole of last month
+ *       - `week_to_date`, `month_to_date`: from the start of the current
+ *         week or month up to and including today
+ *
+ *       Each run queues a report job; once it finishes the owner gets a
+ *       notification with a link to download the report, which is kept for
+ *       `REPORT_SCHEDULE_RETENTION_SECONDS` (7 days by default). Amounts
+ *       are converted to the currency requested when creating the schedule.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [cron, type, range]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               cron:
+ *                 type: string
+ *                 example: 0 6 * * mon
+ *                 description: |
+ *                   Minute, hour, day of month, month and day of week, or
+ *                   `@hourly`, `@daily`, `@weekly`, `@monthly`, `@yearly`
+ *               type:
+ *                 type: string
+ *                 enum: [sales, users, products, orders]
+ *               range:
+ *                 type: string
+ *                 example: previous_7_days
+ *               groupBy:
+ *                 type: string
+ *                 enum: [day, week, month]
+ *                 default: day
+ *               format:
+ *                 type: string
+ *                 enum: [json, csv, ndjson, xlsx]
+ *                 default: json
+ *     responses:
+ *       201:
+ *         description: The created schedule
+ *         headers:
+ *           Location:
+ *             description: URL of the schedule
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportSchedule'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: The owner has too many schedules (`REPORT_SCHEDULE_LIMIT_REACHED`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const errors = validateScheduleInput(req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Report schedule is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const input: ReportScheduleInput = {
+      ...(req.body as ReportScheduleInput),
+      ...(req.currency && { currency: req.currency }),
+    };
+    const schedule = getReportScheduler().create(input, req.apiKey!.ownerId);
+    if (!schedule) {
+      const response = DataGenerator.createErrorResponse(
+        "REPORT_SCHEDULE_LIMIT_REACHED",
+        "Too many report schedules, delete one before adding another",
+      );
+      return res.status(409).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      schedule,
+      true,
+      "Report schedule created",
+    );
+    return res
+      .status(201)
+      .location(`/api/reports/schedules/${schedule.id}`)
+      .json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/reports/schedules:
+ *   get:
+ *     summary: List report schedules
+ *     description: |
+ *       Lists the schedules of the API key's owner. Supports the filter,
+ *       `sort`, `fields` and pagination parameters of other collections,
+ *       e.g. `status=paused` or `sort=nextRunAt`.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10000
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
+ *     responses:
+ *       200:
+ *         description: Paginated list of schedules
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PaginatedResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReportSchedule'
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const { query, error } = parseCollectionQuery(req.query, collectionFields);
+    if (error) {
+      const response = DataGenerator.createErrorResponse(
+        error.code,
+        error.message,
+        error.details,
+      );
+      return res.status(400).json(response);
+    }
+
+    const schedules = getReportScheduler().list(req.apiKey!.ownerId);
+    const result = paginateCollection(schedules, query);
+    if (result.error) {
+      const response = DataGenerator.createErrorResponse(
+        result.error.code,
+        result.error.message,
+        result.error.details,
+      );
+      return res.status(400).json(response);
+    }
+    setPaginationLinks(req, res, result, query);
+
+    const response = createCollectionResponse(result, query);
+    response.message = "Report schedules retrieved successfully";
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/reports/schedules/{scheduleId}:
+ *   get:
+ *     summary: Get a report schedule
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The schedule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportSchedule'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *   delete:
+ *     summary: Delete a report schedule
+ *     description: Stops future runs. Reports it already generated stay downloadable until they expire.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The deleted schedule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportSchedule'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:scheduleId",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const schedule = findSchedule(req, res);
+    if (!schedule) {
+      return;
+    }
+
+    const response = DataGenerator.createApiResponse(
+      schedule,
+      true,
+      "Report schedule retrieved successfully",
+    );
+    return res.json(response);
+  },
+);
+
+router.delete(
+  "/:scheduleId",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const schedule = findSchedule(req, res);
+    if (!schedule) {
+      return;
+    }
+
+    getReportScheduler().delete(schedule.id);
+    const response = DataGenerator.createApiResponse(
+      schedule,
+      true,
+      "Report schedule deleted",
+    );
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/reports/schedules/{scheduleId}/pause:
+ *   post:
+ *     summary: Pause a report schedule
+ *     description: Stops runs until the schedule is resumed. Pausing a paused schedule has no effect.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The paused schedule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportSchedule'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/:scheduleId/pause",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const schedule = findSchedule(req, res);
+    if (!schedule) {
+      return;
+    }
+
+    const response = DataGenerator.createApiResponse(
+      getReportScheduler().pause(schedule),
+      true,
+      "Report schedule paused",
+    );
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/reports/schedules/{scheduleId}/resume:
+ *   post:
+ *     summary: Resume a paused report schedule
+ *     description: Runs missed while paused are skipped; the schedule continues from its next run.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The resumed schedule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportSchedule'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.post(
+  "/:scheduleId/resume",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const schedule = findSchedule(req, res);
+    if (!schedule) {
+      return;
+    }
+
+    const response = DataGenerator.createApiResponse(
+      getReportScheduler().resume(schedule),
+      true,
+      "Report schedule resumed",
+    );
+    return res.json(response);
+  },
+);
+
+export default router;
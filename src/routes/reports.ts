@@ -1,45 +1,220 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
-import { v4 as uuidv4 } from "uuid";
+import { requireScope } from "../middleware/auth";
+import {
+  GeneratedReport,
+  generateReport,
+  REPORT_FORMATS,
+  REPORT_TYPES,
+  ReportFormat,
+  ReportParams,
+  ReportType,
+  validateReportInput,
+} from "../services/reports";
+import {
+  REPORT_MEDIA_TYPES,
+  reportFilename,
+  toCsv,
+  toNdjson,
+  toXlsx,
+} from "../services/reportFormats";
+import { getReportJobQueue, ReportJob } from "../services/reportJobs";
 
 const router = Router();
 
+/**
+ * Picks the report format from the `format` parameter or, without one, the
+ * `Accept` header, preferring `fallback` when several formats are
+ * acceptable. Responds with 400 for an unknown `format` and 406 when no
+ * format is acceptable.
+ */
+function selectFormat(
+  req: Request,
+  res: Response,
+  fallback: ReportFormat,
+): ReportFormat | undefined {
+  res.vary("Accept");
+  const requested = req.query["format"];
+  if (requested !== undefined) {
+    if (!REPORT_FORMATS.includes(requested as ReportFormat)) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_FORMAT",
+        `Unknown report format '${String(requested)}'`,
+        { allowed: REPORT_FORMATS },
+      );
+      res.status(400).json(response);
+      return undefined;
+    }
+    return requested as ReportFormat;
+  }
+
+  const formats = [
+    fallback,
+    ...REPORT_FORMATS.filter((format) => format !== fallback),
+  ];
+  const mediaTypes = formats.map(
+    (format) => REPORT_MEDIA_TYPES[format].mediaType,
+  );
+  const accepted = req.accepts(mediaTypes);
+  if (!accepted) {
+    const response = DataGenerator.createErrorResponse(
+      "NOT_ACCEPTABLE",
+      "None of the report formats is acceptable",
+      { available: mediaTypes },
+    );
+    res.status(406).json(response);
+    return undefined;
+  }
+  return formats[mediaTypes.indexOf(accepted)];
+}
+
+/**
+ * Sends a report in `format`. Formats other than JSON are sent as a file
+ * download, and so is JSON unless `envelope` asks for the usual API
+ * response.
+ */
+function sendReport(
+  res: Response,
+  { report, conversion }: GeneratedReport,
+  format: ReportFormat,
+  envelope: boolean,
+) {
+  if (format === "json" && envelope) {
+    const response = DataGenerator.createApiResponse(
+      report,
+      true,
+      `${report.type.charAt(0).toUpperCase() + report.type.slice(1)} report generated successfully`,
+    );
+    if (conversion && response.metadata) {
+      response.metadata.conversion = conversion;
+    }
+    return res.json(response);
+  }
+
+  res
+    .attachment(reportFilename(report, format))
+    .type(REPORT_MEDIA_TYPES[format].mediaType);
+  switch (format) {
+    case "json":
+      return res.json(report);
+    case "csv":
+      return res.send(toCsv(report));
+    case "ndjson":
+      return toNdjson(report).pipe(res);
+    case "xlsx":
+      return res.send(toXlsx(report));
+  }
+}
+
+/**
+ * Status of a report job as returned to clients: the job without its
+ * parameters and output, with links to poll and download it.
+ */
+function describeJob(job: ReportJob) {
+  const queuePosition = getReportJobQueue().position(job.id);
+  return {
+    reportId: job.id,
+    type: job.params.type,
+    format: job.params.format,
+    status: job.status,
+    progress: job.progress,
+    ...(queuePosition !== undefined && { queuePosition }),
+    createdAt: job.createdAt,
+    ...(job.startedAt && { startedAt: job.startedAt }),
+    ...(job.completedAt && { completedAt: job.completedAt }),
+    ...(job.expiresAt && { expiresAt: job.expiresAt }),
+    ...(job.error && { error: job.error }),
+    ...(job.scheduleId && { scheduleId: job.scheduleId }),
+    statusUrl: `/api/reports/${job.id}`,
+    downloadUrl:
+      job.status === "completed" ? `/api/reports/${job.id}/download` : null,
+  };
+}
+
+/**
+ * Finds a report job of the caller's key owner. Jobs of other owners are
+ * reported as missing, like expired ones.
+ */
+function findJob(req: Request, res: Response): ReportJob | undefined {
+  const reportId = req.params["reportId"] as string;
+  const job = getReportJobQueue().get(reportId);
+
+  if (!job || job.ownerId !== req.apiKey?.ownerId) {
+    const response = DataGenerator.createErrorResponse(
+      "REPORT_NOT_FOUND",
+      `Report '${reportId}' not found or expired`,
+    );
+    res.status(404).json(response);
+    return undefined;
+  }
+  return job;
+}
+
 /**
  * @swagger
  * /api/reports:
  *   get:
  *     summary: Generate and retrieve various types of reports
+ *     description: |
+ *       Computes a report from the stored orders, users and products over
+ *       `startDate`–`endDate` (inclusive, UTC):
+ *
+ *       - `sales`: orders, items sold, revenue and average order value per
+ *         period, excluding cancelled and refunded orders;
+ *       - `users`: sign-ups per period and the running user count;
+ *       - `orders`: orders per period by current status;
+ *       - `products`: units sold and revenue per product, best-selling
+ *         first.
+ *
+ *       Time-series reports have one row per `groupBy` period, including
+ *       periods without activity, with `periodStart` and `periodEnd`.
  *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
  *     parameters:
  *       - in: query
  *         name: type
  *         required: true
  *         schema:
  *           type: string
- *           enum: [sales, users, products, analytics, orders]
+ *           enum: [sales, users, products, orders]
  *         description: Type of report to generate
  *       - in: query
  *         name: startDate
  *         schema:
  *           type: string
  *           format: date
- *         description: Start date for the report (YYYY-MM-DD)
+ *         description: First day of the report (YYYY-MM-DD); defaults to 29 days before `endDate`
  *       - in: query
  *         name: endDate
  *         schema:
  *           type: string
  *           format: date
- *         description: End date for the report (YYYY-MM-DD)
+ *         description: Last day of the report (YYYY-MM-DD); defaults to today
  *       - in: query
- *         name: format
+ *         name: groupBy
  *         schema:
  *           type: string
- *           enum: [json, csv, pdf]
- *           default: json
- *         description: Report output format
+ *           enum: [day, week, month]
+ *           default: day
+ *         description: |
+ *           Period of each row of time-series reports. Weeks start on
+ *           Monday; the first and last period are cut off at the range.
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
  *     responses:
  *       200:
- *         description: Generated report data
+ *         description: |
+ *           The report. JSON is returned in the usual response envelope;
+ *           CSV, NDJSON and XLSX are returned as a file download of the
+ *           report rows, with nested fields flattened to dotted columns.
+ *         headers:
+ *           Content-Disposition:
+ *             description: Set for CSV, NDJSON and XLSX
+ *             schema:
+ *               type: string
+ *               example: attachment; filename="sales-report-3f6c2a9e.csv"
  *         content:
  *           application/json:
  *             schema:
@@ -53,6 +228,9 @@ const router = Router();
  *                       format: uuid
  *                     type:
  *                       type: string
+ *                     currency:
+ *                       type: string
+ *                       description: Currency of revenue figures
  *                     period:
  *                       type: object
  *                       properties:
@@ -62,6 +240,8 @@ const router = Router();
  *                         endDate:
  *                           type: string
  *                           format: date
+ *                         groupBy:
+ *                           type: string
  *                     format:
  *                       type: string
  *                     generatedAt:
@@ -81,8 +261,24 @@ const router = Router();
  *                   example: true
  *                 message:
  *                   type: string
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *             example: "date,revenue,orders,averageOrderValue\r\n2024-01-01,5120,41,124.88\r\n"
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *             example: '{"date":"2024-01-01","revenue":5120,"orders":41}'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       400:
- *         description: Bad request - missing or invalid parameters
+ *         description: |
+ *           Missing or unknown report type (`INVALID_REPORT_TYPE`), invalid
+ *           dates, `startDate` after `endDate` or more than 1000 periods
+ *           (`INVALID_REPORT_PARAMETERS`), or unknown `format`
+ *           (`INVALID_FORMAT`)
  *         content:
  *           application/json:
  *             schema:
@@ -96,145 +292,337 @@ const router = Router();
  *                   example: false
  *                 message:
  *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       406:
+ *         $ref: '#/components/responses/NotAcceptable'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const reportType = req.query["type"] as string;
-  const startDate = req.query["startDate"] as string;
-  const endDate = req.query["endDate"] as string;
-  const format = (req.query["format"] as string) || "json";
+router.get(
+  "/",
+  requireScope("reports:generate"),
+  (req: Request, res: Response, next: NextFunction) => {
+    const reportType = req.query["type"];
 
-  if (!reportType) {
-    const response = DataGenerator.createApiResponse(
-      null,
-      false,
-      "Report type is required",
-    );
-    return res.status(400).json(response);
-  }
+    if (!reportType) {
+      const response = DataGenerator.createApiResponse(
+        null,
+        false,
+        "Report type is required",
+      );
+      res.status(400).json(response);
+      return;
+    }
 
-  // Generate mock report data based on type
-  let reportData;
-  let summary;
-
-  switch (reportType) {
-    case "sales":
-      reportData = DataGenerator.generateArray(
-        () => ({
-          date: new Date(Date.now() - Math.random() * 86400000 * 30)
-            .toISOString()
-            .split("T")[0],
-          revenue: Math.floor(Math.random() * 10000) + 1000,
-          orders: Math.floor(Math.random() * 100) + 10,
-          averageOrderValue: Math.floor(Math.random() * 200) + 50,
-        }),
-        30,
+    if (!REPORT_TYPES.includes(reportType as ReportType)) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_REPORT_TYPE",
+        `Unknown report type '${String(reportType)}'`,
+        { allowed: REPORT_TYPES },
       );
-      summary = {
-        totalRevenue: reportData.reduce(
-          (sum: number, item: any) => sum + item.revenue,
-          0,
-        ),
-        totalOrders: reportData.reduce(
-          (sum: number, item: any) => sum + item.orders,
-          0,
-        ),
-        averageDaily:
-          reportData.reduce((sum: number, item: any) => sum + item.revenue, 0) /
-          reportData.length,
-      };
-      break;
-    case "users":
-      reportData = DataGenerator.generateArray(
-        () => ({
-          date: new Date(Date.now() - Math.random() * 86400000 * 30)
-            .toISOString()
-            .split("T")[0],
-          newUsers: Math.floor(Math.random() * 50) + 5,
-          activeUsers: Math.floor(Math.random() * 200) + 50,
-          churnRate: Math.random() * 0.1,
-        }),
-        30,
+      res.status(400).json(response);
+      return;
+    }
+
+    const input: Record<string, unknown> = {};
+    for (const field of ["type", "startDate", "endDate", "groupBy"]) {
+      if (req.query[field] !== undefined) {
+        input[field] = req.query[field];
+      }
+    }
+    const errors = validateReportInput(input);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_REPORT_PARAMETERS",
+        "Invalid report parameters",
+        errors,
       );
-      summary = {
-        totalNewUsers: reportData.reduce(
-          (sum: number, item: any) => sum + item.newUsers,
-          0,
-        ),
-        averageActiveUsers:
-          reportData.reduce(
-            (sum: number, item: any) => sum + item.activeUsers,
-            0,
-          ) / reportData.length,
-        averageChurnRate:
-          reportData.reduce(
-            (sum: number, item: any) => sum + item.churnRate,
-            0,
-          ) / reportData.length,
-      };
-      break;
-    case "products":
-      reportData = DataGenerator.generateArray(
-        () => ({
-          productId: uuidv4(),
-          name: `Product ${Math.floor(Math.random() * 1000)}`,
-          sales: Math.floor(Math.random() * 500) + 10,
-          revenue: Math.floor(Math.random() * 5000) + 100,
-          views: Math.floor(Math.random() * 2000) + 50,
-        }),
-        20,
+      res.status(400).json(response);
+      return;
+    }
+
+    const format = selectFormat(req, res, "json");
+    if (!format) {
+      return;
+    }
+
+    generateReport({
+      ...(input as Omit<ReportParams, "format">),
+      format,
+      ...(req.currency && { currency: req.currency }),
+    })
+      .then((generated) => sendReport(res, generated, format, true))
+      .catch(next);
+  },
+);
+
+/**
+ * @swagger
+ * /api/reports:
+ *   post:
+ *     summary: Queue a report for generation
+ *     description: |
+ *       Queues a report and returns its job right away with status
+ *       `queued`. Poll `statusUrl` until the status is `completed` (or
+ *       `failed`), then fetch the report from `downloadUrl`. A few jobs run
+ *       at a time (`REPORT_JOB_CONCURRENCY`); the others wait in order.
+ *       Finished jobs and their output are kept for `REPORT_JOB_TTL_SECONDS`
+ *       (one hour by default), until `expiresAt`. Jobs are only visible to
+ *       keys of the owner that queued them.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
+ *       - $ref: '#/components/parameters/AcceptCurrency'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [sales, users, products, orders]
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               groupBy:
+ *                 type: string
+ *                 enum: [day, week, month]
+ *                 default: day
+ *               format:
+ *                 type: string
+ *                 enum: [json, csv, ndjson, xlsx]
+ *                 default: json
+ *                 description: Default format of the download
+ *     responses:
+ *       202:
+ *         description: The queued job
+ *         headers:
+ *           Location:
+ *             description: URL of the job status
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportJob'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       503:
+ *         description: Too many jobs are waiting (`REPORT_QUEUE_FULL`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const errors = validateReportInput(req.body);
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Report request is invalid",
+        errors,
       );
-      summary = {
-        totalProducts: reportData.length,
-        totalSales: reportData.reduce(
-          (sum: number, item: any) => sum + item.sales,
-          0,
-        ),
-        totalRevenue: reportData.reduce(
-          (sum: number, item: any) => sum + item.revenue,
-          0,
-        ),
-        topProduct: reportData[0]?.name,
-      };
-      break;
-    default:
-      reportData = DataGenerator.generateArray(
-        () => ({
-          metric: `Metric ${Math.floor(Math.random() * 100)}`,
-          value: Math.floor(Math.random() * 1000),
-          change: (Math.random() - 0.5) * 100,
-        }),
-        10,
+      return res.status(422).json(response);
+    }
+
+    const body = req.body as Partial<ReportParams>;
+    const params: ReportParams = {
+      type: body.type!,
+      ...(body.startDate && { startDate: body.startDate }),
+      ...(body.endDate && { endDate: body.endDate }),
+      ...(body.groupBy && { groupBy: body.groupBy }),
+      format: body.format || "json",
+      ...(req.currency && { currency: req.currency }),
+    };
+
+    const job = getReportJobQueue().enqueue(params, req.apiKey!.ownerId);
+    if (!job) {
+      const response = DataGenerator.createErrorResponse(
+        "REPORT_QUEUE_FULL",
+        "Too many reports are waiting to be generated, try again later",
       );
-      summary = {
-        totalMetrics: reportData.length,
-        averageValue:
-          reportData.reduce((sum: number, item: any) => sum + item.value, 0) /
-          reportData.length,
-      };
-  }
+      return res.status(503).json(response);
+    }
 
-  const report = {
-    reportId: uuidv4(),
-    type: reportType,
-    period: {
-      startDate:
-        startDate ||
-        new Date(Date.now() - 86400000 * 30).toISOString().split("T")[0],
-      endDate: endDate || new Date().toISOString().split("T")[0],
-    },
-    format,
-    generatedAt: new Date().toISOString(),
-    summary,
-    data: reportData,
-  };
+    const response = DataGenerator.createApiResponse(
+      describeJob(job),
+      true,
+      "Report queued",
+    );
+    return res.status(202).location(`/api/reports/${job.id}`).json(response);
+  },
+);
 
-  const response = DataGenerator.createApiResponse(
-    report,
-    true,
-    `${reportType.charAt(0).toUpperCase() + reportType.slice(1)} report generated successfully`,
-  );
+/**
+ * @swagger
+ * /api/reports/{reportId}:
+ *   get:
+ *     summary: Get the status of a queued report
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The report job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/ReportJob'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:reportId",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const job = findJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    const response = DataGenerator.createApiResponse(
+      describeJob(job),
+      true,
+      `Report is ${job.status}`,
+    );
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/reports/{reportId}/download:
+ *   get:
+ *     summary: Download a generated report
+ *     description: |
+ *       Returns the finished report as a file, in the format it was queued
+ *       with unless `format` or `Accept` asks for another one. Amounts are
+ *       in the currency requested when the report was queued.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: [reports:generate]
+ *     parameters:
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - $ref: '#/components/parameters/ReportFormat'
+ *     responses:
+ *       200:
+ *         description: The report
+ *         headers:
+ *           Content-Disposition:
+ *             schema:
+ *               type: string
+ *               example: attachment; filename="sales-report-3f6c2a9e.json"
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *             example: "date,revenue,orders,averageOrderValue\r\n2024-01-01,5120,41,124.88\r\n"
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *             example: '{"date":"2024-01-01","revenue":5120,"orders":41}'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       406:
+ *         $ref: '#/components/responses/NotAcceptable'
+ *       409:
+ *         description: |
+ *           The report is still queued or running, or failed
+ *           (`REPORT_NOT_READY`); `details` has the job status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:reportId/download",
+  requireScope("reports:generate"),
+  (req: Request, res: Response) => {
+    const job = findJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    if (job.status !== "completed" || !job.result) {
+      const response = DataGenerator.createErrorResponse(
+        "REPORT_NOT_READY",
+        job.status === "failed"
+          ? "Report generation failed"
+          : `Report is ${job.status}`,
+        {
+          status: job.status,
+          progress: job.progress,
+          ...(job.error && { error: job.error }),
+        },
+      );
+      return res.status(409).json(response);
+    }
 
-  return res.json(response);
-});
+    const format = selectFormat(req, res, job.params.format);
+    if (!format) {
+      return;
+    }
+    return sendReport(res, job.result, format, false);
+  },
+);
 
 export default router;
@@ -1,15 +1,92 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
-import { v4 as uuidv4 } from "uuid";
+import { hasScope, requireScope } from "../middleware/auth";
+import {
+  search,
+  SEARCH_READ_SCOPES,
+  SEARCH_TYPES,
+  SearchType,
+  suggest,
+  SUGGESTION_GROUPS,
+  SUGGESTION_READ_SCOPES,
+  SuggestionGroup,
+} from "../services/search";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  parseInteger,
+  setPaginationLinks,
+} from "../utils/collection";
+import { matchesFilters } from "../utils/filters";
 
 const router = Router();
 
+const DEFAULT_SUGGESTION_LIMIT = 5;
+const MAX_SUGGESTION_LIMIT = 20;
+
+/**
+ * Responds like `requireScope` when a key asks for a type it cannot read.
+ */
+function insufficientScope(res: Response, scope: string): Response {
+  const response = DataGenerator.createErrorResponse(
+    "INSUFFICIENT_SCOPE",
+    `API key is missing required scope: ${scope}`,
+    { required: ["search:read", scope], missing: [scope] },
+  );
+  return res.status(403).json(response);
+}
+
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on the results
+ * of `GET /api/search`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    type: "string",
+    title: "string",
+    relevanceScore: "number",
+    "metadata.category": "string",
+    "metadata.tags": "array",
+    "metadata.lastModified": "date",
+  },
+  selectable: [
+    "id",
+    "type",
+    "title",
+    "excerpt",
+    "relevanceScore",
+    "url",
+    "metadata",
+  ],
+};
+
 /**
  * @swagger
  * /api/search:
  *   get:
  *     summary: Search across different content types
+ *     description: |
+ *       Full-text search over user names, usernames and emails; product
+ *       names, brands, tags and descriptions; article titles, tags, excerpts
+ *       and content; and order numbers. Results are ranked by BM25
+ *       `relevanceScore`, best match first, unless `sort` is given. The index
+ *       follows creates, updates and deletes as they happen.
+ *
+ *       Query terms missing from the index are matched against index terms
+ *       one edit away (two for terms of 8 or more characters), and the
+ *       corrected query is returned as `didYouMean`. Each `excerpt` is HTML
+ *       cut around the first match, with matching words wrapped in `<mark>`.
+ *       `facets` counts the results by type and by a few fields per type.
+ *
+ *       Each type is only searched when the key can also read it: users
+ *       need `users:read`, products `products:read`, articles
+ *       `articles:read` and orders `orders:read`. Other types are left out
+ *       of the results, facets and corrections.
  *     tags: [Search]
+ *     security:
+ *       - BearerAuth: [search:read]
  *     parameters:
  *       - in: query
  *         name: q
@@ -29,6 +106,7 @@ const router = Router();
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 10000
  *           default: 1
  *         description: Page number
  *       - in: query
@@ -39,9 +117,15 @@ const router = Router();
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
  *     responses:
  *       200:
  *         description: Search results
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
@@ -70,6 +154,7 @@ const router = Router();
  *                             type: string
  *                           excerpt:
  *                             type: string
+ *                             example: "…a sturdy <mark>granite</mark> frame…"
  *                           relevanceScore:
  *                             type: number
  *                             format: float
@@ -77,6 +162,30 @@ const router = Router();
  *                             type: string
  *                           metadata:
  *                             type: object
+ *                     facets:
+ *                       type: object
+ *                       description: |
+ *                         Most common values per facet: `type`, `users.role`,
+ *                         `products.category`, `products.brand`,
+ *                         `articles.category` and `orders.status`. The
+ *                         `type` facet ignores the `type` parameter.
+ *                       additionalProperties:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             value:
+ *                               type: string
+ *                             count:
+ *                               type: integer
+ *                       example:
+ *                         type:
+ *                           - value: products
+ *                             count: 42
+ *                     didYouMean:
+ *                       type: string
+ *                       description: The query with misspelled terms corrected
+ *                       example: granite bike
  *                 pagination:
  *                   type: object
  *                   properties:
@@ -92,81 +201,118 @@ const router = Router();
  *                       type: boolean
  *                     hasPrev:
  *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                     prevCursor:
+ *                       type: string
  *                 success:
  *                   type: boolean
  *                 message:
  *                   type: string
  *       400:
- *         description: Bad request - missing search query
+ *         description: |
+ *           `q` missing, empty or repeated (`VALIDATION_FAILED`), an unknown
+ *           `type` (`INVALID_SEARCH_TYPE`), or invalid filters, sorting or
+ *           pagination
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 data:
- *                   type: object
- *                   nullable: true
- *                 success:
- *                   type: boolean
- *                   example: false
- *                 message:
- *                   type: string
- *                   example: "Search query is required"
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing `search:read`, or the read scope of the requested `type`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const query = req.query["q"] as string;
+router.get("/", requireScope("search:read"), (req: Request, res: Response) => {
+  const query = req.query["q"];
   const type = (req.query["type"] as string) || "all";
-  const page = parseInt(req.query["page"] as string) || 1;
-  const limit = parseInt(req.query["limit"] as string) || 10;
 
-  if (!query) {
-    const response = DataGenerator.createApiResponse(
-      null,
-      false,
+  if (typeof query !== "string" || !query.trim()) {
+    const response = DataGenerator.createErrorResponse(
+      "VALIDATION_FAILED",
       "Search query is required",
+      [
+        {
+          field: "q",
+          message:
+            query === undefined || typeof query === "string"
+              ? "is required"
+              : "must be a single string",
+        },
+      ],
     );
     return res.status(400).json(response);
   }
 
-  // Generate mock search results
-  const searchResults = DataGenerator.generateArray(
-    () => ({
-      id: uuidv4(),
-      type:
-        type === "all"
-          ? ["users", "products", "articles", "orders"][
-              Math.floor(Math.random() * 4)
-            ]
-          : type,
-      title: `Search result for "${query}"`,
-      excerpt: `This is a mock search result excerpt for the query "${query}". It contains relevant information about the search term.`,
-      relevanceScore: Math.random(),
-      url: `/api/${type}/${uuidv4()}`,
-      metadata: {
-        category: "general",
-        tags: ["search", "result"],
-        lastModified: new Date(
-          Date.now() - Math.random() * 86400000 * 30,
-        ).toISOString(),
-      },
-    }),
-    limit,
+  if (type !== "all" && !SEARCH_TYPES.includes(type as SearchType)) {
+    const response = DataGenerator.createErrorResponse(
+      "INVALID_SEARCH_TYPE",
+      `Unknown search type '${type}'`,
+      { allowed: ["all", ...SEARCH_TYPES] },
+    );
+    return res.status(400).json(response);
+  }
+
+  const granted = req.apiKey?.scopes || [];
+  if (
+    type !== "all" &&
+    !hasScope(granted, SEARCH_READ_SCOPES[type as SearchType])
+  ) {
+    return insufficientScope(res, SEARCH_READ_SCOPES[type as SearchType]);
+  }
+
+  // `q` and `type` are search parameters, not filters on the results
+  const { query: collectionQuery, error } = parseCollectionQuery(
+    req.query,
+    collectionFields,
+    ["q", "type"],
   );
+  if (error) {
+    const response = DataGenerator.createErrorResponse(
+      error.code,
+      error.message,
+      error.details,
+    );
+    return res.status(400).json(response);
+  }
 
-  const total = Math.floor(Math.random() * 1000) + 100;
-  const response = DataGenerator.createPaginatedResponse(
-    searchResults,
-    page,
-    limit,
-    total,
+  const outcome = search(query, {
+    ...(type !== "all" && { type: type as SearchType }),
+    types: SEARCH_TYPES.filter((searchType) =>
+      hasScope(granted, SEARCH_READ_SCOPES[searchType]),
+    ),
+    filter: (result) => matchesFilters(result, collectionQuery.filters),
+  });
+  // Only the returned page is highlighted
+  const result = paginateCollection(
+    outcome.results,
+    collectionQuery,
+    outcome.highlight,
   );
+  if (result.error) {
+    const response = DataGenerator.createErrorResponse(
+      result.error.code,
+      result.error.message,
+      result.error.details,
+    );
+    return res.status(400).json(response);
+  }
+  setPaginationLinks(req, res, result, collectionQuery);
+
+  const response = createCollectionResponse(result, collectionQuery);
 
   // Add search metadata to the response
   (response as any).data = {
     query,
     type,
-    totalResults: total,
-    results: searchResults,
+    totalResults: result.total,
+    results: result.data,
+    facets: outcome.facets,
+    ...(outcome.didYouMean && { didYouMean: outcome.didYouMean }),
   };
 
   response.message = `Search completed for "${query}" in ${type} content`;
@@ -174,4 +320,191 @@ router.get("/", (req: Request, res: Response) => {
   return res.json(response);
 });
 
+/**
+ * @swagger
+ * /api/search/suggest:
+ *   get:
+ *     summary: Autocomplete search queries
+ *     description: |
+ *       Prefix completions for search-as-you-type, over product names,
+ *       article titles, article tags and usernames, grouped by type. Any
+ *       word of a name, title or tag can match, so `gran` completes
+ *       "Awesome Granite Bike"; completions starting with the prefix come
+ *       first. Completions come from the same data as `GET /api/search` and
+ *       follow its changes. Lookups use a sorted in-memory index and are
+ *       meant to be called on every keystroke.
+ *
+ *       Groups the key cannot read are left out: products need
+ *       `products:read`, articles and tags `articles:read`, and users
+ *       `users:read`.
+ *     tags: [Search]
+ *     security:
+ *       - BearerAuth: [search:read]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Prefix typed so far
+ *         example: gran
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [all, products, articles, tags, users]
+ *           default: all
+ *         description: Group to complete
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 5
+ *         description: Maximum number of completions per group
+ *     responses:
+ *       200:
+ *         description: Completions per group, best first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     query:
+ *                       type: string
+ *                     suggestions:
+ *                       type: object
+ *                       description: One list per requested group
+ *                       additionalProperties:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             text:
+ *                               type: string
+ *                             count:
+ *                               type: integer
+ *                               description: Number of entities with this text
+ *                             id:
+ *                               type: string
+ *                               description: The entity, when `count` is 1
+ *                       example:
+ *                         products:
+ *                           - text: Awesome Granite Bike
+ *                             count: 1
+ *                             id: 3f6c2a9e-8d1b-4c2f-9a7e-5b0d4e1f2a3c
+ *                         tags:
+ *                           - text: granite
+ *                             count: 4
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: |
+ *           `q` missing, empty or repeated (`VALIDATION_FAILED`), an unknown
+ *           `type` (`INVALID_SEARCH_TYPE`), or an invalid `limit`
+ *           (`INVALID_PAGINATION`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing `search:read`, or the read scope of the requested `type`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/suggest",
+  requireScope("search:read"),
+  (req: Request, res: Response) => {
+    const query = req.query["q"];
+    const type = (req.query["type"] as string) || "all";
+
+    if (typeof query !== "string" || !query) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "Search query is required",
+        [
+          {
+            field: "q",
+            message:
+              query === undefined || typeof query === "string"
+                ? "is required"
+                : "must be a single string",
+          },
+        ],
+      );
+      return res.status(400).json(response);
+    }
+
+    if (
+      type !== "all" &&
+      !SUGGESTION_GROUPS.includes(type as SuggestionGroup)
+    ) {
+      const response = DataGenerator.createErrorResponse(
+        "INVALID_SEARCH_TYPE",
+        `Unknown suggestion type '${type}'`,
+        { allowed: ["all", ...SUGGESTION_GROUPS] },
+      );
+      return res.status(400).json(response);
+    }
+
+    const granted = req.apiKey?.scopes || [];
+    if (
+      type !== "all" &&
+      !hasScope(granted, SUGGESTION_READ_SCOPES[type as SuggestionGroup])
+    ) {
+      return insufficientScope(
+        res,
+        SUGGESTION_READ_SCOPES[type as SuggestionGroup],
+      );
+    }
+
+    let limit = DEFAULT_SUGGESTION_LIMIT;
+    if (req.query["limit"] !== undefined) {
+      const value = parseInteger(
+        req.query["limit"],
+        "limit",
+        1,
+        MAX_SUGGESTION_LIMIT,
+      );
+      if (typeof value !== "number") {
+        const response = DataGenerator.createErrorResponse(
+          "INVALID_PAGINATION",
+          "Invalid pagination parameters",
+          [value],
+        );
+        return res.status(400).json(response);
+      }
+      limit = value;
+    }
+
+    const suggestions = suggest(
+      query,
+      limit,
+      type === "all"
+        ? SUGGESTION_GROUPS.filter((group) =>
+            hasScope(granted, SUGGESTION_READ_SCOPES[group]),
+          )
+        : [type as SuggestionGroup],
+    );
+
+    const response = DataGenerator.createApiResponse(
+      { query, suggestions },
+      true,
+      `Suggestions for "${query}"`,
+    );
+    return res.json(response);
+  },
+);
+
 export default router;
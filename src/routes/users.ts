@@ -1,20 +1,97 @@
 import { Router, Request, Response } from "express";
 import { DataGenerator } from "../utils/dataGenerator";
+import { requireScope } from "../middleware/auth";
+import { getDataStore } from "../services/dataStore";
+import {
+  CollectionFields,
+  createCollectionResponse,
+  paginateCollection,
+  parseCollectionQuery,
+  setPaginationLinks,
+} from "../utils/collection";
+import {
+  UserInput,
+  createUser,
+  deactivateUser,
+  patchUser,
+  replaceUser,
+  validateUserInput,
+} from "../services/users";
 
 const router = Router();
 
+/**
+ * Fields accepted by the filter, `sort` and `fields` parameters on
+ * `GET /api/users`.
+ */
+const collectionFields: CollectionFields = {
+  filterable: {
+    username: "string",
+    email: "string",
+    firstName: "string",
+    lastName: "string",
+    role: "string",
+    isActive: "boolean",
+    createdAt: "date",
+    updatedAt: "date",
+    "profile.location": "string",
+    "preferences.theme": "string",
+    "preferences.language": "string",
+    "stats.loginCount": "number",
+    "stats.postsCount": "number",
+    "stats.followersCount": "number",
+    "stats.lastLoginAt": "date",
+  },
+  selectable: [
+    "id",
+    "username",
+    "email",
+    "firstName",
+    "lastName",
+    "avatar",
+    "createdAt",
+    "updatedAt",
+    "isActive",
+    "role",
+    "profile",
+    "profile.bio",
+    "profile.location",
+    "profile.website",
+    "profile.socialLinks",
+    "preferences",
+    "preferences.theme",
+    "preferences.notifications",
+    "preferences.language",
+    "stats",
+    "stats.loginCount",
+    "stats.lastLoginAt",
+    "stats.postsCount",
+    "stats.followersCount",
+    "stats.followingCount",
+  ],
+};
+
 /**
  * @swagger
  * /api/users:
  *   get:
  *     summary: Get paginated list of users
+ *     description: |
+ *       Any field listed in the README filter table can be used as a filter:
+ *       `field=value` for equality, or `field[op]=value` with an operator
+ *       such as `gte`, `lt`, `in` or `contains` (for example
+ *       `createdAt[gte]=2024-01-01`). Unknown fields or operators are
+ *       rejected with 400.
  *     tags: [Users]
+ *     security:
+ *       - BearerAuth: [users:read]
  *     parameters:
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 10000
  *           default: 1
  *         description: Page number
  *       - in: query
@@ -25,9 +102,15 @@ const router = Router();
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
+ *       - $ref: '#/components/parameters/Sort'
+ *       - $ref: '#/components/parameters/Fields'
+ *       - $ref: '#/components/parameters/Cursor'
  *     responses:
  *       200:
  *         description: Paginated list of users
+ *         headers:
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
@@ -68,31 +151,547 @@ const router = Router();
  *                       type: boolean
  *                     hasPrev:
  *                       type: boolean
+ *                     nextCursor:
+ *                       type: string
+ *                     prevCursor:
+ *                       type: string
  *                 success:
  *                   type: boolean
  *                 message:
  *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/InvalidQuery'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-router.get("/", (req: Request, res: Response) => {
-  const page = parseInt(req.query["page"] as string) || 1;
-  const limit = parseInt(req.query["limit"] as string) || 10;
+router.get("/", requireScope("users:read"), (req: Request, res: Response) => {
+  const { query, error } = parseCollectionQuery(req.query, collectionFields);
+  if (error) {
+    const response = DataGenerator.createErrorResponse(
+      error.code,
+      error.message,
+      error.details,
+    );
+    return res.status(400).json(response);
+  }
 
-  const users = DataGenerator.generateArray(
-    () => DataGenerator.generateUser(),
-    limit,
-  );
-  const total = 1000; // Mock total count
+  const repository = getDataStore().users;
+  const result = paginateCollection(repository.list(), query);
+  if (result.error) {
+    const response = DataGenerator.createErrorResponse(
+      result.error.code,
+      result.error.message,
+      result.error.details,
+    );
+    return res.status(400).json(response);
+  }
+  setPaginationLinks(req, res, result, query);
 
-  const response = DataGenerator.createPaginatedResponse(
-    users,
-    page,
-    limit,
-    total,
-  );
+  const response = createCollectionResponse(result, query);
 
   response.message = "Users retrieved successfully";
 
-  res.json(response);
+  return res.json(response);
 });
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         username:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         avatar:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *         role:
+ *           type: string
+ *           enum: [admin, user, moderator]
+ *         profile:
+ *           type: object
+ *           properties:
+ *             bio:
+ *               type: string
+ *             location:
+ *               type: string
+ *             website:
+ *               type: string
+ *             socialLinks:
+ *               type: object
+ *               properties:
+ *                 twitter:
+ *                   type: string
+ *                 linkedin:
+ *                   type: string
+ *                 github:
+ *                   type: string
+ *         preferences:
+ *           type: object
+ *           properties:
+ *             theme:
+ *               type: string
+ *               enum: [light, dark, auto]
+ *             notifications:
+ *               type: object
+ *               properties:
+ *                 email:
+ *                   type: boolean
+ *                 push:
+ *                   type: boolean
+ *                 sms:
+ *                   type: boolean
+ *             language:
+ *               type: string
+ *         stats:
+ *           type: object
+ *           properties:
+ *             loginCount:
+ *               type: integer
+ *             lastLoginAt:
+ *               type: string
+ *               format: date-time
+ *             postsCount:
+ *               type: integer
+ *             followersCount:
+ *               type: integer
+ *             followingCount:
+ *               type: integer
+ */
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   get:
+ *     summary: Get an user by id
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: [users:read]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User id
+ *     responses:
+ *       200:
+ *         description: The user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+router.get(
+  "/:id",
+  requireScope("users:read"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const user = getDataStore().users.get(id);
+
+    if (!user) {
+      const response = DataGenerator.createErrorResponse(
+        "USER_NOT_FOUND",
+        `User '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      user,
+      true,
+      "User retrieved successfully",
+    );
+
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UserInput:
+ *       type: object
+ *       required: [username, email, firstName, lastName]
+ *       properties:
+ *         username:
+ *           type: string
+ *           minLength: 3
+ *           maxLength: 30
+ *           pattern: "^[A-Za-z0-9._-]+$"
+ *         email:
+ *           type: string
+ *           format: email
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         avatar:
+ *           type: string
+ *           format: uri
+ *         isActive:
+ *           type: boolean
+ *         role:
+ *           type: string
+ *           enum: [admin, user, moderator]
+ *         profile:
+ *           type: object
+ *           properties:
+ *             bio:
+ *               type: string
+ *             location:
+ *               type: string
+ *             website:
+ *               type: string
+ *               format: uri
+ *             socialLinks:
+ *               type: object
+ *               properties:
+ *                 twitter:
+ *                   type: string
+ *                 linkedin:
+ *                   type: string
+ *                 github:
+ *                   type: string
+ *         preferences:
+ *           type: object
+ *           properties:
+ *             theme:
+ *               type: string
+ *               enum: [light, dark, auto]
+ *             notifications:
+ *               type: object
+ *               properties:
+ *                 email:
+ *                   type: boolean
+ *                 push:
+ *                   type: boolean
+ *                 sms:
+ *                   type: boolean
+ *             language:
+ *               type: string
+ */
+
+/**
+ * @swagger
+ * /api/users:
+ *   post:
+ *     summary: Create a user
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: [users:write]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UserInput'
+ *     responses:
+ *       201:
+ *         description: The created user
+ *         content:
+ *             application/json:
+ *               schema:
+ *                 type: object
+ *                 properties:
+ *                   data:
+ *                     $ref: '#/components/schemas/User'
+ *                   success:
+ *                     type: boolean
+ *                   message:
+ *                     type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ */
+router.post("/", requireScope("users:write"), (req: Request, res: Response) => {
+  const errors = validateUserInput(req.body, { partial: false });
+  if (errors.length > 0) {
+    const response = DataGenerator.createErrorResponse(
+      "VALIDATION_FAILED",
+      "User is invalid",
+      errors,
+    );
+    return res.status(422).json(response);
+  }
+
+  const user = createUser(req.body as UserInput);
+  const response = DataGenerator.createApiResponse(
+    user,
+    true,
+    "User created successfully",
+  );
+
+  return res.status(201).json(response);
+});
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   put:
+ *     summary: Replace a user
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: [users:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User id
+ *     requestBody:
+ *       required: true
+ *       description: The complete user; omitted optional fields are reset to defaults
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UserInput'
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *         content:
+ *             application/json:
+ *               schema:
+ *                 type: object
+ *                 properties:
+ *                   data:
+ *                     $ref: '#/components/schemas/User'
+ *                   success:
+ *                     type: boolean
+ *                   message:
+ *                     type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ */
+router.put(
+  "/:id",
+  requireScope("users:write"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const user = getDataStore().users.get(id);
+
+    if (!user) {
+      const response = DataGenerator.createErrorResponse(
+        "USER_NOT_FOUND",
+        `User '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const errors = validateUserInput(req.body, {
+      partial: false,
+      userId: id,
+    });
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "User is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      replaceUser(user, req.body as UserInput),
+      true,
+      "User updated successfully",
+    );
+
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   patch:
+ *     summary: Partially update a user
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: [users:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User id
+ *     requestBody:
+ *       required: true
+ *       description: Fields to change; nested objects are merged
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UserInput'
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *         content:
+ *             application/json:
+ *               schema:
+ *                 type: object
+ *                 properties:
+ *                   data:
+ *                     $ref: '#/components/schemas/User'
+ *                   success:
+ *                     type: boolean
+ *                   message:
+ *                     type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       422:
+ *         $ref: '#/components/responses/ValidationFailed'
+ */
+router.patch(
+  "/:id",
+  requireScope("users:write"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const user = getDataStore().users.get(id);
+
+    if (!user) {
+      const response = DataGenerator.createErrorResponse(
+        "USER_NOT_FOUND",
+        `User '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const errors = validateUserInput(req.body, {
+      partial: true,
+      userId: id,
+    });
+    if (errors.length > 0) {
+      const response = DataGenerator.createErrorResponse(
+        "VALIDATION_FAILED",
+        "User is invalid",
+        errors,
+      );
+      return res.status(422).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      patchUser(user, req.body as UserInput),
+      true,
+      "User updated successfully",
+    );
+
+    return res.json(response);
+  },
+);
+
+/**
+ * @swagger
+ * /api/users/{id}:
+ *   delete:
+ *     summary: Deactivate a user
+ *     description: Soft-deletes the user by setting `isActive` to false. The user stays retrievable.
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: [users:write]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User id
+ *     responses:
+ *       200:
+ *         description: The deactivated user
+ *         content:
+ *             application/json:
+ *               schema:
+ *                 type: object
+ *                 properties:
+ *                   data:
+ *                     $ref: '#/components/schemas/User'
+ *                   success:
+ *                     type: boolean
+ *                   message:
+ *                     type: string
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.delete(
+  "/:id",
+  requireScope("users:write"),
+  (req: Request, res: Response) => {
+    const id = req.params["id"] as string;
+    const user = getDataStore().users.get(id);
+
+    if (!user) {
+      const response = DataGenerator.createErrorResponse(
+        "USER_NOT_FOUND",
+        `User '${id}' not found`,
+      );
+      return res.status(404).json(response);
+    }
+
+    const response = DataGenerator.createApiResponse(
+      deactivateUser(user),
+      true,
+      "User deactivated successfully",
+    );
+
+    return res.json(response);
+  },
+);
+
 export default router;
@@ -0,0 +1,432 @@
+import { settings } from "../config/settings";
+import { Analytics, AnalyticsComparison, FieldError } from "../types";
+import {
+  Bucket,
+  createBuckets,
+  DAY_MS,
+  findBucket,
+  formatDate,
+  parseDate,
+} from "../utils/dates";
+import { ObjectSchema, validateObject } from "../utils/validation";
+import { getAnalyticsEventStore } from "./analyticsEvents";
+import { getDataStore, storeReferenceDate } from "./dataStore";
+import { roundAmount } from "./pricing";
+import { SALE_STATUSES } from "./reports";
+
+/** Preset periods and their length in days, up to and including today */
+export const ANALYTICS_PERIODS: Record<string, number> = {
+  last_7_days: 7,
+  last_30_days: 30,
+  last_90_days: 90,
+  last_year: 365,
+};
+
+export const ANALYTICS_INTERVALS = ["day", "week"] as const;
+
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+export const ANALYTICS_COMPARISONS = ["previous_period"] as const;
+
+export type AnalyticsComparisonMode = (typeof ANALYTICS_COMPARISONS)[number];
+
+/** A preset period or a custom range of days */
+export interface DateRangeQuery {
+  period?: string;
+  /** YYYY-MM-DD */
+  from?: string;
+  /** YYYY-MM-DD, inclusive; defaults to today */
+  to?: string;
+}
+
+/** Query parameters of `GET /api/analytics` */
+export interface AnalyticsQuery extends DateRangeQuery {
+  interval?: AnalyticsInterval;
+  compare?: AnalyticsComparisonMode;
+}
+
+export interface DateRange {
+  /** The preset, or `custom` */
+  period: string;
+  /** Start of the first day, UTC */
+  start: number;
+  /** End of the last day (exclusive), UTC */
+  end: number;
+}
+
+interface AnalyticsRange extends DateRange {
+  interval: AnalyticsInterval;
+}
+
+/** Longest custom range, in days */
+const MAX_RANGE_DAYS = 3 * 366;
+
+/** Ranges up to this many days get daily trend points, longer ones weekly */
+const MAX_DAILY_DAYS = 90;
+
+const DEFAULT_PERIOD = "last_30_days";
+
+const TOP_PRODUCTS = 10;
+
+const dateRule = {
+  type: "string",
+  pattern: /^\d{4}-\d{2}-\d{2}$/,
+  patternMessage: "must be a date (YYYY-MM-DD)",
+} as const;
+
+/** Rules of the `DateRangeQuery` fields */
+export const dateRangeSchema: ObjectSchema = {
+  period: { type: "string", enum: Object.keys(ANALYTICS_PERIODS) },
+  from: dateRule,
+  to: dateRule,
+};
+
+const querySchema: ObjectSchema = {
+  ...dateRangeSchema,
+  interval: { type: "string", enum: ANALYTICS_INTERVALS },
+  compare: { type: "string", enum: ANALYTICS_COMPARISONS },
+};
+
+/**
+ * Start of today (UTC). With `MOCK_SEED` this is the reference date the
+ * seeded data was generated around.
+ */
+export function today(): number {
+  return parseDate(formatDate(storeReferenceDate().getTime()))!;
+}
+
+/**
+ * Validates the query of `GET /api/analytics`: the field rules and the
+ * range checks of `validateDateRange`.
+ */
+export function validateAnalyticsQuery(input: unknown): FieldError[] {
+  const errors = validateObject(input, querySchema);
+  return errors.length > 0
+    ? errors
+    : validateDateRange(input as AnalyticsQuery);
+}
+
+/**
+ * Checks a range whose fields passed `dateRangeSchema`: that `period` is
+ * not combined with a custom range, that `from` is given with `to`, that
+ * the dates exist and that the range is at most `MAX_RANGE_DAYS` long.
+ */
+export function validateDateRange(query: DateRangeQuery): FieldError[] {
+  const errors: FieldError[] = [];
+  if (query.period && (query.from || query.to)) {
+    return [
+      { field: "period", message: "cannot be combined with from and to" },
+    ];
+  }
+  if (query.to && !query.from) {
+    return [{ field: "from", message: "is required with to" }];
+  }
+  for (const field of ["from", "to"] as const) {
+    const date = query[field];
+    if (date !== undefined && parseDate(date) === undefined) {
+      errors.push({ field, message: "is not a valid date" });
+    }
+  }
+  if (errors.length > 0 || !query.from) {
+    return errors;
+  }
+
+  const first = parseDate(query.from)!;
+  const last = query.to ? parseDate(query.to)! : today();
+  if (first > last) {
+    errors.push({ field: "from", message: "must not be after to" });
+  } else if ((last - first) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    errors.push({
+      field: "to",
+      message: `must be at most ${MAX_RANGE_DAYS} days after from`,
+    });
+  }
+  return errors;
+}
+
+/** The days of a range that passed `validateDateRange` */
+export function resolveDateRange(query: DateRangeQuery): DateRange {
+  let start: number;
+  let end: number;
+  if (query.from) {
+    start = parseDate(query.from)!;
+    end = (query.to ? parseDate(query.to)! : today()) + DAY_MS;
+  } else {
+    end = today() + DAY_MS;
+    start = end - ANALYTICS_PERIODS[query.period || DEFAULT_PERIOD]! * DAY_MS;
+  }
+
+  return {
+    period: query.from ? "custom" : query.period || DEFAULT_PERIOD,
+    start,
+    end,
+  };
+}
+
+function resolveRange(query: AnalyticsQuery): AnalyticsRange {
+  const { period, start, end } = resolveDateRange(query);
+  return {
+    period,
+    start,
+    end,
+    interval:
+      query.interval ||
+      ((end - start) / DAY_MS > MAX_DAILY_DAYS ? "week" : "day"),
+  };
+}
+
+export function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Metrics over `[start, end)` and, when `buckets` are given, one trend
+ * point per bucket. Users and orders come from the data store; orders
+ * count when they are not cancelled or refunded, with their total as
+ * revenue. Traffic, including conversions, comes from the events ingested
+ * with `POST /api/analytics/events`.
+ */
+function measure(
+  start: number,
+  end: number,
+  buckets: Bucket[] = [],
+): Pick<Analytics, "metrics" | "trends"> {
+  const store = getDataStore();
+  const trends = buckets.map((bucket) => ({
+    date: formatDate(bucket.start),
+    users: 0,
+    revenue: 0,
+    orders: 0,
+    pageViews: 0,
+  }));
+
+  let totalUsers = 0;
+  let newUsers = 0;
+  let activeUsers = 0;
+  for (const user of store.users.list()) {
+    const createdAt = Date.parse(user.createdAt);
+    const lastLoginAt = Date.parse(user.stats.lastLoginAt);
+    if (createdAt < end) {
+      totalUsers += 1;
+    }
+    if (createdAt >= start && createdAt < end) {
+      newUsers += 1;
+      const trend = trends[findBucket(buckets, createdAt)];
+      if (trend) {
+        trend.users += 1;
+      }
+    }
+    if (user.isActive && lastLoginAt >= start && lastLoginAt < end) {
+      activeUsers += 1;
+    }
+  }
+
+  let totalOrders = 0;
+  let totalRevenue = 0;
+  for (const order of store.orders.list()) {
+    const createdAt = Date.parse(order.createdAt);
+    if (
+      createdAt < start ||
+      createdAt >= end ||
+      !SALE_STATUSES.has(order.status)
+    ) {
+      continue;
+    }
+    totalOrders += 1;
+    totalRevenue += order.totals.total;
+    const trend = trends[findBucket(buckets, createdAt)];
+    if (trend) {
+      trend.orders += 1;
+      trend.revenue += order.totals.total;
+    }
+  }
+
+  let pageViews = 0;
+  let sessions = 0;
+  let bouncedSessions = 0;
+  const visitors = new Set<string>();
+  // Sessions spanning midnight count once
+  const visits = new Set<string>();
+  const conversions = new Set<string>();
+  for (const [day, traffic] of getAnalyticsEventStore().between(start, end)) {
+    pageViews += traffic.pageViews;
+    traffic.visitors.forEach((visitor) => visitors.add(visitor));
+    traffic.sessions.forEach((_, session) => visits.add(session));
+    traffic.conversions.forEach((session) => conversions.add(session));
+    for (const views of traffic.sessions.values()) {
+      // Sessions with only custom events that day have no landing page
+      if (views > 0) {
+        sessions += 1;
+        bouncedSessions += views === 1 ? 1 : 0;
+      }
+    }
+    const trend = trends[findBucket(buckets, day)];
+    if (trend) {
+      trend.pageViews += traffic.pageViews;
+    }
+  }
+
+  return {
+    metrics: {
+      totalUsers,
+      activeUsers,
+      newUsers,
+      totalRevenue: roundAmount(totalRevenue),
+      totalOrders,
+      averageOrderValue:
+        totalOrders > 0 ? roundAmount(totalRevenue / totalOrders) : 0,
+      // Percentages, like bounceRate
+      conversionRate:
+        visits.size > 0 ? round((conversions.size / visits.size) * 100, 2) : 0,
+      bounceRate:
+        sessions > 0 ? round((bouncedSessions / sessions) * 100, 1) : 0,
+      pageViews,
+      uniqueVisitors: visitors.size,
+    },
+    trends: trends.map((trend) => ({
+      ...trend,
+      revenue: roundAmount(trend.revenue),
+    })),
+  };
+}
+
+/**
+ * Best-selling products over `[start, end)` by units sold, with their
+ * revenue at list price.
+ */
+function topProducts(start: number, end: number): Analytics["topProducts"] {
+  const store = getDataStore();
+  const products = new Map<string, Analytics["topProducts"][number]>();
+
+  for (const order of store.orders.list()) {
+    const createdAt = Date.parse(order.createdAt);
+    if (
+      createdAt < start ||
+      createdAt >= end ||
+      !SALE_STATUSES.has(order.status)
+    ) {
+      continue;
+    }
+    for (const item of order.items) {
+      let product = products.get(item.productId);
+      if (!product) {
+        product = {
+          id: item.productId,
+          name: store.products.get(item.productId)?.name ?? item.productName,
+          sales: 0,
+          revenue: 0,
+        };
+        products.set(item.productId, product);
+      }
+      product.sales += item.quantity;
+      product.revenue += item.totalPrice;
+    }
+  }
+
+  return Array.from(products.values())
+    .sort((a, b) => b.sales - a.sales || b.revenue - a.revenue)
+    .slice(0, TOP_PRODUCTS)
+    .map((product) => ({ ...product, revenue: roundAmount(product.revenue) }));
+}
+
+function shares(counts: Map<string, number>): Analytics["trafficSources"] {
+  const total = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+  return Array.from(counts.entries())
+    .map(([source, visitors]) => ({
+      source,
+      visitors,
+      percentage: total > 0 ? round((visitors / total) * 100, 1) : 0,
+    }))
+    .sort((a, b) => b.visitors - a.visitors);
+}
+
+/**
+ * Sessions per traffic source, device and country over `[start, end)`,
+ * and custom events per name, from the ingested events. Age groups are
+ * not collected and stay empty.
+ */
+function audience(
+  start: number,
+  end: number,
+): Pick<Analytics, "trafficSources" | "demographics" | "events"> {
+  const sources = new Map<string, number>();
+  const devices: Record<string, number> = {};
+  const countries: Record<string, number> = {};
+  const events: Record<string, number> = {};
+
+  for (const [, traffic] of getAnalyticsEventStore().between(start, end)) {
+    for (const [source, count] of traffic.sources) {
+      sources.set(source, (sources.get(source) ?? 0) + count);
+    }
+    for (const [device, count] of traffic.devices) {
+      devices[device] = (devices[device] ?? 0) + count;
+    }
+    for (const [country, count] of traffic.countries) {
+      countries[country] = (countries[country] ?? 0) + count;
+    }
+    for (const [name, count] of traffic.events) {
+      events[name] = (events[name] ?? 0) + count;
+    }
+  }
+
+  return {
+    trafficSources: shares(sources),
+    demographics: { ageGroups: {}, countries, devices },
+    events,
+  };
+}
+
+/**
+ * Change of every metric against the equally long period ending the day
+ * before the range starts.
+ */
+function compare(
+  current: Analytics["metrics"],
+  range: AnalyticsRange,
+): AnalyticsComparison {
+  const start = range.start - (range.end - range.start);
+  const { metrics: previous } = measure(start, range.start);
+
+  const changes = {} as AnalyticsComparison["metrics"];
+  for (const key of Object.keys(current) as Array<keyof typeof current>) {
+    changes[key] = {
+      previous: previous[key],
+      change: round(current[key] - previous[key], 2),
+      changePercent:
+        previous[key] === 0
+          ? null
+          : round(((current[key] - previous[key]) / previous[key]) * 100, 1),
+    };
+  }
+
+  return {
+    compare: "previous_period",
+    startDate: formatDate(start),
+    endDate: formatDate(range.start - DAY_MS),
+    metrics: changes,
+  };
+}
+
+/**
+ * Computes the analytics for a query that passed `validateAnalyticsQuery`,
+ * in `settings.general.currency`.
+ */
+export function computeAnalytics(query: AnalyticsQuery): Analytics {
+  const range = resolveRange(query);
+  const buckets = createBuckets(range.start, range.end, range.interval);
+  const { metrics, trends } = measure(range.start, range.end, buckets);
+
+  return {
+    period: range.period,
+    currency: settings.general.currency,
+    startDate: formatDate(range.start),
+    endDate: formatDate(range.end - DAY_MS),
+    interval: range.interval,
+    metrics,
+    trends,
+    topProducts: topProducts(range.start, range.end),
+    ...audience(range.start, range.end),
+    ...(query.compare && { comparison: compare(metrics, range) }),
+  };
+}
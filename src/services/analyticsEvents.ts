@@ -0,0 +1,372 @@
+import { settings } from "../config/settings";
+import { AnalyticsEventsConfig, FieldError } from "../types";
+import { DAY_MS } from "../utils/dates";
+import { ObjectSchema, validateObject } from "../utils/validation";
+
+export const ANALYTICS_EVENT_TYPES = ["page_view", "custom"] as const;
+
+export type AnalyticsEventType = (typeof ANALYTICS_EVENT_TYPES)[number];
+
+export interface AnalyticsEvent {
+  type: AnalyticsEventType;
+  /** Name of a custom event, e.g. `add_to_cart` */
+  name?: string;
+  sessionId: string;
+  /** Visitor across sessions; each session counts as a visitor when unset */
+  visitorId?: string;
+  /** Page URL; required for page views */
+  url?: string;
+  referrer?: string;
+  userAgent?: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country?: string;
+  /** When the event happened; defaults to when it was received */
+  timestamp?: string;
+}
+
+/** Traffic of one UTC day */
+export interface DailyTraffic {
+  pageViews: number;
+  visitors: Set<string>;
+  /** Page views per session active that day */
+  sessions: Map<string, number>;
+  /** Sessions per traffic source, device and country, from their first event of the day */
+  sources: Map<string, number>;
+  devices: Map<string, number>;
+  countries: Map<string, number>;
+  /** Custom events per name */
+  events: Map<string, number>;
+  /** Sessions with a conversion event that day */
+  conversions: Set<string>;
+}
+
+/** An event of a session timeline */
+export interface TimelineEvent {
+  time: number;
+  type: AnalyticsEventType;
+  /** Custom event name */
+  name?: string;
+  /** Path of the page URL */
+  path?: string;
+}
+
+/** The events of one session in order of time, as used by funnels */
+export interface SessionTimeline {
+  sessionId: string;
+  visitorId?: string;
+  events: TimelineEvent[];
+}
+
+/** Events kept per session timeline; later ones are only aggregated */
+const MAX_SESSION_EVENTS = 1000;
+
+/** Events may be stamped this far ahead of the server clock */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const SEARCH_ENGINES =
+  /(^|\.)(google|bing|yahoo|duckduckgo|baidu|yandex|ecosia)\.[a-z.]+$/;
+
+const SOCIAL_NETWORKS =
+  /(^|\.)(facebook|instagram|linkedin|twitter|x|t|reddit|pinterest|tiktok|youtube)\.(com|co)$/;
+
+const MAIL_CLIENTS =
+  /^(mail\.google\.com|outlook\.live\.com|mail\.yahoo\.com)$/;
+
+function parseUrl(url: string | undefined): URL | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Traffic source of a visit, from the `utm_medium` of the landing page or
+ * else the referrer's host. Visits without an external referrer are
+ * direct.
+ */
+export function trafficSource(event: AnalyticsEvent): string {
+  const page = parseUrl(event.url);
+  const medium = page?.searchParams.get("utm_medium")?.toLowerCase();
+  if (medium === "email") {
+    return "Email";
+  }
+  if (medium && ["cpc", "ppc", "paid", "paidsearch"].includes(medium)) {
+    return "Paid Search";
+  }
+  if (medium === "social") {
+    return "Social Media";
+  }
+
+  const referrer = parseUrl(event.referrer);
+  if (!referrer || referrer.hostname === page?.hostname) {
+    return "Direct";
+  }
+  const host = referrer.hostname.replace(/^www\./, "");
+  // Before search engines, which would match mail.google.com
+  if (MAIL_CLIENTS.test(host)) {
+    return "Email";
+  }
+  if (SEARCH_ENGINES.test(host)) {
+    return "Organic Search";
+  }
+  if (SOCIAL_NETWORKS.test(host)) {
+    return "Social Media";
+  }
+  return "Referral";
+}
+
+/** Device class of a user agent: Desktop, Mobile, Tablet or Unknown */
+export function deviceType(userAgent: string | undefined): string {
+  if (!userAgent) {
+    return "Unknown";
+  }
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i.test(userAgent)) {
+    return "Tablet";
+  }
+  if (
+    /Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)
+  ) {
+    return "Mobile";
+  }
+  return "Desktop";
+}
+
+function eventSchema(): ObjectSchema {
+  return {
+    events: {
+      type: "array",
+      required: true,
+      minItems: 1,
+      maxItems: settings.analytics.events.maxBatchSize,
+      items: {
+        type: "object",
+        fields: {
+          type: { type: "string", required: true, enum: ANALYTICS_EVENT_TYPES },
+          name: {
+            type: "string",
+            maxLength: 100,
+            pattern: /^[A-Za-z0-9_.:-]+$/,
+            patternMessage:
+              "may only contain letters, digits and the characters _ . : -",
+          },
+          sessionId: {
+            type: "string",
+            required: true,
+            minLength: 1,
+            maxLength: 128,
+          },
+          visitorId: { type: "string", minLength: 1, maxLength: 128 },
+          url: { type: "string", maxLength: 2048, format: "url" },
+          referrer: { type: "string", maxLength: 2048 },
+          userAgent: { type: "string", maxLength: 512 },
+          country: {
+            type: "string",
+            pattern: /^[A-Za-z]{2}$/,
+            patternMessage: "must be an ISO 3166-1 alpha-2 country code",
+          },
+          timestamp: { type: "string", format: "date-time" },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Validates the body of `POST /api/analytics/events`: the field rules,
+ * that page views have a `url` and custom events a `name`, and that
+ * timestamps lie within the retention period and not in the future.
+ */
+export function validateEventBatch(
+  input: unknown,
+  now = Date.now(),
+): FieldError[] {
+  const errors = validateObject(input, eventSchema());
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const oldest =
+    startOfDay(now) - settings.analytics.events.retentionDays * DAY_MS;
+  (input as { events: AnalyticsEvent[] }).events.forEach((event, index) => {
+    const field = `events[${index}]`;
+    if (event.type === "page_view" && !event.url) {
+      errors.push({
+        field: `${field}.url`,
+        message: "is required for page views",
+      });
+    }
+    if (event.type === "custom" && !event.name) {
+      errors.push({
+        field: `${field}.name`,
+        message: "is required for custom events",
+      });
+    }
+    if (event.timestamp) {
+      const time = Date.parse(event.timestamp);
+      if (time < oldest) {
+        errors.push({
+          field: `${field}.timestamp`,
+          message: `must be within the last ${settings.analytics.events.retentionDays} days`,
+        });
+      } else if (time > now + MAX_CLOCK_SKEW_MS) {
+        errors.push({
+          field: `${field}.timestamp`,
+          message: "must not be in the future",
+        });
+      }
+    }
+  });
+  return errors;
+}
+
+function startOfDay(time: number): number {
+  return time - (((time % DAY_MS) + DAY_MS) % DAY_MS);
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * In-process store of ingested traffic. Events are folded into per-day
+ * aggregates and, for funnels, a timeline per session holding only the
+ * event type, name, path and time. Both are dropped once they are older
+ * than `retentionDays`.
+ */
+export class AnalyticsEventStore {
+  private readonly days = new Map<number, DailyTraffic>();
+  private readonly sessions = new Map<string, SessionTimeline>();
+  /** Start of the retention period at the last expiry */
+  private retainedFrom = 0;
+
+  constructor(private readonly config: AnalyticsEventsConfig) {}
+
+  /** Adds events that passed `validateEventBatch` to the aggregates */
+  record(events: AnalyticsEvent[], now = Date.now()): void {
+    this.expire(now);
+
+    for (const event of events) {
+      const time = event.timestamp ? Date.parse(event.timestamp) : now;
+      const traffic = this.day(startOfDay(time));
+
+      if (!traffic.sessions.has(event.sessionId)) {
+        traffic.sessions.set(event.sessionId, 0);
+        increment(traffic.sources, trafficSource(event));
+        increment(traffic.devices, deviceType(event.userAgent));
+        if (event.country) {
+          increment(traffic.countries, event.country.toUpperCase());
+        }
+      }
+      traffic.visitors.add(event.visitorId ?? `session:${event.sessionId}`);
+
+      if (event.type === "page_view") {
+        traffic.pageViews += 1;
+        increment(traffic.sessions, event.sessionId);
+      } else {
+        increment(traffic.events, event.name!);
+        if (this.config.conversionEvents.includes(event.name!)) {
+          traffic.conversions.add(event.sessionId);
+        }
+      }
+
+      this.addToTimeline(event, time);
+    }
+  }
+
+  /** Traffic of each day in `[start, end)` that has any, oldest first */
+  between(start: number, end: number): Array<[number, DailyTraffic]> {
+    return Array.from(this.days.entries())
+      .filter(([day]) => day >= start && day < end)
+      .sort(([a], [b]) => a - b);
+  }
+
+  /** Timelines of the sessions with events in `[start, end)` */
+  timelines(start: number, end: number): SessionTimeline[] {
+    return Array.from(this.sessions.values()).filter((timeline) =>
+      timeline.events.some((event) => event.time >= start && event.time < end),
+    );
+  }
+
+  private addToTimeline(event: AnalyticsEvent, time: number): void {
+    let timeline = this.sessions.get(event.sessionId);
+    if (!timeline) {
+      timeline = { sessionId: event.sessionId, events: [] };
+      this.sessions.set(event.sessionId, timeline);
+    }
+    if (event.visitorId) {
+      timeline.visitorId = event.visitorId;
+    }
+    if (timeline.events.length >= MAX_SESSION_EVENTS) {
+      return;
+    }
+
+    const entry: TimelineEvent = {
+      time,
+      type: event.type,
+      ...(event.name && { name: event.name }),
+      ...(event.url && { path: parseUrl(event.url)?.pathname }),
+    };
+    // Events mostly arrive in order, so search for the slot from the end
+    let index = timeline.events.length;
+    while (index > 0 && timeline.events[index - 1]!.time > time) {
+      index -= 1;
+    }
+    timeline.events.splice(index, 0, entry);
+  }
+
+  private day(start: number): DailyTraffic {
+    let traffic = this.days.get(start);
+    if (!traffic) {
+      traffic = {
+        pageViews: 0,
+        visitors: new Set(),
+        sessions: new Map(),
+        sources: new Map(),
+        devices: new Map(),
+        countries: new Map(),
+        events: new Map(),
+        conversions: new Set(),
+      };
+      this.days.set(start, traffic);
+    }
+    return traffic;
+  }
+
+  private expire(now: number): void {
+    const oldest = startOfDay(now) - this.config.retentionDays * DAY_MS;
+    // Moves once a day
+    if (oldest === this.retainedFrom) {
+      return;
+    }
+    this.retainedFrom = oldest;
+
+    for (const day of this.days.keys()) {
+      if (day < oldest) {
+        this.days.delete(day);
+      }
+    }
+    for (const [sessionId, timeline] of this.sessions) {
+      const firstKept = timeline.events.findIndex(
+        (event) => event.time >= oldest,
+      );
+      if (firstKept === -1) {
+        this.sessions.delete(sessionId);
+      } else if (firstKept > 0) {
+        timeline.events.splice(0, firstKept);
+      }
+    }
+  }
+}
+
+let store: AnalyticsEventStore | undefined;
+
+export function getAnalyticsEventStore(): AnalyticsEventStore {
+  if (!store) {
+    store = new AnalyticsEventStore(settings.analytics.events);
+  }
+  return store;
+}
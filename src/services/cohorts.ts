@@ -0,0 +1,168 @@
+import { FieldError } from "../types";
+import { parseInteger } from "../utils/collection";
+import { createBuckets, DAY_MS, findBucket, formatDate } from "../utils/dates";
+import { ObjectSchema, validateObject } from "../utils/validation";
+import { round, today } from "./analytics";
+import { getDataStore } from "./dataStore";
+import { SALE_STATUSES } from "./reports";
+
+export const COHORT_INTERVALS = ["week", "month"] as const;
+
+export type CohortInterval = (typeof COHORT_INTERVALS)[number];
+
+export const COHORT_ACTIVITIES = ["order", "login"] as const;
+
+export type CohortActivity = (typeof COHORT_ACTIVITIES)[number];
+
+/** Query parameters of `GET /api/analytics/cohorts` */
+export interface CohortQuery {
+  interval?: CohortInterval;
+  activity?: CohortActivity;
+  /** Number of cohorts, as given in the query string */
+  cohorts?: string;
+}
+
+export interface CohortRetention {
+  /** Periods since signup; 0 is the signup period itself */
+  period: number;
+  activeUsers: number;
+  /** Percentage of the cohort's users */
+  rate: number;
+}
+
+export interface Cohort {
+  /** First day of the signup period */
+  cohort: string;
+  users: number;
+  /** One entry per period up to the current one */
+  retention: CohortRetention[];
+}
+
+export interface CohortTable {
+  interval: CohortInterval;
+  activity: CohortActivity;
+  startDate: string;
+  endDate: string;
+  cohorts: Cohort[];
+}
+
+const DEFAULT_COHORTS = 12;
+
+const MAX_COHORTS = 52;
+
+const querySchema: ObjectSchema = {
+  interval: { type: "string", enum: COHORT_INTERVALS },
+  activity: { type: "string", enum: COHORT_ACTIVITIES },
+  cohorts: { type: "string" },
+};
+
+/** Validates the query of `GET /api/analytics/cohorts` */
+export function validateCohortQuery(input: unknown): FieldError[] {
+  const errors = validateObject(input, querySchema);
+  const { cohorts } = input as CohortQuery;
+  if (errors.length === 0 && cohorts !== undefined) {
+    const count = parseInteger(cohorts, "cohorts", 1, MAX_COHORTS);
+    if (typeof count !== "number") {
+      errors.push(count);
+    }
+  }
+  return errors;
+}
+
+/** Start of the week (Monday) or month containing `time` */
+function periodStart(time: number, interval: CohortInterval): number {
+  const date = new Date(time);
+  return interval === "week"
+    ? time - ((date.getUTCDay() + 6) % 7) * DAY_MS
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * Retention table for a query that passed `validateCohortQuery`. Users are
+ * grouped by the week or month they signed up in, up to and including the
+ * current one, and counted as retained in each later period they were
+ * active in:
+ *
+ * - `order`: they placed an order that period (cancelled and refunded
+ *   orders do not count).
+ * - `login`: they logged in that period or later. Only the last login of
+ *   a user is stored, so this is rolling retention and never rises from
+ *   one period to the next.
+ */
+export function computeCohorts(query: CohortQuery): CohortTable {
+  const interval = query.interval || "week";
+  const activity = query.activity || "order";
+  const count = query.cohorts ? Number(query.cohorts) : DEFAULT_COHORTS;
+
+  const end = today() + DAY_MS;
+  const current = periodStart(today(), interval);
+  const start =
+    interval === "week"
+      ? current - (count - 1) * 7 * DAY_MS
+      : Date.UTC(
+          new Date(current).getUTCFullYear(),
+          new Date(current).getUTCMonth() - (count - 1),
+          1,
+        );
+  const periods = createBuckets(start, end, interval);
+
+  const store = getDataStore();
+  const cohortOf = new Map<string, number>();
+  const users = periods.map(() => 0);
+  // Users active per cohort and period since signup
+  const active = periods.map((_, index) =>
+    Array.from({ length: periods.length - index }, () => new Set<string>()),
+  );
+
+  for (const user of store.users.list()) {
+    const cohort = findBucket(periods, Date.parse(user.createdAt));
+    if (cohort === -1) {
+      continue;
+    }
+    cohortOf.set(user.id, cohort);
+    users[cohort]! += 1;
+
+    if (activity === "login") {
+      const lastLoginAt = Date.parse(user.stats.lastLoginAt);
+      for (let period = cohort; period < periods.length; period += 1) {
+        if (lastLoginAt >= periods[period]!.start) {
+          active[cohort]![period - cohort]!.add(user.id);
+        }
+      }
+    }
+  }
+
+  if (activity === "order") {
+    for (const order of store.orders.list()) {
+      const cohort = cohortOf.get(order.customerId);
+      const period = findBucket(periods, Date.parse(order.createdAt));
+      if (
+        cohort === undefined ||
+        period < cohort ||
+        !SALE_STATUSES.has(order.status)
+      ) {
+        continue;
+      }
+      active[cohort]![period - cohort]!.add(order.customerId);
+    }
+  }
+
+  return {
+    interval,
+    activity,
+    startDate: formatDate(start),
+    endDate: formatDate(end - DAY_MS),
+    cohorts: periods.map((bucket, cohort) => ({
+      cohort: formatDate(bucket.start),
+      users: users[cohort]!,
+      retention: active[cohort]!.map((activeUsers, period) => ({
+        period,
+        activeUsers: activeUsers.size,
+        rate:
+          users[cohort]! > 0
+            ? round((activeUsers.size / users[cohort]!) * 100, 1)
+            : 0,
+      })),
+    })),
+  };
+}
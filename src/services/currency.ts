@@ -0,0 +1,266 @@
+import { settings } from "../config/settings";
+import { Analytics, CurrencyConversion, Order, Product } from "../types";
+import { Quote } from "./pricing";
+
+export function supportedCurrencies(): string[] {
+  return Object.keys(settings.exchangeRates.rates);
+}
+
+export function isSupportedCurrency(currency: string): boolean {
+  return Object.prototype.hasOwnProperty.call(
+    settings.exchangeRates.rates,
+    currency,
+  );
+}
+
+/**
+ * Number of decimals amounts in `currency` are rounded to, e.g. 2 for EUR
+ * and 0 for JPY.
+ */
+function minorUnits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat("en", {
+        style: "currency",
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Rate converting `from` into `to` through the base currency, rounded to
+ * six decimals so the reported rate is exactly the one applied.
+ */
+export function getExchangeRate(from: string, to: string): number {
+  const { rates } = settings.exchangeRates;
+  return Math.round((rates[to]! / rates[from]!) * 1e6) / 1e6;
+}
+
+/**
+ * Converts amounts into the currency a client asked for and records the
+ * rates it applied, for `metadata.conversion`. Without a currency, or for
+ * amounts in a currency missing from the rates table, amounts are returned
+ * unchanged.
+ */
+export class CurrencyConverter {
+  private readonly applied: Record<string, number> = {};
+
+  constructor(readonly currency?: string) {}
+
+  /**
+   * Whether amounts in `from` are converted.
+   */
+  converts(from: string): boolean {
+    return this.currency !== undefined && isSupportedCurrency(from);
+  }
+
+  /**
+   * Currency amounts in `from` are reported in after conversion.
+   */
+  target(from: string): string {
+    return this.converts(from) ? this.currency! : from;
+  }
+
+  amount(amount: number, from: string): number {
+    if (!this.converts(from)) {
+      return amount;
+    }
+
+    const rate = getExchangeRate(from, this.currency!);
+    this.applied[from] = rate;
+    return this.round(amount * rate);
+  }
+
+  /**
+   * Rounds an amount to the minor units of the requested currency.
+   */
+  private round(amount: number): number {
+    const factor = 10 ** minorUnits(this.currency!);
+    return Math.round(amount * factor) / factor;
+  }
+
+  /**
+   * Converts the amounts under `keys` of a flat record.
+   */
+  fields<T extends object>(record: T, keys: Array<keyof T>, from: string): T {
+    const converted = { ...record };
+    for (const key of keys) {
+      const value = record[key];
+      if (typeof value === "number") {
+        converted[key] = this.amount(value, from) as T[keyof T];
+      }
+    }
+    return converted;
+  }
+
+  product(product: Product): Product {
+    const { price } = product;
+    return {
+      ...product,
+      price: {
+        ...this.fields(price, ["amount", "originalPrice"], price.currency),
+        currency: this.target(price.currency),
+      },
+    };
+  }
+
+  /**
+   * Converts an order line's unit price and recomputes its total from the
+   * converted price, so lines still multiply out after rounding.
+   */
+  private line<T extends { unitPrice: number; quantity: number }>(
+    item: T,
+    from: string,
+  ): T {
+    const unitPrice = this.amount(item.unitPrice, from);
+    return {
+      ...item,
+      unitPrice,
+      totalPrice: this.round(unitPrice * item.quantity),
+    };
+  }
+
+  /**
+   * Totals of converted lines. The subtotal and discount come from the
+   * converted lines, shipping and tax are converted, and the total is
+   * recomputed from those parts instead of being converted on its own.
+   */
+  private totals(
+    totals: Order["totals"],
+    subtotal: number,
+    discount: number,
+    from: string,
+  ): Order["totals"] {
+    const shipping = this.amount(totals.shipping, from);
+    const tax = this.amount(totals.tax, from);
+    return {
+      subtotal: this.round(subtotal),
+      tax,
+      shipping,
+      discount: this.round(discount),
+      total: this.round(subtotal - discount + shipping + tax),
+    };
+  }
+
+  order(order: Order): Order {
+    const from = order.payment.currency;
+    if (!this.converts(from)) {
+      return order;
+    }
+
+    const items = order.items.map((item) => this.line(item, from));
+    const totals = this.totals(
+      order.totals,
+      items.reduce((sum, item) => sum + item.totalPrice, 0),
+      this.amount(order.totals.discount, from),
+      from,
+    );
+    return {
+      ...order,
+      items,
+      shipping: { ...order.shipping, cost: totals.shipping },
+      payment: {
+        ...order.payment,
+        amount: totals.total,
+        currency: this.target(from),
+      },
+      totals,
+    };
+  }
+
+  quote(quote: Quote): Quote {
+    const from = quote.currency;
+    if (!this.converts(from)) {
+      return quote;
+    }
+
+    const items = quote.items.map((item) => {
+      const line = this.line(item, from);
+      return {
+        ...line,
+        discount: this.round((line.totalPrice * item.discountPercentage) / 100),
+      };
+    });
+    const totals = this.totals(
+      quote.totals,
+      items.reduce((sum, item) => sum + item.totalPrice, 0),
+      items.reduce((sum, item) => sum + item.discount, 0),
+      from,
+    );
+    return {
+      ...quote,
+      items,
+      totals,
+      currency: this.target(from),
+      shipping: { ...quote.shipping, cost: totals.shipping },
+    };
+  }
+
+  analytics(analytics: Analytics): Analytics {
+    const from = analytics.currency;
+    return {
+      ...analytics,
+      currency: this.target(from),
+      metrics: this.fields(
+        analytics.metrics,
+        ["totalRevenue", "averageOrderValue"],
+        from,
+      ),
+      trends: analytics.trends.map((trend) =>
+        this.fields(trend, ["revenue"], from),
+      ),
+      topProducts: analytics.topProducts.map((product) =>
+        this.fields(product, ["revenue"], from),
+      ),
+      ...(analytics.comparison && {
+        comparison: {
+          ...analytics.comparison,
+          metrics: {
+            ...analytics.comparison.metrics,
+            totalRevenue: this.fields(
+              analytics.comparison.metrics.totalRevenue,
+              ["previous", "change"],
+              from,
+            ),
+            averageOrderValue: this.fields(
+              analytics.comparison.metrics.averageOrderValue,
+              ["previous", "change"],
+              from,
+            ),
+          },
+        },
+      }),
+    };
+  }
+
+  /**
+   * The conversion to report in response metadata, if a currency was
+   * requested.
+   */
+  describe(): CurrencyConversion | undefined {
+    if (this.currency === undefined) {
+      return undefined;
+    }
+    return {
+      currency: this.currency,
+      rates: { ...this.applied },
+      ratesUpdatedAt: settings.exchangeRates.updatedAt,
+    };
+  }
+}
+
+/**
+ * Adds the converter's `metadata.conversion` to a response envelope.
+ */
+export function withConversion<
+  R extends { metadata?: { conversion?: CurrencyConversion } },
+>(response: R, converter: CurrencyConverter): R {
+  const conversion = converter.describe();
+  if (conversion && response.metadata) {
+    response.metadata.conversion = conversion;
+  }
+  return response;
+}
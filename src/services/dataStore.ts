@@ -0,0 +1,206 @@
+import faker from "faker";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Article,
+  DataStore,
+  Notification,
+  Order,
+  Product,
+  Repository,
+  User,
+} from "../types";
+import { DataGenerator } from "../utils/dataGenerator";
+import { getHealthRegistry } from "./health";
+import { priceOrder } from "./pricing";
+import { InMemoryRepository, JsonFileRepository } from "./repositories";
+
+/**
+ * Number of entities generated per collection when seeding an empty store.
+ */
+export const SEED_COUNTS = {
+  users: 1000,
+  products: 5000,
+  orders: 2500,
+  articles: 750,
+  notifications: 300,
+};
+
+let store: DataStore | undefined;
+
+function dataDir(): string {
+  return process.env["DATA_DIR"] || path.join(__dirname, "..", "..", "data");
+}
+
+function createRepository<T extends { id: string }>(
+  name: keyof DataStore,
+  seed: () => T[],
+): Repository<T> {
+  if (process.env["DATA_STORE"] === "file") {
+    const flushDelayMs = Number(process.env["DATA_STORE_FLUSH_MS"] || 200);
+    return new JsonFileRepository(
+      path.join(dataDir(), `${name}.json`),
+      seed,
+      flushDelayMs,
+    );
+  }
+
+  return new InMemoryRepository(seed());
+}
+
+function seedUsers(): User[] {
+  return DataGenerator.generateArray(
+    () => DataGenerator.generateUser(),
+    SEED_COUNTS.users,
+  );
+}
+
+function seedProducts(): Product[] {
+  return DataGenerator.generateArray(
+    () => DataGenerator.generateProduct(),
+    SEED_COUNTS.products,
+  );
+}
+
+/**
+ * Orders reference seeded customers and products so that line items,
+ * customers and reports line up with the other collections.
+ */
+function seedOrders(users: User[], products: Product[]): Order[] {
+  return DataGenerator.generateArray(() => {
+    const order = DataGenerator.generateOrder();
+    order.customerId = faker.random.arrayElement(users).id;
+    // Reprice with the linked products so totals follow the pricing rules
+    const quote = priceOrder(
+      order.items.map((item) => ({
+        product: faker.random.arrayElement(products),
+        quantity: item.quantity,
+      })),
+      order.shipping,
+      new Date(order.createdAt),
+    );
+    order.items = quote.items.map((item, index) => ({
+      ...order.items[index]!,
+      productId: item.productId,
+      productName: item.productName,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+    }));
+    order.shipping.cost = quote.shipping.cost;
+    order.totals = quote.totals;
+    order.payment.amount = quote.totals.total;
+    return order;
+  }, SEED_COUNTS.orders);
+}
+
+function seedArticles(users: User[]): Article[] {
+  return DataGenerator.generateArray(() => {
+    const article = DataGenerator.generateArticle();
+    const author = faker.random.arrayElement(users);
+    article.author = {
+      ...article.author,
+      id: author.id,
+      name: `${author.firstName} ${author.lastName}`,
+      avatar: author.avatar,
+    };
+    return article;
+  }, SEED_COUNTS.articles);
+}
+
+function seedNotifications(users: User[]): Notification[] {
+  return DataGenerator.generateArray(() => {
+    const notification = DataGenerator.generateNotification();
+    notification.userId = faker.random.arrayElement(users).id;
+    return notification;
+  }, SEED_COUNTS.notifications);
+}
+
+/**
+ * Builds the data store selected by `DATA_STORE`:
+ *
+ * - `memory` (default): collections are seeded from `DataGenerator` and
+ *   live for the lifetime of the process.
+ * - `file`: collections are stored as JSON files in `DATA_DIR`
+ *   (default `data/`), seeded on first start.
+ */
+export function createDataStore(): DataStore {
+  const users = createRepository("users", seedUsers);
+  const products = createRepository("products", seedProducts);
+  const orders = createRepository("orders", () =>
+    seedOrders(users.list(), products.list()),
+  );
+  const articles = createRepository("articles", () =>
+    seedArticles(users.list()),
+  );
+  const notifications = createRepository("notifications", () =>
+    seedNotifications(users.list()),
+  );
+
+  return { users, products, orders, articles, notifications };
+}
+
+/**
+ * Returns the active data store, creating it on first use. With `MOCK_SEED`
+ * set the seeded collections are identical on every start.
+ */
+export function getDataStore(): DataStore {
+  if (!store) {
+    const seed = process.env["MOCK_SEED"];
+    store = seed
+      ? DataGenerator.withSeed(DataGenerator.parseSeed(seed), createDataStore)
+      : createDataStore();
+  }
+  return store;
+}
+
+/**
+ * The "now" the stored data was generated around: `MOCK_REFERENCE_DATE`
+ * when the store was seeded with `MOCK_SEED`, the clock otherwise. Unlike
+ * `DataGenerator.referenceDate()` this does not follow per-request seeds,
+ * which leave the stored data as it is.
+ */
+export function storeReferenceDate(): Date {
+  return process.env["MOCK_SEED"]
+    ? DataGenerator.mockReferenceDate()
+    : new Date();
+}
+
+/**
+ * Writes the pending changes of every collection, e.g. before shutdown.
+ */
+export async function flushDataStore(): Promise<void> {
+  if (store) {
+    await Promise.all(
+      Object.values(store).map((repository: Repository<{ id: string }>) =>
+        repository.flush?.(),
+      ),
+    );
+  }
+}
+
+/**
+ * Replaces the active data store, e.g. to plug in another backend.
+ */
+export function setDataStore(customStore: DataStore): void {
+  store = customStore;
+}
+
+getHealthRegistry().register({
+  name: "data-store",
+  critical: true,
+  async check() {
+    const backend = process.env["DATA_STORE"] === "file" ? "file" : "memory";
+    // File repositories write their changes to DATA_DIR in batches
+    if (backend === "file") {
+      await fs.promises.access(
+        dataDir(),
+        fs.constants.R_OK | fs.constants.W_OK,
+      );
+    }
+    const counts: Record<string, number> = {};
+    for (const [name, repository] of Object.entries(getDataStore())) {
+      counts[name] = repository.count();
+    }
+    return { status: "healthy", details: { backend, ...counts } };
+  },
+});
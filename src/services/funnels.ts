@@ -0,0 +1,216 @@
+import { FieldError } from "../types";
+import { DAY_MS, formatDate } from "../utils/dates";
+import { ObjectSchema, validateObject } from "../utils/validation";
+import {
+  DateRangeQuery,
+  dateRangeSchema,
+  resolveDateRange,
+  round,
+  validateDateRange,
+} from "./analytics";
+import {
+  ANALYTICS_EVENT_TYPES,
+  AnalyticsEventType,
+  getAnalyticsEventStore,
+  TimelineEvent,
+} from "./analyticsEvents";
+
+export const FUNNEL_GROUPINGS = ["session", "visitor"] as const;
+
+export type FunnelGrouping = (typeof FUNNEL_GROUPINGS)[number];
+
+export interface FunnelStep {
+  label?: string;
+  type: AnalyticsEventType;
+  /** Custom event name; required for custom event steps */
+  name?: string;
+  /** Path pattern of page view steps, `*` matching anything */
+  url?: string;
+}
+
+export interface FunnelInput extends DateRangeQuery {
+  steps: FunnelStep[];
+  /** Whether steps must happen within one session or may span a visitor's sessions */
+  by?: FunnelGrouping;
+}
+
+export interface FunnelStepResult extends FunnelStep {
+  step: number;
+  label: string;
+  /** Sessions or visitors that reached the step */
+  count: number;
+  /** Percentage of those entering the funnel who reached the step */
+  conversionRate: number;
+  /** Percentage of those reaching the previous step who reached this one */
+  stepConversionRate: number;
+  /** Sessions or visitors lost since the previous step */
+  dropOff: number;
+}
+
+export interface Funnel {
+  period: string;
+  startDate: string;
+  endDate: string;
+  by: FunnelGrouping;
+  steps: FunnelStepResult[];
+  /** Reached the first step */
+  entered: number;
+  /** Reached the last step */
+  converted: number;
+  conversionRate: number;
+}
+
+const MAX_STEPS = 10;
+
+const funnelSchema: ObjectSchema = {
+  ...dateRangeSchema,
+  by: { type: "string", enum: FUNNEL_GROUPINGS },
+  steps: {
+    type: "array",
+    required: true,
+    minItems: 2,
+    maxItems: MAX_STEPS,
+    items: {
+      type: "object",
+      fields: {
+        label: { type: "string", minLength: 1, maxLength: 100 },
+        type: { type: "string", required: true, enum: ANALYTICS_EVENT_TYPES },
+        name: { type: "string", minLength: 1, maxLength: 100 },
+        url: {
+          type: "string",
+          maxLength: 2048,
+          pattern: /^\//,
+          patternMessage: "must be a path starting with /",
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Validates the body of `POST /api/analytics/funnels`: the field rules,
+ * the range checks of `validateDateRange`, and that custom event steps
+ * name their event while only page view steps filter by `url`.
+ */
+export function validateFunnelInput(input: unknown): FieldError[] {
+  const errors = validateObject(input, funnelSchema);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const funnel = input as FunnelInput;
+  funnel.steps.forEach((step, index) => {
+    const field = `steps[${index}]`;
+    if (step.type === "custom" && !step.name) {
+      errors.push({
+        field: `${field}.name`,
+        message: "is required for custom event steps",
+      });
+    }
+    if (step.type === "page_view" && step.name) {
+      errors.push({
+        field: `${field}.name`,
+        message: "only applies to custom event steps",
+      });
+    }
+    if (step.type === "custom" && step.url) {
+      errors.push({
+        field: `${field}.url`,
+        message: "only applies to page view steps",
+      });
+    }
+  });
+  return [...errors, ...validateDateRange(funnel)];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Tests whether an event counts as the step */
+function stepMatcher(step: FunnelStep): (event: TimelineEvent) => boolean {
+  if (step.type === "custom") {
+    return (event) => event.type === "custom" && event.name === step.name;
+  }
+  const path = step.url
+    ? new RegExp(`^${step.url.split("*").map(escapeRegExp).join(".*")}$`)
+    : undefined;
+  return (event) =>
+    event.type === "page_view" &&
+    (!path || (event.path !== undefined && path.test(event.path)));
+}
+
+function percentage(count: number, total: number): number {
+  return total > 0 ? round((count / total) * 100, 1) : 0;
+}
+
+/**
+ * Evaluates a funnel that passed `validateFunnelInput` over the ingested
+ * events. A session (or visitor) reaches a step when, within the range, it
+ * has a matching event after reaching the previous step; other events in
+ * between do not matter.
+ */
+export function computeFunnel(input: FunnelInput): Funnel {
+  const range = resolveDateRange(input);
+  const by = input.by || "session";
+  const matchers = input.steps.map(stepMatcher);
+
+  // Events per session or visitor, in order of time
+  const groups = new Map<string, TimelineEvent[]>();
+  for (const timeline of getAnalyticsEventStore().timelines(
+    range.start,
+    range.end,
+  )) {
+    const key =
+      by === "visitor" && timeline.visitorId
+        ? `visitor:${timeline.visitorId}`
+        : `session:${timeline.sessionId}`;
+    const events = timeline.events.filter(
+      (event) => event.time >= range.start && event.time < range.end,
+    );
+    groups.set(key, [...(groups.get(key) ?? []), ...events]);
+  }
+
+  const counts = input.steps.map(() => 0);
+  for (const events of groups.values()) {
+    if (by === "visitor") {
+      events.sort((a, b) => a.time - b.time);
+    }
+    let reached = 0;
+    for (const event of events) {
+      if (matchers[reached]!(event)) {
+        counts[reached] = counts[reached]! + 1;
+        reached += 1;
+        if (reached === matchers.length) {
+          break;
+        }
+      }
+    }
+  }
+
+  const entered = counts[0]!;
+  const converted = counts[counts.length - 1]!;
+  return {
+    period: range.period,
+    startDate: formatDate(range.start),
+    endDate: formatDate(range.end - DAY_MS),
+    by,
+    steps: input.steps.map((step, index) => {
+      const previous = index > 0 ? counts[index - 1]! : entered;
+      return {
+        step: index + 1,
+        label: step.label || step.name || step.url || "Page view",
+        type: step.type,
+        ...(step.name && { name: step.name }),
+        ...(step.url && { url: step.url }),
+        count: counts[index]!,
+        conversionRate: percentage(counts[index]!, entered),
+        stepConversionRate: percentage(counts[index]!, previous),
+        dropOff: previous - counts[index]!,
+      };
+    }),
+    entered,
+    converted,
+    conversionRate: percentage(converted, entered),
+  };
+}
@@ -0,0 +1,117 @@
+import { HealthProbe, HealthStatus } from "../types";
+import { HealthRegistry } from "./health";
+
+function createRegistry(...probes: HealthProbe[]): HealthRegistry {
+  const registry = new HealthRegistry({ probeTimeoutMs: 50 });
+  for (const probe of probes) {
+    registry.register(probe);
+  }
+  return registry;
+}
+
+function probe(
+  name: string,
+  status: HealthStatus,
+  critical = false,
+): HealthProbe {
+  return { name, critical, check: () => ({ status }) };
+}
+
+describe("HealthRegistry", () => {
+  it("is healthy when every probe is", async () => {
+    const health = await createRegistry(
+      probe("store", "healthy", true),
+      probe("queue", "healthy"),
+    ).check();
+
+    expect(health.status).toBe("healthy");
+    expect(health.services.map((service) => service.name)).toEqual([
+      "store",
+      "queue",
+    ]);
+    expect(health.services[0]).toMatchObject({
+      status: "healthy",
+      critical: true,
+    });
+  });
+
+  it("is degraded when a non-critical dependency is down", async () => {
+    const health = await createRegistry(
+      probe("store", "healthy", true),
+      probe("queue", "down"),
+    ).check();
+
+    expect(health.status).toBe("degraded");
+  });
+
+  it("is degraded when a critical dependency is degraded", async () => {
+    const health = await createRegistry(
+      probe("store", "degraded", true),
+    ).check();
+
+    expect(health.status).toBe("degraded");
+  });
+
+  it("is down when a critical dependency is down", async () => {
+    const health = await createRegistry(
+      probe("store", "down", true),
+      probe("queue", "healthy"),
+    ).check();
+
+    expect(health.status).toBe("down");
+  });
+
+  it("reports a probe that throws as down", async () => {
+    const health = await createRegistry({
+      name: "verifier",
+      critical: true,
+      check: () => Promise.reject(new Error("connection refused")),
+    }).check();
+
+    expect(health.status).toBe("down");
+    expect(health.services[0]).toMatchObject({
+      status: "down",
+      error: "connection refused",
+    });
+  });
+
+  it("reports a probe that does not settle in time as down", async () => {
+    const health = await createRegistry(
+      { name: "stuck", check: () => new Promise(() => undefined) },
+      {
+        name: "slow",
+        timeoutMs: 10,
+        check: () =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve({ status: "healthy" }), 40),
+          ),
+      },
+    ).check();
+
+    expect(health.services).toMatchObject([
+      { name: "stuck", status: "down", error: "Timed out after 50 ms" },
+      { name: "slow", status: "down", error: "Timed out after 10 ms" },
+    ]);
+  });
+
+  it("replaces a probe registered under the same name", async () => {
+    const registry = createRegistry(probe("queue", "down"));
+    registry.register(probe("queue", "healthy"));
+
+    expect((await registry.check()).services).toMatchObject([
+      { name: "queue", status: "healthy" },
+    ]);
+    expect(registry.unregister("queue")).toBe(true);
+    expect((await registry.check()).services).toEqual([]);
+  });
+
+  it("reports process uptime and system figures", async () => {
+    const health = await createRegistry().check();
+
+    expect(health.uptime).toBeGreaterThan(0);
+    expect(health.performance.cpu.cores).toBeGreaterThan(0);
+    expect(health.performance.memory.used).toBeLessThanOrEqual(
+      health.performance.memory.total,
+    );
+  });
+});
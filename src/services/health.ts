@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as os from "os";
+import { settings } from "../config/settings";
+import {
+  HealthCheck,
+  HealthConfig,
+  HealthProbe,
+  HealthStatus,
+  SystemHealth,
+} from "../types";
+
+interface CpuSample {
+  idle: number;
+  total: number;
+}
+
+function sampleCpus(): CpuSample {
+  let idle = 0;
+  let total = 0;
+  for (const cpu of os.cpus()) {
+    idle += cpu.times.idle;
+    total +=
+      cpu.times.user +
+      cpu.times.nice +
+      cpu.times.sys +
+      cpu.times.irq +
+      cpu.times.idle;
+  }
+  return { idle, total };
+}
+
+function percentage(used: number, total: number): number {
+  return total > 0 ? Math.round((used / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Registry of the probes behind `GET /health`. Services register a probe
+ * for each dependency they rely on; `check` runs them all concurrently.
+ * The service is down when a critical probe is, degraded when any probe
+ * is not healthy, and healthy otherwise.
+ */
+export class HealthRegistry {
+  private readonly probes = new Map<string, HealthProbe>();
+  private lastCpuSample = sampleCpus();
+
+  constructor(private readonly config: HealthConfig) {}
+
+  /** Adds a probe, replacing any registered under the same name */
+  register(probe: HealthProbe): void {
+    this.probes.set(probe.name, probe);
+  }
+
+  unregister(name: string): boolean {
+    return this.probes.delete(name);
+  }
+
+  async check(): Promise<SystemHealth> {
+    const services = await Promise.all(
+      Array.from(this.probes.values()).map((probe) => this.run(probe)),
+    );
+
+    let status: HealthStatus = "healthy";
+    if (
+      services.some((service) => service.critical && service.status === "down")
+    ) {
+      status = "down";
+    } else if (services.some((service) => service.status !== "healthy")) {
+      status = "degraded";
+    }
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: Math.round(process.uptime() * 100) / 100,
+      version: `v${process.env["APP_VERSION"] || "1.0.0"}`,
+      environment: process.env["NODE_ENV"] || "development",
+      services,
+      performance: {
+        cpu: {
+          usage: this.cpuUsage(),
+          cores: os.cpus().length,
+          loadAverage: os.loadavg().map((load) => Math.round(load * 100) / 100),
+        },
+        memory: {
+          used: os.totalmem() - os.freemem(),
+          total: os.totalmem(),
+          percentage: percentage(os.totalmem() - os.freemem(), os.totalmem()),
+          process: process.memoryUsage().rss,
+        },
+        ...(await this.disk()),
+      },
+    };
+  }
+
+  private async run(probe: HealthProbe): Promise<HealthCheck> {
+    const started = Date.now();
+    const timeoutMs = probe.timeoutMs ?? this.config.probeTimeoutMs;
+    let timer: NodeJS.Timeout | undefined;
+
+    const result = await Promise.race([
+      Promise.resolve()
+        .then(() => probe.check())
+        .catch((error: unknown) => ({
+          status: "down" as const,
+          error: error instanceof Error ? error.message : String(error),
+        })),
+      new Promise<{ status: "down"; error: string }>((resolve) => {
+        timer = setTimeout(
+          () =>
+            resolve({
+              status: "down",
+              error: `Timed out after ${timeoutMs} ms`,
+            }),
+          timeoutMs,
+        );
+      }),
+    ]);
+    clearTimeout(timer);
+
+    return {
+      name: probe.name,
+      critical: probe.critical ?? false,
+      responseTime: Date.now() - started,
+      lastCheck: new Date().toISOString(),
+      ...result,
+    };
+  }
+
+  /**
+   * Share of CPU time all cores were busy since the previous check (or
+   * startup), or since boot when checks come too close together to tell.
+   */
+  private cpuUsage(): number {
+    const sample = sampleCpus();
+    const idle = sample.idle - this.lastCpuSample.idle;
+    const total = sample.total - this.lastCpuSample.total;
+    if (total > 0) {
+      this.lastCpuSample = sample;
+      return percentage(total - idle, total);
+    }
+    return percentage(sample.total - sample.idle, sample.total);
+  }
+
+  /**
+   * Usage of the file system holding `DATA_DIR`, or the working directory
+   * when that is unset or missing. Left out where the platform cannot tell.
+   */
+  private async disk(): Promise<Pick<SystemHealth["performance"], "disk">> {
+    const dataDir = process.env["DATA_DIR"];
+    const dir = dataDir && fs.existsSync(dataDir) ? dataDir : process.cwd();
+    try {
+      const stats = await fs.promises.statfs(dir);
+      const total = stats.blocks * stats.bsize;
+      const used = total - stats.bfree * stats.bsize;
+      return { disk: { used, total, percentage: percentage(used, total) } };
+    } catch {
+      return {};
+    }
+  }
+}
+
+let registry: HealthRegistry | undefined;
+
+export function getHealthRegistry(): HealthRegistry {
+  if (!registry) {
+    registry = new HealthRegistry(settings.health);
+  }
+  return registry;
+}
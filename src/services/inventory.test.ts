@@ -0,0 +1,146 @@
+import { Notification, Product, User } from "../types";
+import { DataGenerator } from "../utils/dataGenerator";
+import { getDataStore, setDataStore } from "./dataStore";
+import {
+  commitStock,
+  findStockShortages,
+  releaseStock,
+  reserveStock,
+} from "./inventory";
+import { InMemoryRepository } from "./repositories";
+
+let lamp: Product;
+let chair: Product;
+
+function inventory(product: Product): Product["inventory"] {
+  return getDataStore().products.get(product.id)!.inventory;
+}
+
+function notifications(): Notification[] {
+  return getDataStore().notifications.list();
+}
+
+beforeEach(() => {
+  const admin: User = {
+    ...DataGenerator.generateUser(),
+    role: "admin",
+    isActive: true,
+  };
+  lamp = {
+    ...DataGenerator.generateProduct(),
+    name: "Desk Lamp",
+    inventory: { stock: 10, reserved: 0, available: 10, lowStockThreshold: 5 },
+  };
+  chair = {
+    ...DataGenerator.generateProduct(),
+    inventory: { stock: 4, reserved: 1, available: 3, lowStockThreshold: 1 },
+  };
+
+  setDataStore({
+    users: new InMemoryRepository([admin]),
+    products: new InMemoryRepository([lamp, chair]),
+    orders: new InMemoryRepository(),
+    articles: new InMemoryRepository(),
+    notifications: new InMemoryRepository<Notification>(),
+  });
+});
+
+describe("findStockShortages", () => {
+  it("checks the total quantity of a product across lines", () => {
+    expect(
+      findStockShortages([
+        { productId: lamp.id, quantity: 6 },
+        { productId: lamp.id, quantity: 5 },
+        { productId: chair.id, quantity: 3 },
+      ]),
+    ).toEqual([
+      {
+        productId: lamp.id,
+        productName: "Desk Lamp",
+        requested: 11,
+        available: 10,
+      },
+    ]);
+  });
+
+  it("finds nothing when every line is covered", () => {
+    expect(findStockShortages([{ productId: lamp.id, quantity: 10 }])).toEqual(
+      [],
+    );
+  });
+});
+
+describe("reserveStock", () => {
+  it("moves stock from available to reserved", () => {
+    reserveStock([{ productId: lamp.id, quantity: 3 }]);
+
+    expect(inventory(lamp)).toEqual({
+      stock: 10,
+      reserved: 3,
+      available: 7,
+      lowStockThreshold: 5,
+    });
+  });
+
+  it("warns admins once when stock drops to the low-stock threshold", () => {
+    reserveStock([{ productId: lamp.id, quantity: 5 }]);
+    reserveStock([{ productId: lamp.id, quantity: 1 }]);
+
+    const [notification, ...others] = notifications();
+    expect(others).toEqual([]);
+    expect(notification).toMatchObject({
+      type: "warning",
+      priority: "high",
+      data: { productId: lamp.id, available: 5, lowStockThreshold: 5 },
+    });
+  });
+
+  it("marks the warning urgent when nothing is left", () => {
+    reserveStock([{ productId: chair.id, quantity: 3 }]);
+
+    expect(notifications()[0]).toMatchObject({
+      priority: "urgent",
+      data: { productId: chair.id, available: 0 },
+    });
+  });
+});
+
+describe("releaseStock", () => {
+  it("returns reserved stock to available", () => {
+    releaseStock([{ productId: chair.id, quantity: 1 }]);
+
+    expect(inventory(chair)).toMatchObject({
+      stock: 4,
+      reserved: 0,
+      available: 4,
+    });
+  });
+
+  it("never releases more than is reserved", () => {
+    releaseStock([{ productId: chair.id, quantity: 5 }]);
+
+    expect(inventory(chair)).toMatchObject({ reserved: 0, available: 4 });
+  });
+});
+
+describe("commitStock", () => {
+  it("takes reserved stock out of the inventory", () => {
+    commitStock([{ productId: chair.id, quantity: 1 }]);
+
+    expect(inventory(chair)).toMatchObject({
+      stock: 3,
+      reserved: 0,
+      available: 3,
+    });
+  });
+
+  it("clamps stock that was never reserved at zero", () => {
+    commitStock([{ productId: lamp.id, quantity: 12 }]);
+
+    expect(inventory(lamp)).toMatchObject({
+      stock: 0,
+      reserved: 0,
+      available: 0,
+    });
+  });
+});
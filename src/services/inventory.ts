@@ -0,0 +1,140 @@
+import { Order, Product } from "../types";
+import { getDataStore } from "./dataStore";
+import { notifyAdmins } from "./notifications";
+
+type LineItem = Pick<Order["items"][number], "productId" | "quantity">;
+
+export interface StockShortage {
+  productId: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Sums quantities per product, so an order listing a product on several
+ * lines is checked against its total.
+ */
+function quantitiesByProduct(items: LineItem[]): Map<string, number> {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(
+      item.productId,
+      (quantities.get(item.productId) || 0) + item.quantity,
+    );
+  }
+  return quantities;
+}
+
+/**
+ * Lists the products whose available stock cannot cover the requested
+ * quantities. An empty result means the items can be reserved.
+ */
+export function findStockShortages(items: LineItem[]): StockShortage[] {
+  const { products } = getDataStore();
+  const shortages: StockShortage[] = [];
+
+  for (const [productId, requested] of quantitiesByProduct(items)) {
+    const product = products.get(productId);
+    if (product && product.inventory.available < requested) {
+      shortages.push({
+        productId,
+        productName: product.name,
+        requested,
+        available: product.inventory.available,
+      });
+    }
+  }
+
+  return shortages;
+}
+
+function notifyLowStock(product: Product): void {
+  const { available, lowStockThreshold } = product.inventory;
+
+  notifyAdmins({
+    type: "warning",
+    title: `Low stock: ${product.name}`,
+    message: `${product.name} has ${available} units available (threshold ${lowStockThreshold}).`,
+    priority: available === 0 ? "urgent" : "high",
+    channels: ["in_app", "email"],
+    data: { productId: product.id, available, lowStockThreshold },
+    actionUrl: `/api/products/${product.id}`,
+    actionText: "View product",
+  });
+}
+
+/**
+ * Applies `change` to the inventory of every product in `items` and warns
+ * admins about products whose available stock drops to or below their
+ * low-stock threshold. Seeded orders never reserved stock, so changes
+ * clamp at zero rather than going negative.
+ */
+function adjustInventory(
+  items: LineItem[],
+  change: (
+    inventory: Product["inventory"],
+    quantity: number,
+  ) => Pick<Product["inventory"], "stock" | "reserved">,
+): void {
+  const { products } = getDataStore();
+
+  for (const [productId, quantity] of quantitiesByProduct(items)) {
+    const product = products.get(productId);
+    if (!product) {
+      continue;
+    }
+
+    const { stock, reserved } = change(product.inventory, quantity);
+    const inventory = {
+      ...product.inventory,
+      stock,
+      reserved,
+      available: Math.max(0, stock - reserved),
+    };
+    const updated = products.update(productId, {
+      inventory,
+      updatedAt: new Date().toISOString(),
+    })!;
+
+    const threshold = inventory.lowStockThreshold;
+    if (
+      product.inventory.available > threshold &&
+      inventory.available <= threshold
+    ) {
+      notifyLowStock(updated);
+    }
+  }
+}
+
+/**
+ * Reserves stock for a new order. Callers check `findStockShortages` first;
+ * both run synchronously, so no other request can claim the stock between
+ * the check and the reservation.
+ */
+export function reserveStock(items: LineItem[]): void {
+  adjustInventory(items, (inventory, quantity) => ({
+    stock: inventory.stock,
+    reserved: inventory.reserved + quantity,
+  }));
+}
+
+/**
+ * Releases the reservation of a cancelled order.
+ */
+export function releaseStock(items: LineItem[]): void {
+  adjustInventory(items, (inventory, quantity) => ({
+    stock: inventory.stock,
+    reserved: Math.max(0, inventory.reserved - quantity),
+  }));
+}
+
+/**
+ * Turns the reservation of a shipped order into a stock decrement.
+ */
+export function commitStock(items: LineItem[]): void {
+  adjustInventory(items, (inventory, quantity) => ({
+    stock: Math.max(0, inventory.stock - quantity),
+    reserved: Math.max(0, inventory.reserved - quantity),
+  }));
+}
@@ -0,0 +1,172 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { v4 as uuidv4 } from "uuid";
+import {
+  ApiKey,
+  KeyVerificationResult,
+  KeyVerifier,
+  RateLimitOverride,
+} from "../types";
+
+/**
+ * Shape of a key entry in an API keys file. Entries may carry either the
+ * plaintext `key` (convenient for local development) or its SHA-256 `hash`.
+ */
+export interface ApiKeyFileEntry {
+  id?: string;
+  name?: string;
+  ownerId: string;
+  key?: string;
+  hash?: string;
+  prefix?: string;
+  scopes?: string[];
+  ratelimit?: RateLimitOverride;
+  meta?: Record<string, any>;
+  createdAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreateApiKeyInput {
+  key: string;
+  ownerId: string;
+  name?: string;
+  scopes?: string[];
+  ratelimit?: RateLimitOverride;
+  meta?: Record<string, any>;
+  expiresAt?: string;
+}
+
+export function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Key store that keeps API keys in memory, indexed by the hash of the key.
+ *
+ * When constructed with a file path the store is loaded from that file and
+ * every mutation (add, revoke) is written back, so revocations survive a
+ * restart. Plaintext keys are never persisted, only their hashes.
+ */
+export class InMemoryKeyStore implements KeyVerifier {
+  private readonly keysByHash = new Map<string, ApiKey>();
+
+  constructor(private readonly filePath?: string) {
+    if (filePath && fs.existsSync(filePath)) {
+      this.load(filePath);
+    }
+  }
+
+  add(input: CreateApiKeyInput): ApiKey {
+    const apiKey: ApiKey = {
+      id: `key_${uuidv4().replace(/-/g, "")}`,
+      name: input.name || "Unnamed key",
+      ownerId: input.ownerId,
+      hash: hashKey(input.key),
+      prefix: input.key.slice(0, 8),
+      scopes: input.scopes || [],
+      ...(input.ratelimit && { ratelimit: input.ratelimit }),
+      meta: input.meta || {},
+      createdAt: new Date().toISOString(),
+      ...(input.expiresAt && { expiresAt: input.expiresAt }),
+    };
+
+    this.keysByHash.set(apiKey.hash, apiKey);
+    this.persist();
+    return apiKey;
+  }
+
+  get(id: string): ApiKey | undefined {
+    return this.list().find((apiKey) => apiKey.id === id);
+  }
+
+  list(): ApiKey[] {
+    return Array.from(this.keysByHash.values());
+  }
+
+  revoke(id: string): boolean {
+    const apiKey = this.get(id);
+    if (!apiKey) {
+      return false;
+    }
+
+    apiKey.revokedAt = new Date().toISOString();
+    this.persist();
+    return true;
+  }
+
+  verify(token: string): Promise<KeyVerificationResult> {
+    const apiKey = this.keysByHash.get(hashKey(token));
+
+    if (!apiKey) {
+      return Promise.resolve({ valid: false, code: "NOT_FOUND" });
+    }
+    if (apiKey.revokedAt) {
+      return Promise.resolve({ valid: false, code: "REVOKED" });
+    }
+    if (
+      apiKey.expiresAt &&
+      new Date(apiKey.expiresAt).getTime() <= Date.now()
+    ) {
+      return Promise.resolve({ valid: false, code: "EXPIRED" });
+    }
+
+    return Promise.resolve({
+      valid: true,
+      code: "VALID",
+      key: {
+        id: apiKey.id,
+        name: apiKey.name,
+        ownerId: apiKey.ownerId,
+        scopes: apiKey.scopes,
+        ...(apiKey.ratelimit && { ratelimit: apiKey.ratelimit }),
+        meta: apiKey.meta || {},
+        ...(apiKey.expiresAt && { expiresAt: apiKey.expiresAt }),
+      },
+    });
+  }
+
+  private load(filePath: string): void {
+    const content = JSON.parse(fs.readFileSync(filePath, "utf8")) as {
+      keys?: ApiKeyFileEntry[];
+    };
+
+    for (const entry of content.keys || []) {
+      const hash = entry.hash || (entry.key ? hashKey(entry.key) : undefined);
+      if (!hash) {
+        throw new Error(
+          `API key entry for owner '${entry.ownerId}' needs either 'key' or 'hash'`,
+        );
+      }
+
+      this.keysByHash.set(hash, {
+        id: entry.id || `key_${hash.slice(0, 24)}`,
+        name: entry.name || "Unnamed key",
+        ownerId: entry.ownerId,
+        hash,
+        prefix: entry.prefix || (entry.key ? entry.key.slice(0, 8) : ""),
+        scopes: entry.scopes || [],
+        ...(entry.ratelimit && { ratelimit: entry.ratelimit }),
+        meta: entry.meta || {},
+        createdAt: entry.createdAt || new Date().toISOString(),
+        ...(entry.expiresAt && { expiresAt: entry.expiresAt }),
+        ...(entry.revokedAt && { revokedAt: entry.revokedAt }),
+      });
+    }
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const keys: ApiKeyFileEntry[] = this.list().map((apiKey) => ({
+      ...apiKey,
+    }));
+    fs.writeFileSync(
+      this.filePath,
+      `${JSON.stringify({ keys }, null, 2)}\n`,
+      "utf8",
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as path from "path";
+import { KeyVerifier } from "../types";
+import { getHealthRegistry } from "./health";
+import { InMemoryKeyStore } from "./keyStore";
+import { UnkeyVerifier } from "./unkeyVerifier";
+
+const DEFAULT_KEYS_FILE = path.join(
+  __dirname,
+  "..",
+  "..",
+  "config",
+  "api-keys.json",
+);
+
+let verifier: KeyVerifier | undefined;
+
+/**
+ * Builds the key verifier selected by `AUTH_PROVIDER`:
+ *
+ * - `local` (default): keys are read from `API_KEYS_FILE`
+ *   (default `config/api-keys.json`). Outside production a development key
+ *   from `DEV_API_KEY` is added when no keys file exists.
+ * - `unkey`: keys are verified remotely against `UNKEY_API_URL`.
+ */
+export function createKeyVerifier(): KeyVerifier {
+  const provider = process.env["AUTH_PROVIDER"] || "local";
+
+  if (provider === "unkey") {
+    return new UnkeyVerifier({
+      baseUrl: process.env["UNKEY_API_URL"] || "https://api.unkey.dev",
+      apiId: process.env["UNKEY_API_ID"],
+      rootKey: process.env["UNKEY_ROOT_KEY"],
+    });
+  }
+
+  if (provider !== "local") {
+    throw new Error(`Unknown AUTH_PROVIDER '${provider}'`);
+  }
+
+  const keysFile = process.env["API_KEYS_FILE"] || DEFAULT_KEYS_FILE;
+  if (fs.existsSync(keysFile)) {
+    return new InMemoryKeyStore(keysFile);
+  }
+
+  const store = new InMemoryKeyStore();
+  if (process.env["NODE_ENV"] !== "production") {
+    const devKey = process.env["DEV_API_KEY"] || "dev_local_key";
+    store.add({
+      key: devKey,
+      name: "Development key",
+      ownerId: "developer",
+      scopes: ["*"],
+    });
+    console.warn(
+      `⚠️  No API keys file found at ${keysFile}, using development key '${devKey}'`,
+    );
+  }
+
+  return store;
+}
+
+export function getKeyVerifier(): KeyVerifier {
+  if (!verifier) {
+    verifier = createKeyVerifier();
+  }
+  return verifier;
+}
+
+/**
+ * Replaces the active key verifier, e.g. to plug in a custom backend.
+ */
+export function setKeyVerifier(customVerifier: KeyVerifier): void {
+  verifier = customVerifier;
+}
+
+// Every API request is authenticated, so nothing works without the verifier
+getHealthRegistry().register({
+  name: "key-verifier",
+  critical: true,
+  async check() {
+    await getKeyVerifier().ping?.();
+    return {
+      status: "healthy",
+      details: { provider: process.env["AUTH_PROVIDER"] || "local" },
+    };
+  },
+});
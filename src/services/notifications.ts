@@ -0,0 +1,37 @@
+import { v4 as uuidv4 } from "uuid";
+import { Notification } from "../types";
+import { getDataStore } from "./dataStore";
+
+export type NotificationInput = Pick<
+  Notification,
+  "type" | "title" | "message" | "priority"
+> &
+  Partial<Pick<Notification, "data" | "channels" | "actionUrl" | "actionText">>;
+
+/**
+ * Stores an unread notification for a single user.
+ */
+export function createNotification(
+  userId: string,
+  input: NotificationInput,
+): Notification {
+  const notification: Notification = {
+    id: uuidv4(),
+    userId,
+    channels: ["in_app"],
+    ...input,
+    isRead: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  return getDataStore().notifications.create(notification);
+}
+
+/**
+ * Sends the same notification to every active admin.
+ */
+export function notifyAdmins(input: NotificationInput): Notification[] {
+  return getDataStore()
+    .users.find((user) => user.role === "admin" && user.isActive)
+    .map((admin) => createNotification(admin.id, input));
+}
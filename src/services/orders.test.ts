@@ -0,0 +1,221 @@
+import { Order, Product, User } from "../types";
+import { DataGenerator } from "../utils/dataGenerator";
+import { getDataStore, setDataStore } from "./dataStore";
+import {
+  canTransition,
+  createOrder,
+  ORDER_TRANSITIONS,
+  OrderAction,
+  OrderInput,
+  transitionOrder,
+} from "./orders";
+import { InMemoryRepository } from "./repositories";
+
+let customer: User;
+let lamp: Product;
+let chair: Product;
+
+function inventory(product: Product): Product["inventory"] {
+  return getDataStore().products.get(product.id)!.inventory;
+}
+
+function place(quantity = 2): Order {
+  const input: OrderInput = {
+    customerId: customer.id,
+    items: [
+      { productId: lamp.id, quantity },
+      { productId: chair.id, quantity: 1 },
+    ],
+    shipping: {
+      address: {
+        street: "1 Main St",
+        city: "Springfield",
+        state: "NY",
+        zipCode: "10001",
+        country: "US",
+      },
+      method: "ground",
+    },
+    payment: { method: "credit_card" },
+  };
+  return createOrder(input);
+}
+
+function apply(order: Order, ...actions: OrderAction[]): Order {
+  return actions.reduce((current, action) => {
+    expect(canTransition(current, action)).toBe(true);
+    return transitionOrder(current, action);
+  }, order);
+}
+
+beforeEach(() => {
+  customer = { ...DataGenerator.generateUser(), role: "user" };
+  const admin: User = {
+    ...DataGenerator.generateUser(),
+    role: "admin",
+    isActive: true,
+  };
+  lamp = {
+    ...DataGenerator.generateProduct(),
+    price: { amount: 20, currency: "USD" },
+    inventory: { stock: 10, reserved: 0, available: 10, lowStockThreshold: 5 },
+  };
+  chair = {
+    ...DataGenerator.generateProduct(),
+    price: { amount: 150, currency: "USD" },
+    inventory: { stock: 4, reserved: 1, available: 3, lowStockThreshold: 1 },
+  };
+
+  setDataStore({
+    users: new InMemoryRepository([customer, admin]),
+    products: new InMemoryRepository([lamp, chair]),
+    orders: new InMemoryRepository<Order>(),
+    articles: new InMemoryRepository(),
+    notifications: new InMemoryRepository(),
+  });
+});
+
+describe("createOrder", () => {
+  it("creates a pending order priced by the pricing engine", () => {
+    const order = place();
+
+    expect(order.status).toBe("pending");
+    expect(order.statusHistory.map((change) => change.status)).toEqual([
+      "pending",
+    ]);
+    expect(order.payment).toMatchObject({ status: "pending", amount: 205.6 });
+    expect(order.totals).toEqual({
+      subtotal: 190,
+      discount: 0,
+      shipping: 8,
+      tax: 7.6,
+      total: 205.6,
+    });
+    expect(getDataStore().orders.get(order.id)).toEqual(order);
+  });
+
+  it("reserves stock for every line", () => {
+    place(3);
+
+    expect(inventory(lamp)).toMatchObject({ stock: 10, reserved: 3 });
+    expect(inventory(lamp).available).toBe(7);
+    expect(inventory(chair)).toMatchObject({ reserved: 2, available: 2 });
+  });
+
+  it("numbers orders in sequence and uses unique transaction ids", () => {
+    const first = place();
+    const second = place();
+
+    expect(first.orderNumber).toBe("ORD-100001");
+    expect(second.orderNumber).toBe("ORD-100002");
+    expect(second.payment.transactionId).not.toBe(first.payment.transactionId);
+  });
+
+  it("continues after the highest stored order number", () => {
+    getDataStore().orders.create({
+      ...DataGenerator.generateOrder(),
+      orderNumber: "ORD-654321",
+    });
+
+    expect(place().orderNumber).toBe("ORD-654322");
+  });
+});
+
+describe("transitionOrder", () => {
+  it("follows the lifecycle and keeps the payment status in sync", () => {
+    const steps: Array<[OrderAction, Order["status"], string]> = [
+      ["process", "processing", "completed"],
+      ["ship", "shipped", "completed"],
+      ["deliver", "delivered", "completed"],
+      ["refund", "refunded", "refunded"],
+    ];
+
+    let order = place();
+    for (const [action, status, paymentStatus] of steps) {
+      order = apply(order, action);
+      expect(order.status).toBe(status);
+      expect(order.payment.status).toBe(paymentStatus);
+    }
+    expect(order.statusHistory.map((change) => change.status)).toEqual([
+      "pending",
+      "processing",
+      "shipped",
+      "delivered",
+      "refunded",
+    ]);
+  });
+
+  it.each(Object.keys(ORDER_TRANSITIONS) as OrderAction[])(
+    "allows '%s' only from its listed statuses",
+    (action) => {
+      const order = place();
+      for (const status of [
+        "pending",
+        "processing",
+        "shipped",
+        "delivered",
+        "cancelled",
+        "refunded",
+      ] as const) {
+        expect(canTransition({ ...order, status }, action)).toBe(
+          ORDER_TRANSITIONS[action].from.includes(status),
+        );
+      }
+    },
+  );
+
+  it("voids an uncaptured payment on cancel and releases the stock", () => {
+    const order = apply(place(3), "cancel");
+
+    expect(order.status).toBe("cancelled");
+    expect(order.payment.status).toBe("failed");
+    expect(inventory(lamp)).toMatchObject({
+      stock: 10,
+      reserved: 0,
+      available: 10,
+    });
+    expect(inventory(chair)).toMatchObject({ reserved: 1, available: 3 });
+  });
+
+  it("refunds a captured payment on cancel", () => {
+    const order = apply(place(), "process", "cancel");
+
+    expect(order.payment.status).toBe("refunded");
+  });
+
+  it("takes shipped stock out of the inventory", () => {
+    apply(place(3), "process", "ship");
+
+    expect(inventory(lamp)).toMatchObject({
+      stock: 7,
+      reserved: 0,
+      available: 7,
+    });
+    expect(inventory(chair)).toMatchObject({
+      stock: 3,
+      reserved: 1,
+      available: 2,
+    });
+  });
+
+  it("assigns a tracking number on ship unless one is given", () => {
+    const generated = apply(place(), "process", "ship");
+    const given = transitionOrder(apply(place(), "process"), "ship", {
+      trackingNumber: "1Z999AA10123456784",
+    });
+
+    expect(generated.shipping.trackingNumber).toMatch(/^[0-9A-F]{12}$/);
+    expect(given.shipping.trackingNumber).toBe("1Z999AA10123456784");
+  });
+
+  it("records the reason with the status change", () => {
+    const order = transitionOrder(place(), "cancel", {
+      reason: "Customer request",
+    });
+
+    expect(order.statusHistory[1]).toMatchObject({
+      status: "cancelled",
+      note: "Customer request",
+    });
+  });
+});
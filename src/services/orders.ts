@@ -0,0 +1,343 @@
+import { v4 as uuidv4 } from "uuid";
+import { settings } from "../config/settings";
+import { FieldError, Order, OrderStatus, PaymentStatus } from "../types";
+import { FieldRule, ObjectSchema, validateObject } from "../utils/validation";
+import { getDataStore } from "./dataStore";
+import { commitStock, releaseStock, reserveStock } from "./inventory";
+import { quoteOrder, QuoteInput } from "./pricing";
+
+export const PAYMENT_METHODS = [
+  "credit_card",
+  "paypal",
+  "bank_transfer",
+  "crypto",
+] as const;
+
+export type OrderAction = "process" | "ship" | "deliver" | "cancel" | "refund";
+
+/**
+ * Legal transitions of the order lifecycle:
+ *
+ *     pending → processing → shipped → delivered → refunded
+ *        └──────────┴→ cancelled
+ */
+export const ORDER_TRANSITIONS: Record<
+  OrderAction,
+  { from: OrderStatus[]; to: OrderStatus }
+> = {
+  process: { from: ["pending"], to: "processing" },
+  ship: { from: ["processing"], to: "shipped" },
+  deliver: { from: ["shipped"], to: "delivered" },
+  cancel: { from: ["pending", "processing"], to: "cancelled" },
+  refund: { from: ["delivered"], to: "refunded" },
+};
+
+const itemsRule: FieldRule = {
+  type: "array",
+  required: true,
+  minItems: 1,
+  maxItems: 50,
+  items: {
+    type: "object",
+    fields: {
+      productId: { type: "string", required: true },
+      quantity: { type: "number", required: true, integer: true, min: 1 },
+    },
+  },
+};
+
+const shippingMethodRule: FieldRule = {
+  type: "string",
+  required: true,
+  enum: Object.keys(settings.pricing.shippingMethods),
+};
+
+const orderSchema: ObjectSchema = {
+  customerId: { type: "string", required: true },
+  items: itemsRule,
+  shipping: {
+    type: "object",
+    required: true,
+    fields: {
+      address: {
+        type: "object",
+        required: true,
+        fields: {
+          street: { type: "string", required: true, minLength: 1 },
+          city: { type: "string", required: true, minLength: 1 },
+          state: { type: "string", required: true, minLength: 1 },
+          zipCode: { type: "string", required: true, minLength: 1 },
+          country: { type: "string", required: true, minLength: 1 },
+        },
+      },
+      method: shippingMethodRule,
+    },
+  },
+  payment: {
+    type: "object",
+    required: true,
+    fields: {
+      method: { type: "string", required: true, enum: PAYMENT_METHODS },
+    },
+  },
+  notes: { type: "string", maxLength: 1000 },
+};
+
+/**
+ * A quote only needs what affects the price, but accepts a complete order
+ * body so clients can quote exactly what they are about to place.
+ */
+const quoteSchema: ObjectSchema = {
+  ...orderSchema,
+  customerId: { type: "string" },
+  shipping: {
+    type: "object",
+    required: true,
+    fields: {
+      address: {
+        type: "object",
+        required: true,
+        fields: {
+          street: { type: "string" },
+          city: { type: "string" },
+          state: { type: "string" },
+          zipCode: { type: "string" },
+          country: { type: "string", required: true, minLength: 1 },
+        },
+      },
+      method: shippingMethodRule,
+    },
+  },
+  payment: {
+    type: "object",
+    fields: { method: { type: "string", enum: PAYMENT_METHODS } },
+  },
+};
+
+const transitionSchemas: Record<OrderAction, ObjectSchema> = {
+  process: { note: { type: "string", maxLength: 500 } },
+  ship: {
+    note: { type: "string", maxLength: 500 },
+    trackingNumber: { type: "string", minLength: 1, maxLength: 64 },
+  },
+  deliver: { note: { type: "string", maxLength: 500 } },
+  cancel: { reason: { type: "string", maxLength: 500 } },
+  refund: { reason: { type: "string", maxLength: 500 } },
+};
+
+export interface OrderInput {
+  customerId: string;
+  items: Array<{ productId: string; quantity: number }>;
+  shipping: {
+    address: Order["shipping"]["address"];
+    method: string;
+  };
+  payment: { method: Order["payment"]["method"] };
+  notes?: string;
+}
+
+export interface TransitionInput {
+  note?: string;
+  reason?: string;
+  trackingNumber?: string;
+}
+
+function validateProducts(items: OrderInput["items"]): FieldError[] {
+  const { products } = getDataStore();
+  const errors: FieldError[] = [];
+
+  items.forEach((item, index) => {
+    const product = products.get(item.productId);
+    if (!product) {
+      errors.push({
+        field: `items[${index}].productId`,
+        message: "does not exist",
+      });
+    } else if (!product.isActive) {
+      errors.push({
+        field: `items[${index}].productId`,
+        message: "is not available for sale",
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validates an order body, including that the customer and every product
+ * exist and that products are active.
+ */
+export function validateOrderInput(body: unknown): FieldError[] {
+  const errors = validateObject(body, orderSchema);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const input = body as OrderInput;
+  if (!getDataStore().users.get(input.customerId)) {
+    errors.push({ field: "customerId", message: "does not exist" });
+  }
+
+  return [...errors, ...validateProducts(input.items)];
+}
+
+/**
+ * Validates a quote body: the items and shipping of an order.
+ */
+export function validateQuoteInput(body: unknown): FieldError[] {
+  const errors = validateObject(body, quoteSchema);
+  return errors.length > 0
+    ? errors
+    : validateProducts((body as QuoteInput).items);
+}
+
+export function validateTransitionInput(
+  action: OrderAction,
+  body: unknown,
+): FieldError[] {
+  return validateObject(body ?? {}, transitionSchemas[action]);
+}
+
+/**
+ * Next order number in sequence: one past the highest stored `ORD-` number,
+ * so it never repeats one in the store.
+ */
+function generateOrderNumber(): string {
+  let highest = 100000;
+  for (const order of getDataStore().orders.list()) {
+    const number = Number(/^ORD-(\d+)$/.exec(order.orderNumber)?.[1]);
+    if (number > highest) {
+      highest = number;
+    }
+  }
+  return `ORD-${highest + 1}`;
+}
+
+/**
+ * Random 12-character tracking number not used by any stored order.
+ */
+function generateTrackingNumber(): string {
+  const { orders } = getDataStore();
+  let trackingNumber: string;
+  do {
+    trackingNumber = uuidv4().replace(/-/g, "").slice(0, 12).toUpperCase();
+  } while (
+    orders.find((order) => order.shipping.trackingNumber === trackingNumber)
+      .length > 0
+  );
+  return trackingNumber;
+}
+
+/**
+ * Creates a pending order from validated input and reserves its stock.
+ * Prices and totals come from the pricing engine at the current product
+ * prices. Callers check `findStockShortages` first.
+ */
+export function createOrder(input: OrderInput): Order {
+  const store = getDataStore();
+  const now = new Date();
+  const quote = quoteOrder(input, now);
+
+  const order: Order = {
+    id: uuidv4(),
+    orderNumber: generateOrderNumber(),
+    customerId: input.customerId,
+    status: "pending",
+    statusHistory: [{ status: "pending", changedAt: now.toISOString() }],
+    items: quote.items.map((item) => ({
+      productId: item.productId,
+      productName: item.productName,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      sku: item.sku,
+    })),
+    shipping: {
+      address: { ...input.shipping.address },
+      method: input.shipping.method,
+      cost: quote.shipping.cost,
+      estimatedDelivery: quote.shipping.estimatedDelivery,
+    },
+    payment: {
+      method: input.payment.method,
+      status: "pending",
+      transactionId: uuidv4(),
+      amount: quote.totals.total,
+      currency: quote.currency,
+    },
+    totals: quote.totals,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ...(input.notes && { notes: input.notes }),
+  };
+
+  const created = store.orders.create(order);
+  reserveStock(created.items);
+  return created;
+}
+
+export function canTransition(order: Order, action: OrderAction): boolean {
+  return ORDER_TRANSITIONS[action].from.includes(order.status);
+}
+
+/**
+ * Payment status implied by an order status. Cancelling an order whose
+ * payment was never captured voids the payment, which is reported as
+ * `failed`; cancelling a captured payment refunds it.
+ */
+function paymentStatusFor(order: Order, status: OrderStatus): PaymentStatus {
+  switch (status) {
+    case "pending":
+      return "pending";
+    case "cancelled":
+      return order.payment.status === "completed" ? "refunded" : "failed";
+    case "refunded":
+      return "refunded";
+    default:
+      return "completed";
+  }
+}
+
+/**
+ * Moves an order along the lifecycle, keeping the payment status and the
+ * reserved stock in sync and appending to the status history. Callers check
+ * `canTransition` first.
+ */
+export function transitionOrder(
+  order: Order,
+  action: OrderAction,
+  input: TransitionInput = {},
+): Order {
+  const status = ORDER_TRANSITIONS[action].to;
+  const now = new Date().toISOString();
+  const note = input.note ?? input.reason;
+
+  const shipping =
+    action === "ship"
+      ? {
+          ...order.shipping,
+          trackingNumber:
+            input.trackingNumber ||
+            order.shipping.trackingNumber ||
+            generateTrackingNumber(),
+        }
+      : order.shipping;
+
+  if (action === "cancel") {
+    releaseStock(order.items);
+  } else if (action === "ship") {
+    commitStock(order.items);
+  }
+
+  return getDataStore().orders.update(order.id, {
+    status,
+    statusHistory: [
+      ...order.statusHistory,
+      { status, changedAt: now, ...(note && { note }) },
+    ],
+    shipping,
+    payment: { ...order.payment, status: paymentStatusFor(order, status) },
+    updatedAt: now,
+  })!;
+}
@@ -0,0 +1,117 @@
+import { Product } from "../types";
+import { DataGenerator } from "../utils/dataGenerator";
+import { findTaxRate, priceOrder } from "./pricing";
+
+function product(price: Product["price"]): Product {
+  return { ...DataGenerator.generateProduct(), name: "Lamp", price };
+}
+
+const now = new Date("2024-03-10T12:00:00Z");
+
+describe("findTaxRate", () => {
+  it("prefers a state rate over the country rate", () => {
+    expect(findTaxRate({ country: "US", state: "CA" }).rate).toBe(0.0725);
+    expect(findTaxRate({ country: "US", state: "OR" }).rate).toBe(0);
+  });
+
+  it("matches country aliases case-insensitively", () => {
+    expect(findTaxRate({ country: "germany" })).toEqual({
+      rate: 0.19,
+      country: "DE",
+    });
+  });
+
+  it("falls back to the default rate", () => {
+    expect(findTaxRate({ country: "Atlantis" })).toEqual({ rate: 0.08 });
+  });
+});
+
+describe("priceOrder", () => {
+  it("prices lines at list price and sums the product discounts", () => {
+    const quote = priceOrder(
+      [
+        {
+          product: product({
+            amount: 18,
+            currency: "USD",
+            originalPrice: 20,
+            discountPercentage: 10,
+          }),
+          quantity: 3,
+        },
+        { product: product({ amount: 12.5, currency: "USD" }), quantity: 2 },
+      ],
+      { address: { country: "DE" }, method: "ground" },
+      now,
+    );
+
+    expect(
+      quote.items.map(({ unitPrice, discount, totalPrice }) => ({
+        unitPrice,
+        discount,
+        totalPrice,
+      })),
+    ).toEqual([
+      { unitPrice: 20, discount: 6, totalPrice: 60 },
+      { unitPrice: 12.5, discount: 0, totalPrice: 25 },
+    ]);
+    expect(quote.totals).toEqual({
+      subtotal: 85,
+      discount: 6,
+      shipping: 8,
+      // 19% of the discounted subtotal of 79
+      tax: 15.01,
+      total: 102.01,
+    });
+    expect(quote.currency).toBe("USD");
+    expect(quote.shipping).toEqual({
+      method: "ground",
+      cost: 8,
+      estimatedDelivery: "2024-03-17T12:00:00.000Z",
+      freeShippingApplied: false,
+    });
+  });
+
+  it("ships for free once the discounted subtotal reaches the threshold", () => {
+    const lines = [
+      {
+        product: product({
+          amount: 90,
+          currency: "USD",
+          originalPrice: 100,
+          discountPercentage: 10,
+        }),
+        quantity: 1,
+      },
+    ];
+    const address = { country: "US", state: "NY" };
+
+    const below = priceOrder(lines, { address, method: "standard" }, now);
+    const above = priceOrder(
+      [{ ...lines[0]!, quantity: 2 }],
+      { address, method: "standard" },
+      now,
+    );
+
+    expect(below.totals.shipping).toBe(5);
+    expect(below.shipping.freeShippingApplied).toBe(false);
+    expect(above.totals.shipping).toBe(0);
+    expect(above.shipping.freeShippingApplied).toBe(true);
+  });
+
+  it("rounds every amount to cents", () => {
+    const quote = priceOrder(
+      [{ product: product({ amount: 9.99, currency: "USD" }), quantity: 3 }],
+      { address: { country: "US", state: "CA" }, method: "express" },
+      now,
+    );
+
+    expect(quote.totals).toEqual({
+      subtotal: 29.97,
+      discount: 0,
+      shipping: 15,
+      tax: 2.17,
+      total: 47.14,
+    });
+  });
+});
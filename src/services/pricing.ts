@@ -0,0 +1,201 @@
+import { settings } from "../config/settings";
+import { Order, Product, ShippingMethodConfig, TaxRate } from "../types";
+import { getDataStore } from "./dataStore";
+
+export interface QuoteInput {
+  items: Array<{ productId: string; quantity: number }>;
+  shipping: {
+    address: { country: string; state?: string };
+    method: string;
+  };
+}
+
+export interface QuoteLine {
+  productId: string;
+  productName: string;
+  sku: string;
+  quantity: number;
+  /** List price before the product discount */
+  unitPrice: number;
+  discountPercentage: number;
+  /** Discount on the whole line */
+  discount: number;
+  /** `unitPrice * quantity`, before the discount */
+  totalPrice: number;
+}
+
+export interface Quote {
+  items: QuoteLine[];
+  totals: Order["totals"];
+  currency: string;
+  tax: {
+    rate: number;
+    country?: string;
+    state?: string;
+  };
+  shipping: {
+    method: string;
+    cost: number;
+    estimatedDelivery: string;
+    freeShippingApplied: boolean;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function getShippingMethod(
+  method: string,
+): ShippingMethodConfig | undefined {
+  return Object.prototype.hasOwnProperty.call(
+    settings.pricing.shippingMethods,
+    method,
+  )
+    ? settings.pricing.shippingMethods[method]
+    : undefined;
+}
+
+function matchesCountry(rate: TaxRate, country: string): boolean {
+  const normalized = country.trim().toLowerCase();
+  return [rate.country, ...(rate.aliases || [])].some(
+    (name) => name.toLowerCase() === normalized,
+  );
+}
+
+/**
+ * Finds the tax rate for an address. A rate for the address's state wins
+ * over the country-wide rate; without either, `defaultTaxRate` applies.
+ */
+export function findTaxRate(
+  address: QuoteInput["shipping"]["address"],
+): Quote["tax"] {
+  const { taxRates, defaultTaxRate } = settings.pricing;
+  const countryRates = taxRates.filter((rate) =>
+    matchesCountry(rate, address.country),
+  );
+  const countryCode = countryRates[0]?.country;
+  // Country aliases are only listed on the country-wide rate, so state
+  // rates are matched by the country code of the rates found above
+  const stateRate = taxRates.find(
+    (rate) =>
+      rate.state !== undefined &&
+      rate.country === countryCode &&
+      rate.state.toLowerCase() === (address.state || "").trim().toLowerCase(),
+  );
+  const countryRate = countryRates.find((rate) => rate.state === undefined);
+
+  if (stateRate) {
+    return {
+      rate: stateRate.rate,
+      country: stateRate.country,
+      state: stateRate.state!,
+    };
+  }
+  if (countryRate) {
+    return { rate: countryRate.rate, country: countryRate.country };
+  }
+  return { rate: defaultTaxRate };
+}
+
+/**
+ * Prices a single line. `Product.price.amount` already has the product
+ * discount applied, so the list price is `originalPrice` when present.
+ */
+function priceLine(product: Product, quantity: number): QuoteLine {
+  const discountPercentage = product.price.discountPercentage || 0;
+  const unitPrice = product.price.originalPrice ?? product.price.amount;
+  const totalPrice = roundAmount(unitPrice * quantity);
+
+  return {
+    productId: product.id,
+    productName: product.name,
+    // Products carry no SKU, so derive a stable one from the product id
+    sku: product.id.slice(0, 8).toUpperCase(),
+    quantity,
+    unitPrice,
+    discountPercentage,
+    discount: roundAmount((totalPrice * discountPercentage) / 100),
+    totalPrice,
+  };
+}
+
+/**
+ * Computes line prices and order totals:
+ *
+ * - `subtotal` is the sum of `unitPrice * quantity` at list prices;
+ * - `discount` is the sum of the product discounts;
+ * - `shipping` is the method's cost, or 0 once the discounted subtotal
+ *   reaches the method's free-shipping threshold;
+ * - `tax` applies the address's rate to the discounted subtotal (plus
+ *   shipping when `taxShipping` is set);
+ * - `total` is `subtotal - discount + shipping + tax`.
+ *
+ * Items and the shipping method must have been validated beforehand.
+ */
+export function quoteOrder(input: QuoteInput, now = new Date()): Quote {
+  const { products } = getDataStore();
+  return priceOrder(
+    input.items.map((item) => ({
+      product: products.get(item.productId)!,
+      quantity: item.quantity,
+    })),
+    input.shipping,
+    now,
+  );
+}
+
+/**
+ * Prices already resolved products; see `quoteOrder`. Also used while
+ * seeding, before the data store is available.
+ */
+export function priceOrder(
+  lines: Array<{ product: Product; quantity: number }>,
+  shippingInput: QuoteInput["shipping"],
+  now = new Date(),
+): Quote {
+  const method = getShippingMethod(shippingInput.method)!;
+  const items = lines.map((line) => priceLine(line.product, line.quantity));
+
+  const subtotal = roundAmount(
+    items.reduce((sum, item) => sum + item.totalPrice, 0),
+  );
+  const discount = roundAmount(
+    items.reduce((sum, item) => sum + item.discount, 0),
+  );
+  const discounted = roundAmount(subtotal - discount);
+
+  const freeShippingApplied =
+    method.freeShippingThreshold !== undefined &&
+    discounted >= method.freeShippingThreshold;
+  const shipping = freeShippingApplied ? 0 : method.cost;
+
+  const tax = findTaxRate(shippingInput.address);
+  const taxable = settings.pricing.taxShipping
+    ? discounted + shipping
+    : discounted;
+  const taxAmount = roundAmount(taxable * tax.rate);
+
+  return {
+    items,
+    totals: {
+      subtotal,
+      tax: taxAmount,
+      shipping,
+      discount,
+      total: roundAmount(discounted + shipping + taxAmount),
+    },
+    currency: settings.general.currency,
+    tax,
+    shipping: {
+      method: shippingInput.method,
+      cost: shipping,
+      estimatedDelivery: new Date(
+        now.getTime() + method.days * DAY_MS,
+      ).toISOString(),
+      freeShippingApplied,
+    },
+  };
+}
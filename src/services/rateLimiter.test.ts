@@ -0,0 +1,110 @@
+import { RateLimitConfig } from "../types";
+import {
+  getRateLimiter,
+  SlidingWindowLimiter,
+  TokenBucketLimiter,
+} from "./rateLimiter";
+
+const MINUTE = 60_000;
+
+function config(overrides: Partial<RateLimitConfig> = {}): RateLimitConfig {
+  return {
+    enabled: true,
+    requestsPerMinute: 3,
+    burstLimit: 2,
+    strategy: "sliding-window",
+    ...overrides,
+  };
+}
+
+describe("SlidingWindowLimiter", () => {
+  it("allows requestsPerMinute requests per window and then blocks", () => {
+    const limiter = new SlidingWindowLimiter();
+    const start = 10 * MINUTE;
+
+    const results = [0, 1, 2, 3].map((i) =>
+      limiter.consume("key", config(), start + i),
+    );
+
+    expect(results.map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]!.retryAfterMs).toBe(MINUTE - 3);
+  });
+
+  it("weights the previous window by how much of it still overlaps", () => {
+    const limiter = new SlidingWindowLimiter();
+    const start = 10 * MINUTE;
+    for (let i = 0; i < 3; i++) {
+      limiter.consume("key", config(), start + i);
+    }
+
+    // A sixth into the next window, 2.5 of the old requests still count
+    const blockedAt = start + MINUTE + 10_000;
+    const blocked = limiter.consume("key", config(), blockedAt);
+    // A third into it only 2 do, which leaves room for one more
+    const retried = limiter.consume(
+      "key",
+      config(),
+      blockedAt + blocked.retryAfterMs,
+    );
+
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterMs).toBeCloseTo(10_000, -1);
+    expect(retried.allowed).toBe(true);
+  });
+
+  it("tracks each id on its own", () => {
+    const limiter = new SlidingWindowLimiter();
+    const limit = config({ requestsPerMinute: 1 });
+
+    expect(limiter.consume("a", limit, 0).allowed).toBe(true);
+    expect(limiter.consume("b", limit, 0).allowed).toBe(true);
+    expect(limiter.consume("a", limit, 1).allowed).toBe(false);
+  });
+});
+
+describe("TokenBucketLimiter", () => {
+  it("allows a burst of burstLimit requests", () => {
+    const limiter = new TokenBucketLimiter();
+    const limit = config({ strategy: "token-bucket" });
+
+    const results = [0, 0, 0].map((now) => limiter.consume("key", limit, now));
+
+    expect(results.map((result) => result.allowed)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    expect(results[0]!.limit).toBe(2);
+    // One token refills every 20 seconds at 3 per minute
+    expect(results[2]!.retryAfterMs).toBe(20_000);
+  });
+
+  it("refills at requestsPerMinute up to the burst limit", () => {
+    const limiter = new TokenBucketLimiter();
+    const limit = config({ strategy: "token-bucket" });
+    limiter.consume("key", limit, 0);
+    limiter.consume("key", limit, 0);
+
+    expect(limiter.consume("key", limit, 30_000).allowed).toBe(true);
+    expect(limiter.consume("key", limit, 30_000).allowed).toBe(false);
+
+    const refilled = limiter.consume("key", limit, 10 * MINUTE);
+    expect(refilled.allowed).toBe(true);
+    expect(refilled.remaining).toBe(1);
+  });
+});
+
+describe("getRateLimiter", () => {
+  it("returns the limiter for each strategy", () => {
+    expect(getRateLimiter("sliding-window")).toBeInstanceOf(
+      SlidingWindowLimiter,
+    );
+    expect(getRateLimiter("token-bucket")).toBeInstanceOf(TokenBucketLimiter);
+  });
+});
@@ -0,0 +1,153 @@
+import { RateLimitConfig, RateLimitStrategy } from "../types";
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the limit is fully replenished */
+  resetMs: number;
+  /** Milliseconds until the next request would be allowed (0 if allowed) */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  consume(id: string, config: RateLimitConfig, now?: number): RateLimitResult;
+}
+
+interface WindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Sliding window counter: the count for the rolling minute is estimated
+ * from the current fixed window plus the overlapping share of the previous
+ * one. Limits to `requestsPerMinute`.
+ */
+export class SlidingWindowLimiter implements RateLimiter {
+  private readonly windows = new Map<string, WindowState>();
+
+  consume(
+    id: string,
+    config: RateLimitConfig,
+    now = Date.now(),
+  ): RateLimitResult {
+    const limit = config.requestsPerMinute;
+    const windowStart = Math.floor(now / WINDOW_MS) * WINDOW_MS;
+    let state = this.windows.get(id);
+
+    if (!state || state.windowStart !== windowStart) {
+      const previous =
+        state && state.windowStart === windowStart - WINDOW_MS
+          ? state.current
+          : 0;
+      state = { windowStart, current: 0, previous };
+      this.windows.set(id, state);
+    }
+
+    const elapsed = now - windowStart;
+    const previousWeight = 1 - elapsed / WINDOW_MS;
+    const estimated = state.previous * previousWeight + state.current;
+    const resetMs = WINDOW_MS - elapsed;
+
+    if (estimated + 1 > limit) {
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetMs,
+        retryAfterMs: this.retryAfter(state, limit, elapsed),
+      };
+    }
+
+    state.current += 1;
+    return {
+      allowed: true,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimated - 1)),
+      resetMs,
+      retryAfterMs: 0,
+    };
+  }
+
+  private retryAfter(
+    state: WindowState,
+    limit: number,
+    elapsed: number,
+  ): number {
+    // Blocked by the current window alone: wait for the window to roll over
+    if (state.current + 1 > limit || state.previous === 0) {
+      return WINDOW_MS - elapsed;
+    }
+
+    // Otherwise wait until enough of the previous window has slid out
+    const allowedWeight = (limit - state.current - 1) / state.previous;
+    const allowedAt = WINDOW_MS * (1 - allowedWeight);
+    return Math.max(1, Math.ceil(allowedAt - elapsed));
+  }
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket: holds up to `burstLimit` tokens and refills at
+ * `requestsPerMinute` tokens per minute; each request takes one token.
+ */
+export class TokenBucketLimiter implements RateLimiter {
+  private readonly buckets = new Map<string, BucketState>();
+
+  consume(
+    id: string,
+    config: RateLimitConfig,
+    now = Date.now(),
+  ): RateLimitResult {
+    const capacity = config.burstLimit;
+    const refillPerMs = config.requestsPerMinute / WINDOW_MS;
+    const bucket = this.buckets.get(id) || { tokens: capacity, updatedAt: now };
+
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(id, bucket);
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        limit: capacity,
+        remaining: 0,
+        resetMs: Math.ceil((capacity - bucket.tokens) / refillPerMs),
+        retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs),
+      };
+    }
+
+    bucket.tokens -= 1;
+    return {
+      allowed: true,
+      limit: capacity,
+      remaining: Math.floor(bucket.tokens),
+      resetMs: Math.ceil((capacity - bucket.tokens) / refillPerMs),
+      retryAfterMs: 0,
+    };
+  }
+}
+
+const limiters: Record<RateLimitStrategy, RateLimiter> = {
+  "sliding-window": new SlidingWindowLimiter(),
+  "token-bucket": new TokenBucketLimiter(),
+};
+
+export function getRateLimiter(strategy: RateLimitStrategy): RateLimiter {
+  const limiter = limiters[strategy];
+  if (!limiter) {
+    throw new Error(`Unknown rate limiting strategy '${strategy}'`);
+  }
+  return limiter;
+}
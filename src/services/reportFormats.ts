@@ -0,0 +1,141 @@
+import { Readable } from "stream";
+import { CellValue, createWorkbook } from "../utils/xlsx";
+import { Report, ReportFormat, ReportRow } from "./reports";
+
+/** Media type and file extension per report format */
+export const REPORT_MEDIA_TYPES: Record<
+  ReportFormat,
+  { mediaType: string; extension: string }
+> = {
+  json: { mediaType: "application/json", extension: "json" },
+  csv: { mediaType: "text/csv", extension: "csv" },
+  ndjson: { mediaType: "application/x-ndjson", extension: "ndjson" },
+  xlsx: {
+    mediaType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+};
+
+type FlatValue = string | number | boolean | null;
+
+/**
+ * Flattens nested objects into dotted keys, e.g. `{ price: { amount } }`
+ * into `price.amount`. Arrays of plain values are joined with `; `, other
+ * arrays are kept as JSON.
+ */
+export function flattenRow(
+  row: ReportRow,
+  prefix = "",
+  flat: Record<string, FlatValue> = {},
+): Record<string, FlatValue> {
+  for (const [key, value] of Object.entries(row)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(value)) {
+      flat[path] = value.every((item) => typeof item !== "object")
+        ? value.join("; ")
+        : JSON.stringify(value);
+    } else if (typeof value === "object" && value !== null) {
+      flattenRow(value as ReportRow, path, flat);
+    } else if (value !== undefined) {
+      flat[path] = value as FlatValue;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Header and cell values of the report rows. Columns are the flattened
+ * keys of all rows, in order of first appearance.
+ */
+function tabulate(report: Report): {
+  columns: string[];
+  rows: FlatValue[][];
+} {
+  const flatRows = report.data.map((row) => flattenRow(row));
+  const columns = Array.from(
+    new Set(flatRows.flatMap((row) => Object.keys(row))),
+  );
+  return {
+    columns,
+    rows: flatRows.map((row) => columns.map((column) => row[column] ?? null)),
+  };
+}
+
+/**
+ * Quotes a CSV field when needed (RFC 4180). Text starting with `=`, `+`,
+ * `-` or `@` is prefixed with `'` so spreadsheets do not run it as a
+ * formula.
+ */
+function csvField(value: FlatValue): string {
+  if (value === null) {
+    return "";
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The report rows as CSV with a header row, CRLF line endings as in
+ * RFC 4180.
+ */
+export function toCsv(report: Report): string {
+  const { columns, rows } = tabulate(report);
+  return [columns, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+/**
+ * The report rows as newline-delimited JSON, one row per line, streamed
+ * row by row.
+ */
+export function toNdjson(report: Report): Readable {
+  return Readable.from(
+    (function* () {
+      for (const row of report.data) {
+        yield `${JSON.stringify(row)}\n`;
+      }
+    })(),
+  );
+}
+
+/**
+ * The report as a workbook with the flattened rows on a `Data` sheet and
+ * the report details and summary on a `Summary` sheet.
+ */
+export function toXlsx(report: Report): Buffer {
+  const { columns, rows } = tabulate(report);
+  const summary = flattenRow(report.summary);
+
+  return createWorkbook([
+    { name: "Data", rows: [columns, ...rows] },
+    {
+      name: "Summary",
+      rows: [
+        ["Report", report.type],
+        ["Report ID", report.reportId],
+        ["Start date", report.period.startDate],
+        ["End date", report.period.endDate],
+        ["Currency", report.currency],
+        ["Generated at", report.generatedAt],
+        [],
+        ...Object.entries(summary).map(([key, value]): CellValue[] => [
+          key,
+          value,
+        ]),
+      ],
+    },
+  ]);
+}
+
+/**
+ * File name the report is downloaded as, e.g. `sales-report-3f6c2a9e.csv`.
+ */
+export function reportFilename(report: Report, format: ReportFormat): string {
+  return `${report.type}-report-${report.reportId.slice(0, 8)}.${REPORT_MEDIA_TYPES[format].extension}`;
+}
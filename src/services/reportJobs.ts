@@ -0,0 +1,180 @@
+import { v4 as uuidv4 } from "uuid";
+import { settings } from "../config/settings";
+import { ReportJobsConfig } from "../types";
+import { getHealthRegistry } from "./health";
+import { GeneratedReport, generateReport, ReportParams } from "./reports";
+
+export type ReportJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface ReportJob {
+  id: string;
+  /** Owner of the API key that requested the report */
+  ownerId: string;
+  params: ReportParams;
+  status: ReportJobStatus;
+  /** Percentage of the report generated, 0–100 */
+  progress: number;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** When a finished job and its output are discarded */
+  expiresAt?: string;
+  error?: string;
+  result?: GeneratedReport;
+  /** The report schedule that queued the job, if any */
+  scheduleId?: string;
+}
+
+export interface EnqueueOptions {
+  /** How long to keep the finished job instead of the configured TTL */
+  ttlSeconds?: number;
+  scheduleId?: string;
+  /** Called once the job completed or failed */
+  onFinished?: (job: ReportJob) => void;
+}
+
+/**
+ * In-process queue of report jobs. At most `concurrency` jobs run at once,
+ * the rest wait in order of submission. Finished jobs are kept for
+ * `ttlSeconds` and discarded the next time the queue is accessed.
+ */
+export class ReportJobQueue {
+  private readonly jobs = new Map<string, ReportJob>();
+  private readonly waiting: string[] = [];
+  private readonly options = new Map<string, EnqueueOptions>();
+  private running = 0;
+
+  constructor(private readonly config: ReportJobsConfig) {}
+
+  /**
+   * Queues a report, to be started as soon as a slot is free. Returns
+   * undefined, without queueing, when `maxQueued` jobs are already waiting.
+   */
+  enqueue(
+    params: ReportParams,
+    ownerId: string,
+    options: EnqueueOptions = {},
+    now = Date.now(),
+  ): ReportJob | undefined {
+    this.expire(now);
+    if (this.waiting.length >= this.config.maxQueued) {
+      return undefined;
+    }
+
+    const job: ReportJob = {
+      id: uuidv4(),
+      ownerId,
+      params,
+      status: "queued",
+      progress: 0,
+      createdAt: new Date(now).toISOString(),
+      ...(options.scheduleId && { scheduleId: options.scheduleId }),
+    };
+    this.jobs.set(job.id, job);
+    this.options.set(job.id, options);
+    this.waiting.push(job.id);
+    // Start after the caller had a chance to respond with the queued job
+    setImmediate(() => this.startWaiting());
+    return job;
+  }
+
+  get(id: string, now = Date.now()): ReportJob | undefined {
+    this.expire(now);
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Number of jobs ahead of a queued job, or undefined once it started.
+   */
+  position(id: string): number | undefined {
+    const index = this.waiting.indexOf(id);
+    return index === -1 ? undefined : index;
+  }
+
+  /** Jobs running and waiting, against the configured limits */
+  stats(): {
+    running: number;
+    queued: number;
+    concurrency: number;
+    maxQueued: number;
+  } {
+    return {
+      running: this.running,
+      queued: this.waiting.length,
+      concurrency: this.config.concurrency,
+      maxQueued: this.config.maxQueued,
+    };
+  }
+
+  private startWaiting(): void {
+    while (this.running < this.config.concurrency && this.waiting.length > 0) {
+      const job = this.jobs.get(this.waiting.shift()!);
+      if (job) {
+        this.running += 1;
+        void this.run(job).finally(() => {
+          this.running -= 1;
+          this.startWaiting();
+        });
+      }
+    }
+  }
+
+  private async run(job: ReportJob): Promise<void> {
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+
+    try {
+      job.result = await generateReport(
+        job.params,
+        job.id,
+        (completed, total) => {
+          // 100 is reserved for the finished report
+          job.progress = Math.min(99, Math.floor((completed / total) * 100));
+        },
+      );
+      job.status = "completed";
+      job.progress = 100;
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    const options = this.options.get(job.id) || {};
+    this.options.delete(job.id);
+    const completedAt = Date.now();
+    job.completedAt = new Date(completedAt).toISOString();
+    job.expiresAt = new Date(
+      completedAt + (options.ttlSeconds ?? this.config.ttlSeconds) * 1000,
+    ).toISOString();
+    options.onFinished?.(job);
+  }
+
+  private expire(now: number): void {
+    for (const [id, job] of this.jobs) {
+      if (job.expiresAt && Date.parse(job.expiresAt) <= now) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+let queue: ReportJobQueue | undefined;
+
+export function getReportJobQueue(): ReportJobQueue {
+  if (!queue) {
+    queue = new ReportJobQueue(settings.reports.jobs);
+  }
+  return queue;
+}
+
+// New reports are rejected while the queue is full
+getHealthRegistry().register({
+  name: "report-queue",
+  check() {
+    const stats = getReportJobQueue().stats();
+    return {
+      status: stats.queued >= stats.maxQueued ? "degraded" : "healthy",
+      details: stats,
+    };
+  },
+});
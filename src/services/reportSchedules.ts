@@ -0,0 +1,397 @@
+import { v4 as uuidv4 } from "uuid";
+import { settings } from "../config/settings";
+import { FieldError, ReportSchedulesConfig } from "../types";
+import { CronExpression, nextCronRun, parseCron } from "../utils/cron";
+import { DAY_MS, formatDate } from "../utils/dates";
+import { ObjectSchema, validateObject } from "../utils/validation";
+import { createNotification } from "./notifications";
+import { getReportJobQueue, ReportJob } from "./reportJobs";
+import {
+  REPORT_FORMATS,
+  REPORT_GROUPINGS,
+  REPORT_TYPES,
+  ReportFormat,
+  ReportGrouping,
+  ReportParams,
+  ReportType,
+} from "./reports";
+
+export type ReportScheduleStatus = "active" | "paused";
+
+export interface ReportSchedule {
+  id: string;
+  /** Owner of the API key that created the schedule */
+  ownerId: string;
+  name: string;
+  /** Five-field cron expression, evaluated in UTC */
+  cron: string;
+  type: ReportType;
+  /** Date range of each run, e.g. `previous_7_days`; see `resolveDateRange` */
+  range: string;
+  groupBy?: ReportGrouping;
+  format: ReportFormat;
+  /** Currency to convert amounts to; the default currency when unset */
+  currency?: string;
+  status: ReportScheduleStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Unset while paused */
+  nextRunAt?: string;
+  lastRunAt?: string;
+  /** Report job of the last run, downloadable until it expires */
+  lastReportId?: string;
+  lastRunStatus?: "queued" | "completed" | "failed" | "skipped";
+  lastError?: string;
+  runCount: number;
+}
+
+export interface ReportScheduleInput {
+  name?: string;
+  cron: string;
+  type: ReportType;
+  range: string;
+  groupBy?: ReportGrouping;
+  format?: ReportFormat;
+  currency?: string;
+}
+
+/** Longest the scheduler sleeps before checking again; below the setTimeout limit */
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+const PREVIOUS_DAYS = /^previous_(\d{1,3})_days$/;
+
+const RANGE_RULES = [
+  "previous_<N>_days",
+  "previous_week",
+  "previous_month",
+  "week_to_date",
+  "month_to_date",
+];
+
+/**
+ * Report dates of a range rule at `now` (UTC):
+ * - `previous_<N>_days`: the N full days up to and including yesterday
+ * - `previous_week`: Monday to Sunday of last week
+ * - `previous_month`: the whole of last month
+ * - `week_to_date`, `month_to_date`: from the start of the current week or
+ *   month up to and including today
+ *
+ * Returns undefined for unknown rules.
+ */
+export function resolveDateRange(
+  rule: string,
+  now: Date,
+): { startDate: string; endDate: string } | undefined {
+  const today = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+  // Days since Monday
+  const weekday = (now.getUTCDay() + 6) % 7;
+  const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+
+  const days = PREVIOUS_DAYS.exec(rule)?.[1];
+  if (days !== undefined) {
+    const count = Number(days);
+    if (count < 1 || count > 366) {
+      return undefined;
+    }
+    return {
+      startDate: formatDate(today - count * DAY_MS),
+      endDate: formatDate(today - DAY_MS),
+    };
+  }
+
+  switch (rule) {
+    case "previous_week":
+      return {
+        startDate: formatDate(today - (weekday + 7) * DAY_MS),
+        endDate: formatDate(today - (weekday + 1) * DAY_MS),
+      };
+    case "previous_month":
+      return {
+        startDate: formatDate(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1),
+        ),
+        endDate: formatDate(monthStart - DAY_MS),
+      };
+    case "week_to_date":
+      return {
+        startDate: formatDate(today - weekday * DAY_MS),
+        endDate: formatDate(today),
+      };
+    case "month_to_date":
+      return { startDate: formatDate(monthStart), endDate: formatDate(today) };
+    default:
+      return undefined;
+  }
+}
+
+const scheduleSchema: ObjectSchema = {
+  name: { type: "string", minLength: 1, maxLength: 100 },
+  cron: { type: "string", required: true, maxLength: 100 },
+  type: { type: "string", required: true, enum: REPORT_TYPES },
+  range: { type: "string", required: true, maxLength: 50 },
+  groupBy: { type: "string", enum: REPORT_GROUPINGS },
+  format: { type: "string", enum: REPORT_FORMATS },
+};
+
+/**
+ * Validates the body of `POST /api/reports/schedules`: the field rules,
+ * that the cron expression parses and ever runs, and that the range rule
+ * is known.
+ */
+export function validateScheduleInput(input: unknown): FieldError[] {
+  const errors = validateObject(input, scheduleSchema);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const { cron, range } = input as ReportScheduleInput;
+  const parsed = parseCron(cron);
+  if (typeof parsed === "string") {
+    errors.push({ field: "cron", message: parsed });
+  } else if (!nextCronRun(parsed, new Date())) {
+    errors.push({ field: "cron", message: "never runs" });
+  }
+  if (!resolveDateRange(range, new Date())) {
+    errors.push({
+      field: "range",
+      message: `must be one of: ${RANGE_RULES.join(", ")} (N from 1 to 366)`,
+    });
+  }
+  return errors;
+}
+
+/**
+ * Keeps recurring report definitions and runs them in-process. A single
+ * timer wakes up at the earliest `nextRunAt`; due schedules queue a report
+ * job through the report job queue, and the owner is notified once it
+ * completed or failed. Runs missed while the process was busy or asleep
+ * are run once, not caught up one by one.
+ */
+export class ReportScheduler {
+  private readonly schedules = new Map<string, ReportSchedule>();
+  private readonly crons = new Map<string, CronExpression>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly config: ReportSchedulesConfig) {}
+
+  /**
+   * Adds an active schedule. Returns undefined, without adding it, when the
+   * owner already has `maxPerOwner` schedules.
+   */
+  create(
+    input: ReportScheduleInput,
+    ownerId: string,
+    now = new Date(),
+  ): ReportSchedule | undefined {
+    if (this.list(ownerId).length >= this.config.maxPerOwner) {
+      return undefined;
+    }
+
+    const cron = parseCron(input.cron) as CronExpression;
+    const timestamp = now.toISOString();
+    const schedule: ReportSchedule = {
+      id: uuidv4(),
+      ownerId,
+      name: input.name || `${input.type} report (${input.range})`,
+      cron: cron.source,
+      type: input.type,
+      range: input.range,
+      ...(input.groupBy && { groupBy: input.groupBy }),
+      format: input.format || "json",
+      ...(input.currency && { currency: input.currency }),
+      status: "active",
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      runCount: 0,
+    };
+    this.crons.set(schedule.id, cron);
+    this.schedules.set(schedule.id, schedule);
+    this.planNext(schedule, now);
+    this.arm();
+    return schedule;
+  }
+
+  get(id: string): ReportSchedule | undefined {
+    return this.schedules.get(id);
+  }
+
+  list(ownerId: string): ReportSchedule[] {
+    return Array.from(this.schedules.values()).filter(
+      (schedule) => schedule.ownerId === ownerId,
+    );
+  }
+
+  pause(schedule: ReportSchedule, now = new Date()): ReportSchedule {
+    if (schedule.status === "paused") {
+      return schedule;
+    }
+    schedule.status = "paused";
+    delete schedule.nextRunAt;
+    schedule.updatedAt = now.toISOString();
+    this.arm();
+    return schedule;
+  }
+
+  /** Resumes a paused schedule from its next run after `now` */
+  resume(schedule: ReportSchedule, now = new Date()): ReportSchedule {
+    if (schedule.status === "active") {
+      return schedule;
+    }
+    schedule.status = "active";
+    schedule.updatedAt = now.toISOString();
+    this.planNext(schedule, now);
+    this.arm();
+    return schedule;
+  }
+
+  /** Removes the schedule; reports it already generated stay downloadable */
+  delete(id: string): boolean {
+    const deleted = this.schedules.delete(id);
+    this.crons.delete(id);
+    this.arm();
+    return deleted;
+  }
+
+  /**
+   * Runs every active schedule whose `nextRunAt` has passed and returns
+   * the queued jobs.
+   */
+  runDue(now = new Date()): ReportJob[] {
+    const jobs: ReportJob[] = [];
+    for (const schedule of this.schedules.values()) {
+      if (
+        schedule.status === "active" &&
+        schedule.nextRunAt &&
+        Date.parse(schedule.nextRunAt) <= now.getTime()
+      ) {
+        const job = this.run(schedule, now);
+        if (job) {
+          jobs.push(job);
+        }
+        this.planNext(schedule, now);
+      }
+    }
+    this.arm();
+    return jobs;
+  }
+
+  private planNext(schedule: ReportSchedule, now: Date): void {
+    const cron = this.crons.get(schedule.id);
+    const next = cron && nextCronRun(cron, now);
+    if (next) {
+      schedule.nextRunAt = next.toISOString();
+    } else {
+      delete schedule.nextRunAt;
+    }
+  }
+
+  /** (Re)sets the timer to the earliest run of an active schedule */
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    let earliest = Infinity;
+    for (const schedule of this.schedules.values()) {
+      if (schedule.status === "active" && schedule.nextRunAt) {
+        earliest = Math.min(earliest, Date.parse(schedule.nextRunAt));
+      }
+    }
+    if (earliest === Infinity) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(earliest - Date.now(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.runDue();
+    }, delay);
+    // Schedules alone do not keep the process alive
+    this.timer.unref();
+  }
+
+  private run(schedule: ReportSchedule, now: Date): ReportJob | undefined {
+    const range = resolveDateRange(schedule.range, now)!;
+    const params: ReportParams = {
+      type: schedule.type,
+      ...range,
+      ...(schedule.groupBy && { groupBy: schedule.groupBy }),
+      format: schedule.format,
+      ...(schedule.currency && { currency: schedule.currency }),
+    };
+
+    schedule.lastRunAt = now.toISOString();
+    schedule.runCount += 1;
+    const job = getReportJobQueue().enqueue(params, schedule.ownerId, {
+      scheduleId: schedule.id,
+      ttlSeconds: this.config.retentionSeconds,
+      onFinished: (finished) => this.finish(schedule.id, finished),
+    });
+
+    if (!job) {
+      schedule.lastRunStatus = "skipped";
+      schedule.lastError = "The report queue was full";
+      createNotification(schedule.ownerId, {
+        type: "warning",
+        title: `Scheduled report skipped: ${schedule.name}`,
+        message: `The ${schedule.type} report for ${range.startDate} to ${range.endDate} was not generated because the report queue was full.`,
+        priority: "medium",
+        data: { scheduleId: schedule.id },
+      });
+      return undefined;
+    }
+
+    schedule.lastReportId = job.id;
+    schedule.lastRunStatus = "queued";
+    delete schedule.lastError;
+    return job;
+  }
+
+  /** Records the outcome of a run and notifies the owner */
+  private finish(scheduleId: string, job: ReportJob): void {
+    const schedule = this.schedules.get(scheduleId);
+    // Deleted in the meantime
+    if (!schedule) {
+      return;
+    }
+
+    const { startDate, endDate } = job.params;
+    if (job.status === "completed") {
+      schedule.lastRunStatus = "completed";
+      delete schedule.lastError;
+      createNotification(schedule.ownerId, {
+        type: "success",
+        title: `Scheduled report ready: ${schedule.name}`,
+        message: `The ${schedule.type} report for ${startDate} to ${endDate} is ready to download until ${job.expiresAt}.`,
+        priority: "low",
+        data: { scheduleId, reportId: job.id },
+        actionUrl: `/api/reports/${job.id}/download`,
+        actionText: "Download report",
+      });
+    } else {
+      schedule.lastRunStatus = "failed";
+      schedule.lastError = job.error;
+      createNotification(schedule.ownerId, {
+        type: "error",
+        title: `Scheduled report failed: ${schedule.name}`,
+        message: `The ${schedule.type} report for ${startDate} to ${endDate} could not be generated: ${job.error}`,
+        priority: "high",
+        data: { scheduleId, reportId: job.id },
+      });
+    }
+  }
+}
+
+let scheduler: ReportScheduler | undefined;
+
+export function getReportScheduler(): ReportScheduler {
+  if (!scheduler) {
+    scheduler = new ReportScheduler(settings.reports.schedules);
+  }
+  return scheduler;
+}
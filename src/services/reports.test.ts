@@ -0,0 +1,142 @@
+import { User } from "../types";
+import { DataGenerator } from "../utils/dataGenerator";
+import { setDataStore } from "./dataStore";
+import { generateReport, ReportParams, validateReportInput } from "./reports";
+import { InMemoryRepository } from "./repositories";
+
+const SEED_VARIABLES = ["MOCK_SEED", "MOCK_REFERENCE_DATE"];
+const original = { ...process.env };
+
+function userCreatedAt(createdAt: string): User {
+  return { ...DataGenerator.generateUser(), createdAt };
+}
+
+async function usersReport(params: Partial<ReportParams> = {}) {
+  const { report } = await generateReport({
+    type: "users",
+    format: "json",
+    ...params,
+  });
+  return report;
+}
+
+beforeEach(() => {
+  for (const name of SEED_VARIABLES) {
+    delete process.env[name];
+  }
+
+  setDataStore({
+    users: new InMemoryRepository([
+      userCreatedAt("2023-11-20T10:00:00.000Z"),
+      userCreatedAt("2023-12-03T00:00:00.000Z"),
+      userCreatedAt("2023-12-31T23:59:59.000Z"),
+      userCreatedAt("2024-01-01T12:00:00.000Z"),
+      userCreatedAt("2024-01-02T00:00:00.000Z"),
+    ]),
+    products: new InMemoryRepository(),
+    orders: new InMemoryRepository(),
+    articles: new InMemoryRepository(),
+    notifications: new InMemoryRepository(),
+  });
+});
+
+afterAll(() => {
+  for (const name of SEED_VARIABLES) {
+    delete process.env[name];
+    if (original[name] !== undefined) {
+      process.env[name] = original[name];
+    }
+  }
+});
+
+describe("validateReportInput", () => {
+  it("accepts a type alone", () => {
+    expect(validateReportInput({ type: "sales" })).toEqual([]);
+  });
+
+  it("rejects malformed dates", () => {
+    expect(
+      validateReportInput({ type: "sales", startDate: "2024/01/01" }),
+    ).toEqual([{ field: "startDate", message: "must be a date (YYYY-MM-DD)" }]);
+  });
+
+  it("rejects dates that do not exist", () => {
+    expect(
+      validateReportInput({ type: "sales", endDate: "2024-02-30" }),
+    ).toEqual([{ field: "endDate", message: "is not a valid date" }]);
+  });
+
+  it("rejects a start after the end", () => {
+    expect(
+      validateReportInput({
+        type: "sales",
+        startDate: "2024-02-01",
+        endDate: "2024-01-01",
+      }),
+    ).toEqual([{ field: "startDate", message: "must not be after endDate" }]);
+  });
+
+  it("rejects ranges with more than 1000 buckets", () => {
+    const range = { startDate: "2020-01-01", endDate: "2023-12-31" };
+
+    expect(validateReportInput({ type: "sales", ...range })).toEqual([
+      {
+        field: "groupBy",
+        message: "must give at most 1000 buckets over the range",
+      },
+    ]);
+    expect(
+      validateReportInput({ type: "sales", ...range, groupBy: "week" }),
+    ).toEqual([]);
+  });
+});
+
+describe("generateReport ranges", () => {
+  it("defaults to the 30 days up to the seeded reference date", async () => {
+    process.env["MOCK_SEED"] = "42";
+    process.env["MOCK_REFERENCE_DATE"] = "2024-01-01T08:00:00.000Z";
+
+    const report = await usersReport();
+
+    expect(report.period).toEqual({
+      startDate: "2023-12-03",
+      endDate: "2024-01-01",
+      groupBy: "day",
+    });
+    expect(report.data).toHaveLength(30);
+    expect(report.summary).toMatchObject({ totalNewUsers: 3 });
+  });
+
+  it("defaults to the 30 days up to today without a seed", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+
+    const report = await usersReport();
+
+    expect(report.period.endDate).toBe(today);
+    expect(report.data).toHaveLength(30);
+  });
+
+  it("counts 29 days back from an explicit end date", async () => {
+    const report = await usersReport({ endDate: "2024-01-02" });
+
+    expect(report.period.startDate).toBe("2023-12-04");
+    expect(report.summary).toMatchObject({ totalNewUsers: 3 });
+  });
+
+  it("cuts the first and last bucket off at the range", async () => {
+    const report = await usersReport({
+      startDate: "2023-11-15",
+      endDate: "2024-01-01",
+      groupBy: "month",
+    });
+
+    expect(
+      report.data.map((row) => [row["periodStart"], row["periodEnd"]]),
+    ).toEqual([
+      ["2023-11-15", "2023-11-30"],
+      ["2023-12-01", "2023-12-31"],
+      ["2024-01-01", "2024-01-01"],
+    ]);
+    expect(report.data.map((row) => row["newUsers"])).toEqual([1, 2, 1]);
+  });
+});
@@ -0,0 +1,478 @@
+import { v4 as uuidv4 } from "uuid";
+import { settings } from "../config/settings";
+import { CurrencyConversion, DataStore, FieldError, Order } from "../types";
+import {
+  Bucket,
+  createBuckets,
+  DAY_MS,
+  findBucket,
+  formatDate,
+  parseDate,
+} from "../utils/dates";
+import { ObjectSchema, validateObject } from "../utils/validation";
+import { CurrencyConverter } from "./currency";
+import { getDataStore, storeReferenceDate } from "./dataStore";
+import { roundAmount } from "./pricing";
+
+export const REPORT_TYPES = ["sales", "users", "products", "orders"] as const;
+
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export const REPORT_FORMATS = ["json", "csv", "ndjson", "xlsx"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_GROUPINGS = ["day", "week", "month"] as const;
+
+export type ReportGrouping = (typeof REPORT_GROUPINGS)[number];
+
+export interface ReportParams {
+  type: ReportType;
+  /** YYYY-MM-DD; defaults to 29 days before `endDate` */
+  startDate?: string;
+  /** YYYY-MM-DD, inclusive; defaults to today (UTC), see `storeReferenceDate` */
+  endDate?: string;
+  /** Size of the time buckets of time-series reports; defaults to day */
+  groupBy?: ReportGrouping;
+  format: ReportFormat;
+  /** Currency to convert amounts to */
+  currency?: string;
+}
+
+export type ReportRow = Record<string, unknown>;
+
+export interface Report {
+  reportId: string;
+  type: ReportType;
+  /** Currency of revenue figures */
+  currency: string;
+  period: {
+    startDate: string;
+    endDate: string;
+    groupBy: ReportGrouping;
+  };
+  format: ReportFormat;
+  generatedAt: string;
+  summary: Record<string, unknown>;
+  data: ReportRow[];
+}
+
+export interface GeneratedReport {
+  report: Report;
+  /** The applied conversion, if a currency was requested */
+  conversion?: CurrencyConversion;
+}
+
+/**
+ * Called while a report is computed with the number of records scanned so
+ * far.
+ */
+export type ReportProgress = (completed: number, total: number) => void;
+
+/**
+ * Monetary fields of report rows and summaries. Reports are computed in
+ * `settings.general.currency`.
+ */
+const AMOUNT_FIELDS = [
+  "revenue",
+  "averageOrderValue",
+  "totalRevenue",
+  "averageDailyRevenue",
+];
+
+/** Records scanned between yields to the event loop */
+const SCAN_CHUNK = 500;
+
+/** Most time buckets a report may have */
+const MAX_BUCKETS = 1000;
+
+/** Orders that count towards sales: everything not cancelled or refunded */
+export const SALE_STATUSES: ReadonlySet<Order["status"]> = new Set([
+  "pending",
+  "processing",
+  "shipped",
+  "delivered",
+]);
+
+const ORDER_STATUSES: Order["status"][] = [
+  "pending",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+];
+
+interface ReportRange {
+  /** Start of the first day, UTC */
+  start: number;
+  /** End of the last day (exclusive), UTC */
+  end: number;
+  groupBy: ReportGrouping;
+  buckets: Bucket[];
+}
+
+/**
+ * First and last day of the requested range as UTC midnights, applying the
+ * defaults for missing dates: the 30 days up to the store's reference date.
+ */
+function rangeDays(params: Partial<ReportParams>): {
+  first: number;
+  last: number;
+} {
+  const last = parseDate(
+    params.endDate || formatDate(storeReferenceDate().getTime()),
+  )!;
+  const first = params.startDate
+    ? parseDate(params.startDate)!
+    : last - 29 * DAY_MS;
+  return { first, last };
+}
+
+function resolveRange(params: ReportParams): ReportRange {
+  const { first, last } = rangeDays(params);
+  const groupBy = params.groupBy || "day";
+  return {
+    start: first,
+    end: last + DAY_MS,
+    groupBy,
+    buckets: createBuckets(first, last + DAY_MS, groupBy),
+  };
+}
+
+const dateRule = {
+  type: "string",
+  pattern: /^\d{4}-\d{2}-\d{2}$/,
+  patternMessage: "must be a date (YYYY-MM-DD)",
+} as const;
+
+const reportSchema: ObjectSchema = {
+  type: { type: "string", required: true, enum: REPORT_TYPES },
+  startDate: dateRule,
+  endDate: dateRule,
+  groupBy: { type: "string", enum: REPORT_GROUPINGS },
+  format: { type: "string", enum: REPORT_FORMATS },
+};
+
+/**
+ * Validates report parameters, from the query of `GET /api/reports` or
+ * the body of `POST /api/reports`: the field rules, that the dates exist,
+ * that `startDate` is not after `endDate` and that the range does not
+ * have more than `MAX_BUCKETS` buckets.
+ */
+export function validateReportInput(input: unknown): FieldError[] {
+  const errors = validateObject(input, reportSchema);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const params = input as Partial<ReportParams>;
+  for (const field of ["startDate", "endDate"] as const) {
+    const date = params[field];
+    if (date !== undefined && parseDate(date) === undefined) {
+      errors.push({ field, message: "is not a valid date" });
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const { first, last } = rangeDays(params);
+  if (first > last) {
+    errors.push({ field: "startDate", message: "must not be after endDate" });
+  } else if (
+    createBuckets(first, last + DAY_MS, params.groupBy || "day", MAX_BUCKETS)
+      .length > MAX_BUCKETS
+  ) {
+    errors.push({
+      field: "groupBy",
+      message: `must give at most ${MAX_BUCKETS} buckets over the range`,
+    });
+  }
+  return errors;
+}
+
+function nextTick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Calls `visit` for every item, a chunk at a time, yielding to the event
+ * loop in between so large collections do not block other requests.
+ */
+async function scan<T>(
+  items: T[],
+  onProgress: ReportProgress | undefined,
+  visit: (item: T) => void,
+): Promise<void> {
+  for (let i = 0; i < items.length; i += SCAN_CHUNK) {
+    items.slice(i, i + SCAN_CHUNK).forEach(visit);
+    onProgress?.(Math.min(i + SCAN_CHUNK, items.length), items.length);
+    await nextTick();
+  }
+}
+
+type BucketRow<K extends string> = {
+  periodStart: string;
+  /** Last day of the bucket, inclusive */
+  periodEnd: string;
+} & Record<K, number>;
+
+/**
+ * One row per bucket with every counter at 0, so empty buckets are
+ * reported too.
+ */
+function bucketRows<K extends string>(
+  range: ReportRange,
+  counters: readonly K[],
+): Array<BucketRow<K>> {
+  return range.buckets.map((bucket) => {
+    const row = {
+      periodStart: formatDate(bucket.start),
+      periodEnd: formatDate(bucket.end - DAY_MS),
+    } as BucketRow<K>;
+    for (const counter of counters) {
+      (row as Record<K, number>)[counter] = 0;
+    }
+    return row;
+  });
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : 0;
+}
+
+type ReportBuilder = (
+  store: DataStore,
+  range: ReportRange,
+  onProgress?: ReportProgress,
+) => Promise<Pick<Report, "summary" | "data">>;
+
+/**
+ * Orders placed per bucket, excluding cancelled and refunded orders.
+ * Revenue is the order total, including tax and shipping.
+ */
+const salesReport: ReportBuilder = async (store, range, onProgress) => {
+  const rows = bucketRows(range, [
+    "orders",
+    "itemsSold",
+    "revenue",
+    "averageOrderValue",
+  ]);
+
+  await scan(store.orders.list(), onProgress, (order) => {
+    const row = rows[findBucket(range.buckets, Date.parse(order.createdAt))];
+    if (row && SALE_STATUSES.has(order.status)) {
+      row.orders += 1;
+      row.itemsSold += order.items.reduce(
+        (sum, item) => sum + item.quantity,
+        0,
+      );
+      row.revenue += order.totals.total;
+    }
+  });
+
+  for (const row of rows) {
+    row.revenue = roundAmount(row.revenue);
+    row.averageOrderValue =
+      row.orders > 0 ? roundAmount(row.revenue / row.orders) : 0;
+  }
+
+  const totalOrders = rows.reduce((sum, row) => sum + row.orders, 0);
+  const totalRevenue = roundAmount(
+    rows.reduce((sum, row) => sum + row.revenue, 0),
+  );
+  return {
+    summary: {
+      totalRevenue,
+      totalOrders,
+      itemsSold: rows.reduce((sum, row) => sum + row.itemsSold, 0),
+      averageOrderValue:
+        totalOrders > 0 ? roundAmount(totalRevenue / totalOrders) : 0,
+      averageDailyRevenue: roundAmount(
+        (totalRevenue * DAY_MS) / (range.end - range.start),
+      ),
+    },
+    data: rows,
+  };
+};
+
+/**
+ * Sign-ups per bucket and the number of users at the end of each bucket.
+ */
+const usersReport: ReportBuilder = async (store, range, onProgress) => {
+  const rows = bucketRows(range, ["newUsers", "totalUsers"]);
+  let usersAtStart = 0;
+
+  await scan(store.users.list(), onProgress, (user) => {
+    const createdAt = Date.parse(user.createdAt);
+    if (createdAt < range.start) {
+      usersAtStart += 1;
+      return;
+    }
+    const row = rows[findBucket(range.buckets, createdAt)];
+    if (row) {
+      row.newUsers += 1;
+    }
+  });
+
+  let totalUsers = usersAtStart;
+  for (const row of rows) {
+    totalUsers += row.newUsers;
+    row.totalUsers = totalUsers;
+  }
+
+  const totalNewUsers = totalUsers - usersAtStart;
+  return {
+    summary: {
+      totalNewUsers,
+      usersAtStart,
+      totalUsers,
+      // New users relative to the users at the start of the range
+      growthRate: rate(totalNewUsers, usersAtStart),
+    },
+    data: rows,
+  };
+};
+
+/**
+ * Orders placed per bucket, counted by their current status.
+ */
+const ordersReport: ReportBuilder = async (store, range, onProgress) => {
+  const rows = bucketRows(range, ["orders", ...ORDER_STATUSES]);
+
+  await scan(store.orders.list(), onProgress, (order) => {
+    const row = rows[findBucket(range.buckets, Date.parse(order.createdAt))];
+    if (row) {
+      row.orders += 1;
+      row[order.status] += 1;
+    }
+  });
+
+  const totalOrders = rows.reduce((sum, row) => sum + row.orders, 0);
+  const byStatus = Object.fromEntries(
+    ORDER_STATUSES.map((status) => [
+      status,
+      rows.reduce((sum, row) => sum + row[status], 0),
+    ]),
+  ) as Record<Order["status"], number>;
+  return {
+    summary: {
+      totalOrders,
+      ...byStatus,
+      cancellationRate: rate(
+        byStatus.cancelled + byStatus.refunded,
+        totalOrders,
+      ),
+    },
+    data: rows,
+  };
+};
+
+/**
+ * Units sold and revenue per product over the whole range, best-selling
+ * first, from the orders that count towards sales. Revenue is at list
+ * price, before discounts, tax and shipping.
+ */
+const productsReport: ReportBuilder = async (store, range, onProgress) => {
+  const products = new Map<
+    string,
+    {
+      productId: string;
+      name: string;
+      category: string | null;
+      unitsSold: number;
+      orders: number;
+      revenue: number;
+    }
+  >();
+
+  await scan(store.orders.list(), onProgress, (order) => {
+    const createdAt = Date.parse(order.createdAt);
+    if (
+      createdAt < range.start ||
+      createdAt >= range.end ||
+      !SALE_STATUSES.has(order.status)
+    ) {
+      return;
+    }
+    for (const item of order.items) {
+      let row = products.get(item.productId);
+      if (!row) {
+        const product = store.products.get(item.productId);
+        row = {
+          productId: item.productId,
+          name: product?.name ?? item.productName,
+          category: product?.category ?? null,
+          unitsSold: 0,
+          orders: 0,
+          revenue: 0,
+        };
+        products.set(item.productId, row);
+      }
+      row.unitsSold += item.quantity;
+      row.orders += 1;
+      row.revenue += item.totalPrice;
+    }
+  });
+
+  const rows = Array.from(products.values())
+    .map((row) => ({ ...row, revenue: roundAmount(row.revenue) }))
+    .sort((a, b) => b.revenue - a.revenue || b.unitsSold - a.unitsSold);
+  return {
+    summary: {
+      productsSold: rows.length,
+      unitsSold: rows.reduce((sum, row) => sum + row.unitsSold, 0),
+      totalRevenue: roundAmount(
+        rows.reduce((sum, row) => sum + row.revenue, 0),
+      ),
+      topProduct: rows[0]?.name ?? null,
+    },
+    data: rows,
+  };
+};
+
+const REPORTS: Record<ReportType, ReportBuilder> = {
+  sales: salesReport,
+  users: usersReport,
+  products: productsReport,
+  orders: ordersReport,
+};
+
+/**
+ * Computes a report from the data store over the requested range,
+ * converting its amounts to `params.currency` if set. Parameters must have
+ * passed `validateReportInput`.
+ */
+export async function generateReport(
+  params: ReportParams,
+  reportId: string = uuidv4(),
+  onProgress?: ReportProgress,
+): Promise<GeneratedReport> {
+  const range = resolveRange(params);
+  const { summary, data } = await REPORTS[params.type](
+    getDataStore(),
+    range,
+    onProgress,
+  );
+
+  const { currency } = settings.general;
+  const converter = new CurrencyConverter(params.currency);
+  const report: Report = {
+    reportId,
+    type: params.type,
+    currency: converter.target(currency),
+    period: {
+      startDate: formatDate(range.start),
+      endDate: formatDate(range.end - DAY_MS),
+      groupBy: range.groupBy,
+    },
+    format: params.format,
+    generatedAt: new Date().toISOString(),
+    summary: converter.fields(summary, AMOUNT_FIELDS, currency),
+    data: data.map((row) => converter.fields(row, AMOUNT_FIELDS, currency)),
+  };
+
+  const conversion = converter.describe();
+  return { report, ...(conversion && { conversion }) };
+}
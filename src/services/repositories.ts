@@ -0,0 +1,172 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Repository, RepositoryChange } from "../types";
+
+/**
+ * Repository that keeps entities in memory, in insertion order.
+ */
+export class InMemoryRepository<
+  T extends { id: string },
+> implements Repository<T> {
+  protected readonly items = new Map<string, T>();
+  private readonly listeners = new Set<(change: RepositoryChange<T>) => void>();
+
+  constructor(initial: T[] = []) {
+    for (const item of initial) {
+      this.items.set(item.id, item);
+    }
+  }
+
+  list(): T[] {
+    return Array.from(this.items.values());
+  }
+
+  count(): number {
+    return this.items.size;
+  }
+
+  get(id: string): T | undefined {
+    return this.items.get(id);
+  }
+
+  find(predicate: (item: T) => boolean): T[] {
+    return this.list().filter(predicate);
+  }
+
+  create(item: T): T {
+    if (this.items.has(item.id)) {
+      throw new Error(`Entity with id '${item.id}' already exists`);
+    }
+
+    this.items.set(item.id, item);
+    this.changed();
+    this.notify({ type: "create", id: item.id, item });
+    return item;
+  }
+
+  update(id: string, changes: Partial<T>): T | undefined {
+    const existing = this.items.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated = { ...existing, ...changes, id };
+    this.items.set(id, updated);
+    this.changed();
+    this.notify({ type: "update", id, item: updated, previous: existing });
+    return updated;
+  }
+
+  delete(id: string): boolean {
+    const existing = this.items.get(id);
+    if (!existing) {
+      return false;
+    }
+
+    this.items.delete(id);
+    this.changed();
+    this.notify({ type: "delete", id, previous: existing });
+    return true;
+  }
+
+  subscribe(listener: (change: RepositoryChange<T>) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: RepositoryChange<T>): void {
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+
+  /**
+   * Nothing is pending in memory, so this resolves right away.
+   */
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Called after every mutation. Persistent subclasses write here.
+   */
+  protected changed(): void {}
+}
+
+/**
+ * In-memory repository backed by a JSON file. The file is loaded on
+ * construction (or created from `seed` when missing). Mutations are
+ * written back in batches: the first change schedules a rewrite of the
+ * whole file `flushDelayMs` later, and changes made before it runs are
+ * included in the same write. Call `flush` before exiting to write
+ * pending changes.
+ */
+export class JsonFileRepository<
+  T extends { id: string },
+> extends InMemoryRepository<T> {
+  private dirty = false;
+  private timer: NodeJS.Timeout | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    seed: () => T[],
+    private readonly flushDelayMs = 200,
+  ) {
+    const exists = fs.existsSync(filePath);
+    super(
+      exists ? (JSON.parse(fs.readFileSync(filePath, "utf8")) as T[]) : seed(),
+    );
+
+    if (!exists) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(this.list()), "utf8");
+    }
+  }
+
+  /**
+   * Writes pending changes now. Resolves once the file holds every change
+   * made before the call.
+   */
+  override flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.dirty) {
+      this.dirty = false;
+      this.writing = this.writing.then(() => this.write());
+    }
+    return this.writing;
+  }
+
+  protected override changed(): void {
+    this.dirty = true;
+    if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushDelayMs);
+    }
+  }
+
+  /**
+   * Replaces the file through a temporary one, so a crash mid-write never
+   * leaves it truncated. A failed write is logged and retried with the
+   * next flush.
+   */
+  private async write(): Promise<void> {
+    const temporary = `${this.filePath}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(
+        temporary,
+        JSON.stringify(this.list()),
+        "utf8",
+      );
+      await fs.promises.rename(temporary, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write ${this.filePath}:`, error);
+      this.changed();
+    }
+  }
+}
@@ -0,0 +1,469 @@
+import { Article, DataStore, Order, Product, Repository, User } from "../types";
+import { getDataStore } from "./dataStore";
+import {
+  IndexedField,
+  PrefixIndex,
+  SearchIndex,
+  tokenize,
+} from "./searchIndex";
+
+interface SearchEntities {
+  users: User;
+  products: Product;
+  articles: Article;
+  orders: Order;
+}
+
+export type SearchType = keyof SearchEntities;
+
+export const SEARCH_TYPES: SearchType[] = [
+  "users",
+  "products",
+  "articles",
+  "orders",
+];
+
+export interface SearchResult {
+  id: string;
+  type: SearchType;
+  title: string;
+  excerpt: string;
+  relevanceScore: number;
+  url: string;
+  metadata: {
+    category: string;
+    tags: string[];
+    lastModified: string;
+  };
+}
+
+/**
+ * Groups of `suggest` completions: product names, article titles, article
+ * tags and usernames.
+ */
+export type SuggestionGroup = "products" | "articles" | "tags" | "users";
+
+export const SUGGESTION_GROUPS: SuggestionGroup[] = [
+  "products",
+  "articles",
+  "tags",
+  "users",
+];
+
+/**
+ * Scope a key needs to see results of each type, and suggestions of each
+ * group, on top of `search:read`.
+ */
+export const SEARCH_READ_SCOPES: Record<SearchType, string> = {
+  users: "users:read",
+  products: "products:read",
+  articles: "articles:read",
+  orders: "orders:read",
+};
+
+export const SUGGESTION_READ_SCOPES: Record<SuggestionGroup, string> = {
+  products: "products:read",
+  articles: "articles:read",
+  tags: "articles:read",
+  users: "users:read",
+};
+
+export interface Suggestion {
+  text: string;
+  /** Number of entities with this name, title or tag */
+  count: number;
+  /** The entity, when the suggestion refers to exactly one */
+  id?: string;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet name → most common values. `type` counts results per entity type;
+ * the other facets are named `<type>.<field>`, e.g. `products.brand`.
+ */
+export type SearchFacets = Record<string, FacetValue[]>;
+
+export interface SearchOptions {
+  type?: SearchType;
+  /**
+   * Types the caller may read; others are left out of the results, facets,
+   * corrections and scores. All types when unset.
+   */
+  types?: SearchType[];
+  /** Narrows the results before facets are counted */
+  filter?: (result: SearchResult) => boolean;
+}
+
+export interface SearchOutcome {
+  /** Best match first, with plain excerpts */
+  results: SearchResult[];
+  facets: SearchFacets;
+  /** The query with misspelled terms corrected, if any were */
+  didYouMean?: string;
+  /** Replaces a result's excerpt with a highlighted snippet */
+  highlight: (result: SearchResult) => SearchResult;
+}
+
+type ResultFields = Omit<SearchResult, "id" | "type" | "relevanceScore">;
+
+/**
+ * How entities of one type are indexed and presented as results.
+ */
+interface Searchable<T extends { id: string }> {
+  repository(store: DataStore): Repository<T>;
+  fields(entity: T): IndexedField[];
+  result(entity: T): ResultFields;
+  /** Texts a highlighted excerpt may be cut from, in order of preference */
+  snippets(entity: T): string[];
+  facets(entity: T): Record<string, string>;
+  /** Phrases offered by `suggest`, per suggestion group */
+  completions(entity: T): Array<{ group: SuggestionGroup; text: string }>;
+}
+
+const EXCERPT_LENGTH = 160;
+/** Characters kept before the first match of a highlighted excerpt */
+const SNIPPET_CONTEXT = 60;
+/** Values listed per facet */
+const FACET_SIZE = 10;
+
+function truncate(text: string): string {
+  return text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Cuts an excerpt of `text` starting shortly before its first word matching
+ * `terms`, HTML-escaped and with matching words wrapped in `<mark>`.
+ * Returns `undefined` when no word matches.
+ */
+function highlight(text: string, terms: Set<string>): string | undefined {
+  const matches = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu)).filter((word) =>
+    tokenize(word[0]).some((term) => terms.has(term)),
+  );
+  const first = matches[0]?.index;
+  if (first === undefined) {
+    return undefined;
+  }
+
+  let start = Math.max(0, first - SNIPPET_CONTEXT);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space >= 0 && space < first ? space + 1 : first;
+  }
+  let end = Math.min(text.length, start + EXCERPT_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > first ? space : end;
+  }
+
+  let snippet = "";
+  let position = start;
+  for (const match of matches) {
+    const { index } = match;
+    if (index + match[0].length > end) {
+      break;
+    }
+    snippet += `${escapeHtml(text.slice(position, index))}<mark>${escapeHtml(match[0])}</mark>`;
+    position = index + match[0].length;
+  }
+  snippet += escapeHtml(text.slice(position, end));
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Counts values, most common first, keeping the top `FACET_SIZE`.
+ */
+function countValues(values: string[]): FacetValue[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, FACET_SIZE);
+}
+
+const SEARCHABLE: { [K in SearchType]: Searchable<SearchEntities[K]> } = {
+  users: {
+    repository: (store) => store.users,
+    fields: (user) => [
+      { text: `${user.firstName} ${user.lastName}`, weight: 3 },
+      { text: user.username, weight: 3 },
+      { text: user.email, weight: 2 },
+    ],
+    result: (user) => ({
+      title: `${user.firstName} ${user.lastName}`,
+      excerpt: truncate(`${user.username} · ${user.email}`),
+      url: `/api/users/${user.id}`,
+      metadata: {
+        category: user.role,
+        tags: [],
+        lastModified: user.updatedAt,
+      },
+    }),
+    snippets: (user) => [`${user.username} · ${user.email}`],
+    facets: (user) => ({ role: user.role }),
+    completions: (user) => [{ group: "users", text: user.username }],
+  },
+  products: {
+    repository: (store) => store.products,
+    fields: (product) => [
+      { text: product.name, weight: 3 },
+      { text: product.brand, weight: 2 },
+      { text: product.tags.join(" "), weight: 2 },
+      { text: product.description, weight: 1 },
+    ],
+    result: (product) => ({
+      title: product.name,
+      excerpt: truncate(product.description),
+      url: `/api/products/${product.id}`,
+      metadata: {
+        category: product.category,
+        tags: product.tags,
+        lastModified: product.updatedAt,
+      },
+    }),
+    snippets: (product) => [product.description, product.tags.join(", ")],
+    facets: (product) => ({
+      category: product.category,
+      brand: product.brand,
+    }),
+    completions: (product) => [{ group: "products", text: product.name }],
+  },
+  articles: {
+    repository: (store) => store.articles,
+    fields: (article) => [
+      { text: article.title, weight: 3 },
+      { text: article.tags.join(" "), weight: 2 },
+      { text: article.excerpt, weight: 1.5 },
+      { text: article.content, weight: 1 },
+    ],
+    result: (article) => ({
+      title: article.title,
+      excerpt: truncate(article.excerpt),
+      url: `/api/articles/${article.id}`,
+      metadata: {
+        category: article.category,
+        tags: article.tags,
+        lastModified: article.updatedAt,
+      },
+    }),
+    snippets: (article) => [
+      article.excerpt,
+      article.content,
+      article.tags.join(", "),
+    ],
+    facets: (article) => ({ category: article.category }),
+    completions: (article) => [
+      { group: "articles", text: article.title },
+      ...article.tags.map((tag) => ({ group: "tags" as const, text: tag })),
+    ],
+  },
+  orders: {
+    repository: (store) => store.orders,
+    // Only the number part: the shared `ORD-` prefix would match every order
+    fields: (order) => [
+      { text: order.orderNumber.replace(/^ORD-/, ""), weight: 3 },
+    ],
+    result: (order) => ({
+      title: order.orderNumber,
+      excerpt: `${order.items.length} items, ${order.status}, total ${order.totals.total} ${order.payment.currency}`,
+      url: `/api/orders/${order.id}`,
+      metadata: {
+        category: order.status,
+        tags: [],
+        lastModified: order.updatedAt,
+      },
+    }),
+    snippets: () => [],
+    facets: (order) => ({ status: order.status }),
+    completions: () => [],
+  },
+};
+
+function documentKey(type: SearchType, id: string): string {
+  return `${type}:${id}`;
+}
+
+interface Indexes {
+  store: DataStore;
+  index: SearchIndex;
+  completions: PrefixIndex;
+  unsubscribe: Array<() => void>;
+}
+
+let active: Indexes | undefined;
+
+function indexEntity<K extends SearchType>(
+  indexes: Indexes,
+  type: K,
+  entity: SearchEntities[K],
+): void {
+  const searchable = SEARCHABLE[type] as Searchable<SearchEntities[K]>;
+  const key = documentKey(type, entity.id);
+  indexes.index.add({ key, type, fields: searchable.fields(entity) });
+  indexes.completions.add(key, searchable.completions(entity));
+}
+
+/**
+ * Indexes every entity of `type` and subscribes to its repository, so the
+ * indexes follow creates, updates and deletes.
+ */
+function indexCollection<K extends SearchType>(
+  indexes: Indexes,
+  type: K,
+): () => void {
+  const searchable = SEARCHABLE[type] as Searchable<SearchEntities[K]>;
+  const repository = searchable.repository(indexes.store);
+
+  for (const entity of repository.list()) {
+    indexEntity(indexes, type, entity);
+  }
+
+  return repository.subscribe((change) => {
+    if (change.item) {
+      indexEntity(indexes, type, change.item);
+    } else {
+      indexes.index.remove(documentKey(type, change.id));
+      indexes.completions.remove(documentKey(type, change.id));
+    }
+  });
+}
+
+/**
+ * Returns the indexes over the active data store, building them on first
+ * use and rebuilding them when the data store is replaced.
+ */
+function getIndexes(): Indexes {
+  const store = getDataStore();
+  if (active?.store !== store) {
+    active?.unsubscribe.forEach((unsubscribe) => unsubscribe());
+
+    const indexes: Indexes = {
+      store,
+      index: new SearchIndex(),
+      completions: new PrefixIndex(),
+      unsubscribe: [],
+    };
+    indexes.unsubscribe = SEARCH_TYPES.map((type) =>
+      indexCollection(indexes, type),
+    );
+    active = indexes;
+  }
+  return active;
+}
+
+/**
+ * Searches users, products, articles and orders, best match first, and
+ * counts facets over the results. The `type` facet ignores `options.type`,
+ * so it shows how many results each readable type would have.
+ */
+export function search(
+  query: string,
+  options: SearchOptions = {},
+): SearchOutcome {
+  const store = getDataStore();
+  const matches = getIndexes().index.search(query, options.types);
+
+  const hits = matches.documents
+    .map(({ key, type, score }) => {
+      const searchType = type as SearchType;
+      const id = key.slice(searchType.length + 1);
+      const searchable = SEARCHABLE[searchType] as Searchable<{ id: string }>;
+      const entity = searchable.repository(store).get(id)!;
+      const fields = searchable.result(entity);
+      const result: SearchResult = {
+        id,
+        type: searchType,
+        ...fields,
+        // Excerpts are HTML, like the highlighted ones
+        excerpt: escapeHtml(fields.excerpt),
+        relevanceScore: Math.round(score * 10000) / 10000,
+      };
+
+      return { result, entity, searchable };
+    })
+    .filter((hit) => !options.filter || options.filter(hit.result));
+  const typed = options.type
+    ? hits.filter((hit) => hit.result.type === options.type)
+    : hits;
+
+  const facetValues: Record<string, string[]> = {
+    type: hits.map((hit) => hit.result.type),
+  };
+  for (const hit of typed) {
+    for (const [name, value] of Object.entries(
+      hit.searchable.facets(hit.entity),
+    )) {
+      (facetValues[`${hit.result.type}.${name}`] ??= []).push(value);
+    }
+  }
+  const facets: SearchFacets = {};
+  for (const [name, values] of Object.entries(facetValues)) {
+    facets[name] = countValues(values);
+  }
+
+  const terms = new Set(matches.terms);
+  const hitsByResult = new Map(typed.map((hit) => [hit.result, hit]));
+  const corrected = Object.keys(matches.corrections).length > 0;
+
+  return {
+    results: typed.map((hit) => hit.result),
+    facets,
+    ...(corrected && {
+      didYouMean: tokenize(query)
+        .map((term) => matches.corrections[term] ?? term)
+        .join(" "),
+    }),
+    highlight: (result) => {
+      const hit = hitsByResult.get(result);
+      for (const text of hit ? hit.searchable.snippets(hit.entity) : []) {
+        const excerpt = highlight(text, terms);
+        if (excerpt) {
+          return { ...result, excerpt };
+        }
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Prefix completions of `prefix`, at most `limit` per group, best first.
+ * Every word of a name, title or tag can start a match.
+ */
+export function suggest(
+  prefix: string,
+  limit: number,
+  groups: SuggestionGroup[] = SUGGESTION_GROUPS,
+): Record<SuggestionGroup, Suggestion[]> {
+  const completions = getIndexes().completions.complete(prefix, limit, groups);
+
+  const suggestions = {} as Record<SuggestionGroup, Suggestion[]>;
+  for (const group of groups) {
+    suggestions[group] = (completions[group] || []).map((completion) => {
+      const key = completion.keys[0]!;
+      return {
+        text: completion.text,
+        count: completion.keys.length,
+        ...(completion.keys.length === 1 && {
+          id: key.slice(key.indexOf(":") + 1),
+        }),
+      };
+    });
+  }
+  return suggestions;
+}
@@ -0,0 +1,166 @@
+import {
+  editDistance,
+  IndexedDocument,
+  SearchIndex,
+  tokenize,
+} from "./searchIndex";
+
+const documents: IndexedDocument[] = [
+  {
+    key: "products:lamp",
+    type: "products",
+    fields: [
+      { text: "Wireless Desk Lamp", weight: 3 },
+      { text: "A dimmable lamp for the office desk", weight: 1 },
+    ],
+  },
+  {
+    key: "products:chair",
+    type: "products",
+    fields: [
+      { text: "Office Chair", weight: 3 },
+      { text: "An ergonomic chair with lumbar support", weight: 1 },
+    ],
+  },
+  {
+    key: "articles:desk",
+    type: "articles",
+    fields: [
+      { text: "Choosing a standing desk", weight: 3 },
+      {
+        text: "Keyboard height, monitor arms and a good office chair matter more than the desk itself",
+        weight: 1,
+      },
+    ],
+  },
+];
+
+function createIndex(types?: string[]): SearchIndex {
+  const index = new SearchIndex();
+  for (const document of documents) {
+    if (!types || types.includes(document.type)) {
+      index.add(document);
+    }
+  }
+  return index;
+}
+
+function keys(index: SearchIndex, query: string, types?: string[]): string[] {
+  return index.search(query, types).documents.map((document) => document.key);
+}
+
+describe("tokenize", () => {
+  it("lowercases, strips diacritics and splits on non-alphanumerics", () => {
+    expect(tokenize("Zoë's e-mail, 2 Cafés")).toEqual([
+      "zoe",
+      "s",
+      "e",
+      "mail",
+      "2",
+      "cafes",
+    ]);
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions, substitutions and transpositions", () => {
+    expect(editDistance("lamp", "lamp", 2)).toBe(0);
+    expect(editDistance("lamp", "lamps", 2)).toBe(1);
+    expect(editDistance("lamp", "lam", 2)).toBe(1);
+    expect(editDistance("lamp", "limp", 2)).toBe(1);
+    expect(editDistance("lamp", "lmap", 2)).toBe(1);
+  });
+
+  it("stops once the limit is exceeded", () => {
+    expect(editDistance("keyboard", "monitor", 2)).toBe(3);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("ranks title matches above body matches", () => {
+    expect(keys(createIndex(), "chair")).toEqual([
+      "products:chair",
+      "articles:desk",
+    ]);
+  });
+
+  it("scores rarer terms higher", () => {
+    const [best] = createIndex().search("ergonomic office").documents;
+
+    expect(best?.key).toBe("products:chair");
+  });
+
+  it("sums the scores of several query terms", () => {
+    const index = createIndex();
+    const [both] = index.search("desk lamp").documents;
+    const [lampOnly] = index.search("lamp").documents;
+
+    expect(both?.key).toBe("products:lamp");
+    expect(both!.score).toBeGreaterThan(lampOnly!.score);
+  });
+
+  it("matches misspelled terms and reports corrections", () => {
+    const index = createIndex();
+    const result = index.search("ergonmic chiar");
+
+    expect(result.documents[0]?.key).toBe("products:chair");
+    expect(result.corrections).toEqual({
+      ergonmic: "ergonomic",
+      chiar: "chair",
+    });
+    expect(result.terms).toEqual(["ergonomic", "chair"]);
+  });
+
+  it("scores fuzzy matches below exact ones", () => {
+    const index = createIndex();
+    const [exact] = index.search("lamp").documents;
+    const [fuzzy] = index.search("lamb").documents;
+
+    expect(fuzzy?.key).toBe("products:lamp");
+    expect(fuzzy!.score).toBeLessThan(exact!.score);
+  });
+
+  it("does not correct short terms", () => {
+    const result = createIndex().search("an ar");
+
+    expect(result.corrections).toEqual({});
+    expect(keys(createIndex(), "arx")).toEqual([]);
+  });
+
+  it("restricts results and corrections to the given types", () => {
+    const index = createIndex();
+
+    expect(keys(index, "desk", ["products"])).toEqual(["products:lamp"]);
+    expect(keys(index, "standing", ["products"])).toEqual([]);
+    expect(index.search("standin", ["products"]).corrections).toEqual({});
+    expect(index.search("standin", ["articles"]).corrections).toEqual({
+      standin: "standing",
+    });
+  });
+
+  it("scores as if the index held only the given types", () => {
+    const [scoped] = createIndex().search("office", ["products"]).documents;
+    const [expected] = createIndex(["products"]).search("office").documents;
+
+    expect(scoped?.key).toBe(expected?.key);
+    expect(scoped!.score).toBeCloseTo(expected!.score);
+  });
+
+  it("replaces and removes documents", () => {
+    const index = createIndex();
+    index.add({
+      key: "products:lamp",
+      type: "products",
+      fields: [{ text: "Floor Lamp", weight: 3 }],
+    });
+
+    expect(index.size).toBe(3);
+    expect(keys(index, "wireless")).toEqual([]);
+    expect(keys(index, "floor")).toEqual(["products:lamp"]);
+
+    index.remove("products:lamp");
+
+    expect(index.size).toBe(2);
+    expect(keys(index, "lamp")).toEqual([]);
+  });
+});
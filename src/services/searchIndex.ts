@@ -0,0 +1,485 @@
+/**
+ * Text of a document field, with a weight that scales the frequency of its
+ * terms (e.g. 3 for titles, 1 for body text).
+ */
+export interface IndexedField {
+  text: string;
+  weight: number;
+}
+
+export interface IndexedDocument {
+  key: string;
+  type: string;
+  fields: IndexedField[];
+}
+
+export interface ScoredDocument {
+  key: string;
+  type: string;
+  score: number;
+}
+
+export interface SearchMatches {
+  documents: ScoredDocument[];
+  /** Index terms the query was matched against */
+  terms: string[];
+  /** Misspelled query term → closest index term */
+  corrections: Record<string, string>;
+}
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+/** Similar index terms searched per misspelled query term */
+const MAX_FUZZY_TERMS = 5;
+
+/**
+ * Edits tolerated in a query term: none for short terms, where a single
+ * edit already changes the meaning, one up to 7 characters, two beyond.
+ */
+function maxTypos(term: string): number {
+  if (term.length < 4) {
+    return 0;
+  }
+  return term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and transpositions of adjacent characters each count as one edit. Stops
+ * early and returns `limit + 1` once the distance must exceed `limit`.
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+  let previous: number[] = [];
+  let current = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previous;
+    previous = current;
+    current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2]! + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+  }
+
+  return current[b.length]!;
+}
+
+/**
+ * Splits text into lowercase alphanumeric terms with diacritics removed, so
+ * `"Zoë's e-mail"` becomes `["zoe", "s", "e", "mail"]`.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * In-process inverted index with BM25 scoring. Field weights are folded into
+ * the term frequencies and document lengths, so a term in a weight-3 title
+ * counts like three occurrences in body text.
+ */
+export class SearchIndex {
+  /** term → document key → weighted term frequency */
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly documents = new Map<
+    string,
+    { type: string; length: number; terms: string[] }
+  >();
+  /** Documents and their total length, per type */
+  private readonly types = new Map<string, { count: number; length: number }>();
+  /** term → type → documents of that type containing it */
+  private readonly termTypes = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Adds a document, replacing any document with the same key.
+   */
+  add(document: IndexedDocument): void {
+    this.remove(document.key);
+
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    for (const field of document.fields) {
+      for (const term of tokenize(field.text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + field.weight);
+        length += field.weight;
+      }
+    }
+
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.termTypes.set(term, new Map());
+      }
+      posting.set(document.key, frequency);
+      const types = this.termTypes.get(term)!;
+      types.set(document.type, (types.get(document.type) || 0) + 1);
+    }
+
+    this.documents.set(document.key, {
+      type: document.type,
+      length,
+      terms: Array.from(frequencies.keys()),
+    });
+    const stats = this.types.get(document.type) || { count: 0, length: 0 };
+    this.types.set(document.type, {
+      count: stats.count + 1,
+      length: stats.length + length,
+    });
+    this.totalLength += length;
+  }
+
+  remove(key: string): void {
+    const document = this.documents.get(key);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term)!;
+      posting.delete(key);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+        this.termTypes.delete(term);
+      } else {
+        const types = this.termTypes.get(term)!;
+        types.set(document.type, types.get(document.type)! - 1);
+      }
+    }
+
+    this.documents.delete(key);
+    const stats = this.types.get(document.type)!;
+    this.types.set(document.type, {
+      count: stats.count - 1,
+      length: stats.length - document.length,
+    });
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Documents containing `term`, counting only those of `types` when
+   * given.
+   */
+  private documentFrequency(term: string, types?: Set<string>): number {
+    if (!types) {
+      return this.postings.get(term)?.size ?? 0;
+    }
+    let count = 0;
+    for (const [type, documents] of this.termTypes.get(term) || []) {
+      count += types.has(type) ? documents : 0;
+    }
+    return count;
+  }
+
+  /**
+   * Looks up the index terms for each query term. A term missing from the
+   * index is matched against similar index terms instead (see
+   * `maxTypos`), at a lower weight, and its closest match is reported as a
+   * correction.
+   */
+  private expand(
+    query: string,
+    types?: Set<string>,
+  ): {
+    terms: Map<string, number>;
+    corrections: Record<string, string>;
+  } {
+    const terms = new Map<string, number>();
+    const corrections: Record<string, string> = {};
+
+    for (const term of new Set(tokenize(query))) {
+      if (this.documentFrequency(term, types) > 0) {
+        terms.set(term, 1);
+        continue;
+      }
+
+      const candidates = this.similarTerms(term, types);
+      for (const { term: candidate, distance } of candidates) {
+        terms.set(
+          candidate,
+          Math.max(terms.get(candidate) || 0, 1 / (1 + distance)),
+        );
+      }
+      if (candidates[0]) {
+        corrections[term] = candidates[0].term;
+      }
+    }
+
+    return { terms, corrections };
+  }
+
+  /**
+   * Index terms within `maxTypos(term)` edits of `term`, closest and then
+   * most common first.
+   */
+  private similarTerms(
+    term: string,
+    types?: Set<string>,
+  ): Array<{ term: string; distance: number }> {
+    const limit = maxTypos(term);
+    if (limit === 0) {
+      return [];
+    }
+
+    const candidates: Array<{ term: string; distance: number; df: number }> =
+      [];
+    for (const candidate of this.postings.keys()) {
+      if (Math.abs(candidate.length - term.length) > limit) {
+        continue;
+      }
+      const df = this.documentFrequency(candidate, types);
+      if (df === 0) {
+        continue;
+      }
+      const distance = editDistance(term, candidate, limit);
+      if (distance <= limit) {
+        candidates.push({ term: candidate, distance, df });
+      }
+    }
+
+    return candidates
+      .sort((a, b) => a.distance - b.distance || b.df - a.df)
+      .slice(0, MAX_FUZZY_TERMS);
+  }
+
+  /**
+   * Scores every document containing at least one query term, best match
+   * first. Misspelled query terms are matched fuzzily; `terms` lists the
+   * index terms that were searched, for highlighting, and `corrections`
+   * maps misspelled query terms to their closest index term. With `types`,
+   * the search behaves as if the index held only documents of those types,
+   * down to the corrections and scores.
+   */
+  search(query: string, types?: string[]): SearchMatches {
+    const allowed = types && new Set(types);
+    const { terms, corrections } = this.expand(query, allowed);
+    let count = this.documents.size;
+    let { totalLength } = this;
+    if (allowed) {
+      count = 0;
+      totalLength = 0;
+      for (const type of allowed) {
+        count += this.types.get(type)?.count ?? 0;
+        totalLength += this.types.get(type)?.length ?? 0;
+      }
+    }
+    const scores = new Map<string, number>();
+    const averageLength = count > 0 ? totalLength / count : 0;
+
+    for (const [term, weight] of terms) {
+      const posting = this.postings.get(term)!;
+      const df = this.documentFrequency(term, allowed);
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+      for (const [key, frequency] of posting) {
+        const document = this.documents.get(key)!;
+        if (allowed && !allowed.has(document.type)) {
+          continue;
+        }
+        const { length } = document;
+        const score =
+          (weight * idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / averageLength));
+        scores.set(key, (scores.get(key) || 0) + score);
+      }
+    }
+
+    const documents: ScoredDocument[] = [];
+    for (const [key, score] of scores) {
+      documents.push({ key, type: this.documents.get(key)!.type, score });
+    }
+
+    return {
+      documents: documents.sort((a, b) => b.score - a.score),
+      terms: Array.from(terms.keys()),
+      corrections,
+    };
+  }
+}
+
+export interface Completion {
+  group: string;
+  text: string;
+  /** Keys of the documents that contributed this completion */
+  keys: string[];
+}
+
+/**
+ * Completes prefixes of short phrases such as names, titles and tags. Every
+ * word of a phrase can start a match, so `"gran"` completes
+ * `"Awesome Granite Bike"`, and a multi-word prefix like `"granite b"` must
+ * match consecutive words. Phrases are kept per group; the same phrase
+ * added by several documents is listed once.
+ */
+export class PrefixIndex {
+  /** `group` + NUL + normalized phrase → completion */
+  private readonly completions = new Map<
+    string,
+    { group: string; text: string; keys: Set<string> }
+  >();
+  private readonly byDocument = new Map<string, string[]>();
+  /** Sorted `[normalized phrase suffix, completion id, word position]` */
+  private entries: Array<[string, string, number]> | undefined;
+
+  /**
+   * Adds the phrases of a document, replacing those it had before.
+   */
+  add(key: string, phrases: Array<{ group: string; text: string }>): void {
+    this.remove(key);
+
+    const ids: string[] = [];
+    for (const { group, text } of phrases) {
+      const normalized = tokenize(text).join(" ");
+      if (!normalized) {
+        continue;
+      }
+
+      const id = `${group}\u0000${normalized}`;
+      let completion = this.completions.get(id);
+      if (!completion) {
+        completion = { group, text, keys: new Set() };
+        this.completions.set(id, completion);
+        this.entries = undefined;
+      }
+      completion.keys.add(key);
+      ids.push(id);
+    }
+    this.byDocument.set(key, ids);
+  }
+
+  remove(key: string): void {
+    for (const id of this.byDocument.get(key) || []) {
+      const completion = this.completions.get(id)!;
+      completion.keys.delete(key);
+      if (completion.keys.size === 0) {
+        this.completions.delete(id);
+        this.entries = undefined;
+      }
+    }
+    this.byDocument.delete(key);
+  }
+
+  /**
+   * Completions of `prefix`, at most `limit` per group. Phrases starting
+   * with the prefix come first, then phrases added by more documents, then
+   * shorter phrases.
+   */
+  complete(
+    prefix: string,
+    limit: number,
+    groups?: string[],
+  ): Record<string, Completion[]> {
+    const normalized = tokenize(prefix).join(" ");
+    // A trailing space means the last word is complete
+    const query = /[^\p{L}\p{N}]$/u.test(prefix)
+      ? `${normalized} `
+      : normalized;
+    const grouped: Record<string, Completion[]> = {};
+    if (!normalized) {
+      return grouped;
+    }
+
+    const entries = this.sortedEntries();
+    const matches = new Map<string, number>();
+    for (
+      let i = lowerBound(entries, query);
+      i < entries.length && entries[i]![0].startsWith(query);
+      i++
+    ) {
+      const [, id, position] = entries[i]!;
+      matches.set(id, Math.min(matches.get(id) ?? position, position));
+    }
+
+    const ranked = Array.from(matches, ([id, position]) => ({
+      completion: this.completions.get(id)!,
+      position,
+    }))
+      .filter(({ completion }) => !groups || groups.includes(completion.group))
+      .sort(
+        (a, b) =>
+          Number(a.position > 0) - Number(b.position > 0) ||
+          b.completion.keys.size - a.completion.keys.size ||
+          a.completion.text.length - b.completion.text.length ||
+          a.completion.text.localeCompare(b.completion.text),
+      );
+
+    for (const { completion } of ranked) {
+      const group = (grouped[completion.group] ??= []);
+      if (group.length < limit) {
+        group.push({
+          group: completion.group,
+          text: completion.text,
+          keys: Array.from(completion.keys),
+        });
+      }
+    }
+    return grouped;
+  }
+
+  /**
+   * Phrase suffixes starting at each word, sorted for binary search. Rebuilt
+   * lazily after phrases were added or removed.
+   */
+  private sortedEntries(): Array<[string, string, number]> {
+    if (!this.entries) {
+      const entries: Array<[string, string, number]> = [];
+      for (const id of this.completions.keys()) {
+        const words = id.slice(id.indexOf("\u0000") + 1).split(" ");
+        words.forEach((_, position) =>
+          entries.push([words.slice(position).join(" "), id, position]),
+        );
+      }
+      this.entries = entries.sort((a, b) =>
+        a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0,
+      );
+    }
+    return this.entries;
+  }
+}
+
+/**
+ * Index of the first entry not sorting before `value`.
+ */
+function lowerBound(
+  entries: Array<[string, ...unknown[]]>,
+  value: string,
+): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle]![0] < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
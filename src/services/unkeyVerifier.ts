@@ -0,0 +1,101 @@
+import {
+  KeyVerificationCode,
+  KeyVerificationResult,
+  KeyVerifier,
+  RateLimitOverride,
+} from "../types";
+
+export interface UnkeyVerifierOptions {
+  baseUrl: string;
+  apiId?: string;
+  rootKey?: string;
+  timeoutMs?: number;
+}
+
+interface UnkeyVerifyResponse {
+  valid: boolean;
+  code?: string;
+  keyId?: string;
+  name?: string;
+  ownerId?: string;
+  permissions?: string[];
+  meta?: Record<string, any>;
+  expires?: number;
+}
+
+/**
+ * Verifies keys against an Unkey-compatible `keys.verifyKey` endpoint.
+ *
+ * The base URL is configurable so a local mock (see
+ * `scripts/mock-unkey.js`) can stand in for the hosted service.
+ */
+export class UnkeyVerifier implements KeyVerifier {
+  constructor(private readonly options: UnkeyVerifierOptions) {}
+
+  async verify(token: string): Promise<KeyVerificationResult> {
+    const url = `${this.options.baseUrl.replace(/\/$/, "")}/v1/keys.verifyKey`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.rootKey && {
+          Authorization: `Bearer ${this.options.rootKey}`,
+        }),
+      },
+      body: JSON.stringify({
+        key: token,
+        ...(this.options.apiId && { apiId: this.options.apiId }),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Key verification service responded with status ${response.status}`,
+      );
+    }
+
+    const result = (await response.json()) as UnkeyVerifyResponse;
+    if (!result.valid || !result.keyId) {
+      return { valid: false, code: UnkeyVerifier.mapCode(result.code) };
+    }
+
+    return {
+      valid: true,
+      code: "VALID",
+      key: {
+        id: result.keyId,
+        name: result.name || "Unnamed key",
+        ownerId: result.ownerId || result.keyId,
+        scopes: result.permissions || [],
+        ...(result.meta?.["ratelimit"] && {
+          ratelimit: result.meta["ratelimit"] as RateLimitOverride,
+        }),
+        meta: result.meta || {},
+        ...(result.expires && {
+          expiresAt: new Date(result.expires).toISOString(),
+        }),
+      },
+    };
+  }
+
+  /**
+   * Verifies a key that cannot exist, which only throws when the service
+   * is unreachable or fails.
+   */
+  async ping(): Promise<void> {
+    await this.verify("health_check_probe");
+  }
+
+  private static mapCode(code?: string): KeyVerificationCode {
+    switch (code) {
+      case "EXPIRED":
+        return "EXPIRED";
+      case "DISABLED":
+      case "REVOKED":
+        return "REVOKED";
+      default:
+        return "NOT_FOUND";
+    }
+  }
+}
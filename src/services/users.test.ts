@@ -0,0 +1,95 @@
+import { User } from "../types";
+import { DataGenerator } from "../utils/dataGenerator";
+import { setDataStore } from "./dataStore";
+import { InMemoryRepository } from "./repositories";
+import { patchUser, validateUserInput } from "./users";
+
+let alice: User;
+let bob: User;
+
+beforeEach(() => {
+  alice = { ...DataGenerator.generateUser(), username: "alice" };
+  bob = { ...DataGenerator.generateUser(), username: "bob" };
+
+  setDataStore({
+    users: new InMemoryRepository([alice, bob]),
+    products: new InMemoryRepository(),
+    orders: new InMemoryRepository(),
+    articles: new InMemoryRepository(),
+    notifications: new InMemoryRepository(),
+  });
+});
+
+function validatePatch(body: unknown) {
+  return validateUserInput(body, { partial: true, userId: alice.id });
+}
+
+describe("validateUserInput for PATCH", () => {
+  it("accepts a partial body", () => {
+    expect(validatePatch({ firstName: "Alice" })).toEqual([]);
+  });
+
+  it.each(["username", "email", "firstName", "isActive", "role"])(
+    "rejects a null %s",
+    (field) => {
+      expect(validatePatch({ [field]: null })).toEqual([
+        { field, message: "must not be null" },
+      ]);
+    },
+  );
+
+  it("rejects null nested fields", () => {
+    expect(
+      validatePatch({
+        profile: { bio: null },
+        preferences: { notifications: { email: null } },
+      }),
+    ).toEqual([
+      { field: "profile.bio", message: "must not be null" },
+      { field: "preferences.notifications.email", message: "must not be null" },
+    ]);
+  });
+
+  it("rejects a username taken by another user", () => {
+    expect(validatePatch({ username: "BOB" })).toEqual([
+      { field: "username", message: "is already taken" },
+    ]);
+    expect(validatePatch({ username: "alice" })).toEqual([]);
+  });
+
+  it("ignores read-only fields and rejects unknown ones", () => {
+    expect(validatePatch({ id: "other", stats: {} })).toEqual([]);
+    expect(validatePatch({ nickname: "al" })).toEqual([
+      { field: "nickname", message: "is not a known field" },
+    ]);
+  });
+});
+
+describe("validateUserInput for PUT", () => {
+  it("reports missing and null required fields", () => {
+    const errors = validateUserInput(
+      { username: null, email: "new@example.com", firstName: "New" },
+      { partial: false, userId: alice.id },
+    );
+
+    expect(errors).toEqual([
+      { field: "username", message: "must not be null" },
+      { field: "lastName", message: "is required" },
+    ]);
+  });
+});
+
+describe("patchUser", () => {
+  it("changes only the fields in the body", () => {
+    const patched = patchUser(alice, {
+      firstName: "Alicia",
+      profile: { ...alice.profile, bio: "Hello" },
+    });
+
+    expect(patched.firstName).toBe("Alicia");
+    expect(patched.username).toBe("alice");
+    expect(patched.email).toBe(alice.email);
+    expect(patched.profile.bio).toBe("Hello");
+    expect(patched.preferences).toEqual(alice.preferences);
+  });
+});
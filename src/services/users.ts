@@ -0,0 +1,202 @@
+import { v4 as uuidv4 } from "uuid";
+import { FieldError, User } from "../types";
+import { ObjectSchema, validateObject } from "../utils/validation";
+import { getDataStore } from "./dataStore";
+
+export const USER_ROLES = ["admin", "user", "moderator"] as const;
+export const USER_THEMES = ["light", "dark", "auto"] as const;
+
+/**
+ * Fields that clients may send (e.g. echoing a fetched user back in a PUT)
+ * but that are managed by the server and never taken from the body.
+ */
+const READ_ONLY_FIELDS = ["id", "createdAt", "updatedAt", "stats"];
+
+const userSchema: ObjectSchema = {
+  username: {
+    type: "string",
+    required: true,
+    minLength: 3,
+    maxLength: 30,
+    pattern: /^[A-Za-z0-9._-]+$/,
+    patternMessage: "may only contain letters, numbers, '.', '_' and '-'",
+  },
+  email: { type: "string", required: true, format: "email" },
+  firstName: { type: "string", required: true, minLength: 1, maxLength: 100 },
+  lastName: { type: "string", required: true, minLength: 1, maxLength: 100 },
+  avatar: { type: "string", format: "url" },
+  isActive: { type: "boolean" },
+  role: { type: "string", enum: USER_ROLES },
+  profile: {
+    type: "object",
+    fields: {
+      bio: { type: "string", maxLength: 2000 },
+      location: { type: "string", maxLength: 200 },
+      website: { type: "string", format: "url" },
+      socialLinks: {
+        type: "object",
+        fields: {
+          twitter: { type: "string" },
+          linkedin: { type: "string", format: "url" },
+          github: { type: "string", format: "url" },
+        },
+      },
+    },
+  },
+  preferences: {
+    type: "object",
+    fields: {
+      theme: { type: "string", enum: USER_THEMES },
+      notifications: {
+        type: "object",
+        fields: {
+          email: { type: "boolean" },
+          push: { type: "boolean" },
+          sms: { type: "boolean" },
+        },
+      },
+      language: { type: "string", minLength: 2, maxLength: 10 },
+    },
+  },
+};
+
+export type UserInput = Partial<
+  Omit<User, "id" | "createdAt" | "updatedAt" | "stats">
+>;
+
+/**
+ * Validates a create/replace (`partial: false`) or patch (`partial: true`)
+ * body, including username and email uniqueness against other users.
+ */
+export function validateUserInput(
+  body: unknown,
+  options: { partial: boolean; userId?: string },
+): FieldError[] {
+  const errors = validateObject(body, userSchema, {
+    partial: options.partial,
+    ignore: READ_ONLY_FIELDS,
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const input = body as UserInput;
+  const others = getDataStore().users.find(
+    (user) => user.id !== options.userId,
+  );
+
+  if (
+    input.username &&
+    others.some(
+      (user) => user.username.toLowerCase() === input.username!.toLowerCase(),
+    )
+  ) {
+    errors.push({ field: "username", message: "is already taken" });
+  }
+  if (
+    input.email &&
+    others.some(
+      (user) => user.email.toLowerCase() === input.email!.toLowerCase(),
+    )
+  ) {
+    errors.push({ field: "email", message: "is already registered" });
+  }
+
+  return errors;
+}
+
+/**
+ * Builds the user-editable part of a user from a validated body, filling in
+ * defaults for everything the body leaves out.
+ */
+function withDefaults(input: UserInput): UserInput {
+  return {
+    username: input.username,
+    email: input.email,
+    firstName: input.firstName,
+    lastName: input.lastName,
+    avatar: input.avatar || "",
+    isActive: input.isActive ?? true,
+    role: input.role || "user",
+    profile: {
+      bio: input.profile?.bio || "",
+      location: input.profile?.location || "",
+      website: input.profile?.website || "",
+      socialLinks: { ...input.profile?.socialLinks },
+    },
+    preferences: {
+      theme: input.preferences?.theme || "auto",
+      notifications: {
+        email: input.preferences?.notifications?.email ?? true,
+        push: input.preferences?.notifications?.push ?? false,
+        sms: input.preferences?.notifications?.sms ?? false,
+      },
+      language: input.preferences?.language || "en",
+    },
+  };
+}
+
+export function createUser(input: UserInput): User {
+  const now = new Date().toISOString();
+  const user = {
+    id: uuidv4(),
+    ...withDefaults(input),
+    createdAt: now,
+    updatedAt: now,
+    stats: {
+      loginCount: 0,
+      lastLoginAt: now,
+      postsCount: 0,
+      followersCount: 0,
+      followingCount: 0,
+    },
+  } as User;
+
+  return getDataStore().users.create(user);
+}
+
+export function replaceUser(user: User, input: UserInput): User {
+  return getDataStore().users.update(user.id, {
+    ...withDefaults(input),
+    updatedAt: new Date().toISOString(),
+  })!;
+}
+
+export function patchUser(user: User, input: UserInput): User {
+  return getDataStore().users.update(user.id, {
+    ...(input.username !== undefined && { username: input.username }),
+    ...(input.email !== undefined && { email: input.email }),
+    ...(input.firstName !== undefined && { firstName: input.firstName }),
+    ...(input.lastName !== undefined && { lastName: input.lastName }),
+    ...(input.avatar !== undefined && { avatar: input.avatar }),
+    ...(input.isActive !== undefined && { isActive: input.isActive }),
+    ...(input.role !== undefined && { role: input.role }),
+    profile: {
+      ...user.profile,
+      ...input.profile,
+      socialLinks: {
+        ...user.profile.socialLinks,
+        ...input.profile?.socialLinks,
+      },
+    },
+    preferences: {
+      ...user.preferences,
+      ...input.preferences,
+      notifications: {
+        ...user.preferences.notifications,
+        ...input.preferences?.notifications,
+      },
+    },
+    updatedAt: new Date().toISOString(),
+  })!;
+}
+
+/**
+ * Soft-deletes a user by marking it inactive; the record is kept.
+ */
+export function deactivateUser(user: User): User {
+  return getDataStore().users.update(user.id, {
+    isActive: false,
+    updatedAt: new Date().toISOString(),
+  })!;
+}
@@ -79,11 +79,22 @@ export interface Product {
   };
 }
 
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedAt: string;
+  note?: string;
+}
+
 export interface Order {
   id: string;
   orderNumber: string;
   customerId: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
   items: Array<{
     productId: string;
     productName: string;
@@ -107,7 +118,7 @@ export interface Order {
   };
   payment: {
     method: 'credit_card' | 'paypal' | 'bank_transfer' | 'crypto';
-    status: 'pending' | 'completed' | 'failed' | 'refunded';
+    status: PaymentStatus;
     transactionId: string;
     amount: number;
     currency: string;
@@ -125,9 +136,14 @@ export interface Order {
 }
 
 export interface Analytics {
+  /** A preset such as `last_30_days`, or `custom` for from/to ranges */
   period: string;
+  /** Currency of every revenue figure */
+  currency: string;
   startDate: string;
   endDate: string;
+  /** Length of each point in `trends` */
+  interval: 'day' | 'week';
   metrics: {
     totalUsers: number;
     activeUsers: number;
@@ -163,6 +179,25 @@ export interface Analytics {
     countries: Record<string, number>;
     devices: Record<string, number>;
   };
+  /** Custom events per name */
+  events: Record<string, number>;
+  comparison?: AnalyticsComparison;
+}
+
+export interface MetricChange {
+  previous: number;
+  /** Current minus previous value */
+  change: number;
+  /** Change relative to the previous value; null when that is 0 */
+  changePercent: number | null;
+}
+
+/** Metrics of the equally long period right before the analytics range */
+export interface AnalyticsComparison {
+  compare: 'previous_period';
+  startDate: string;
+  endDate: string;
+  metrics: Record<keyof Analytics['metrics'], MetricChange>;
 }
 
 export interface Article {
@@ -232,66 +267,282 @@ export interface ApiResponse<T = any> {
   };
   metadata?: {
     pagination?: {
-      page: number;
+      page?: number;
       limit: number;
       total: number;
       totalPages: number;
     };
+    conversion?: CurrencyConversion;
     timestamp: string;
     requestId: string;
     version: string;
   };
 }
 
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface PaginationCursors {
+  nextCursor?: string;
+  prevCursor?: string;
+}
+
 export interface PaginatedResponse<T = any> extends ApiResponse<T[]> {
   metadata: {
-    pagination: {
-      page: number;
+    pagination: PaginationCursors & {
+      /** Omitted for cursor-paginated responses */
+      page?: number;
       limit: number;
       total: number;
       totalPages: number;
       hasNext: boolean;
       hasPrev: boolean;
     };
+    conversion?: CurrencyConversion;
     timestamp: string;
     requestId: string;
     version: string;
   };
 }
 
+export type HealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface HealthProbeResult {
+  status: HealthStatus;
+  details?: Record<string, any>;
+}
+
+/**
+ * Checks one dependency of the service. A probe that throws, or does not
+ * settle within its timeout, reports the dependency as down.
+ */
+export interface HealthProbe {
+  name: string;
+  /** Whether the whole service is down while this dependency is */
+  critical?: boolean;
+  /** Overrides the configured probe timeout */
+  timeoutMs?: number;
+  check(): Promise<HealthProbeResult> | HealthProbeResult;
+}
+
+export interface HealthCheck extends HealthProbeResult {
+  name: string;
+  critical: boolean;
+  /** Milliseconds the probe took */
+  responseTime: number;
+  lastCheck: string;
+  error?: string;
+}
+
 export interface SystemHealth {
-  status: 'healthy' | 'degraded' | 'down';
+  status: HealthStatus;
   timestamp: string;
+  /** Seconds since the process started */
   uptime: number;
   version: string;
   environment: string;
-  services: Array<{
-    name: string;
-    status: 'healthy' | 'degraded' | 'down';
-    responseTime: number;
-    lastCheck: string;
-    details?: Record<string, any>;
-  }>;
+  services: HealthCheck[];
   performance: {
     cpu: {
+      /** Percentage of all cores busy since the previous check */
       usage: number;
       cores: number;
+      /** 1, 5 and 15 minute load averages */
+      loadAverage: number[];
     };
+    /** Bytes */
     memory: {
       used: number;
       total: number;
       percentage: number;
+      /** Resident set size of this process */
+      process: number;
     };
-    disk: {
+    /** Bytes on the file system holding the data directory */
+    disk?: {
       used: number;
       total: number;
       percentage: number;
     };
   };
-  database: {
-    status: 'connected' | 'disconnected' | 'error';
-    responseTime: number;
-    activeConnections: number;
-    maxConnections: number;
-  };
+}
+
+export type RateLimitStrategy = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  requestsPerMinute: number;
+  burstLimit: number;
+  strategy: RateLimitStrategy;
+}
+
+export type RateLimitOverride = Partial<Omit<RateLimitConfig, 'enabled'>>;
+
+export interface TaxRate {
+  /** ISO 3166-1 alpha-2 code, matched case-insensitively */
+  country: string;
+  /** Other spellings of the country found in addresses */
+  aliases?: string[];
+  /** State or province code; rates with a state take precedence */
+  state?: string;
+  rate: number;
+}
+
+export interface ShippingMethodConfig {
+  cost: number;
+  days: number;
+  /** Order value (after discounts) from which shipping is free */
+  freeShippingThreshold?: number;
+}
+
+export interface PricingConfig {
+  /** Rate used when no country or state rate matches */
+  defaultTaxRate: number;
+  taxRates: TaxRate[];
+  /** Whether shipping costs are taxed along with the goods */
+  taxShipping: boolean;
+  shippingMethods: Record<string, ShippingMethodConfig>;
+}
+
+export interface ExchangeRatesConfig {
+  /** Currency every rate is quoted against */
+  base: string;
+  /** When the rates were last updated */
+  updatedAt: string;
+  /** Units of each currency per unit of `base` */
+  rates: Record<string, number>;
+}
+
+/**
+ * Reported in response metadata when amounts were converted on request.
+ */
+export interface CurrencyConversion {
+  currency: string;
+  /** Applied rate per source currency */
+  rates: Record<string, number>;
+  ratesUpdatedAt: string;
+}
+
+export interface ReportJobsConfig {
+  /** Report jobs generated at the same time */
+  concurrency: number;
+  /** Jobs waiting to start before new ones are rejected */
+  maxQueued: number;
+  /** How long finished jobs and their output are kept */
+  ttlSeconds: number;
+}
+
+export interface AnalyticsEventsConfig {
+  /** Days of ingested traffic kept, counting back from today */
+  retentionDays: number;
+  /** Events accepted per `POST /api/analytics/events` request */
+  maxBatchSize: number;
+  /** Custom event names that mark a session as converted */
+  conversionEvents: string[];
+}
+
+export interface HealthConfig {
+  /** How long a health probe may take before its dependency counts as down */
+  probeTimeoutMs: number;
+}
+
+export interface ReportSchedulesConfig {
+  /** How long reports generated on a schedule are kept for download */
+  retentionSeconds: number;
+  /** Schedules each owner may define */
+  maxPerOwner: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  ownerId: string;
+  hash: string;
+  prefix: string;
+  scopes: string[];
+  ratelimit?: RateLimitOverride;
+  meta?: Record<string, any>;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export interface VerifiedKey {
+  id: string;
+  name: string;
+  ownerId: string;
+  scopes: string[];
+  ratelimit?: RateLimitOverride;
+  meta: Record<string, any>;
+  expiresAt?: string;
+}
+
+export type KeyVerificationCode = 'VALID' | 'NOT_FOUND' | 'REVOKED' | 'EXPIRED';
+
+export interface KeyVerificationResult {
+  valid: boolean;
+  code: KeyVerificationCode;
+  key?: VerifiedKey;
+}
+
+export interface KeyVerifier {
+  verify(token: string): Promise<KeyVerificationResult>;
+  /** Throws when a remote verification backend is unreachable */
+  ping?(): Promise<void>;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      apiKey?: VerifiedKey;
+      /** Currency amounts are converted to, if the client asked for one */
+      currency?: string;
+    }
+  }
+}
+
+export interface RepositoryChange<T extends { id: string }> {
+  type: 'create' | 'update' | 'delete';
+  id: string;
+  /** The entity after the change; absent for deletes */
+  item?: T;
+  /** The entity before the change; absent for creates */
+  previous?: T;
+}
+
+export interface Repository<T extends { id: string }> {
+  list(): T[];
+  count(): number;
+  get(id: string): T | undefined;
+  find(predicate: (item: T) => boolean): T[];
+  create(item: T): T;
+  update(id: string, changes: Partial<T>): T | undefined;
+  delete(id: string): boolean;
+  /**
+   * Calls `listener` after every mutation. Returns a function that removes
+   * the listener again.
+   */
+  subscribe(listener: (change: RepositoryChange<T>) => void): () => void;
+  /**
+   * Writes changes that are still pending to storage, for backends that
+   * batch their writes.
+   */
+  flush?(): Promise<void>;
+}
+
+export type UserRepository = Repository<User>;
+export type ProductRepository = Repository<Product>;
+export type OrderRepository = Repository<Order>;
+export type ArticleRepository = Repository<Article>;
+export type NotificationRepository = Repository<Notification>;
+
+export interface DataStore {
+  users: UserRepository;
+  products: ProductRepository;
+  orders: OrderRepository;
+  articles: ArticleRepository;
+  notifications: NotificationRepository;
 }
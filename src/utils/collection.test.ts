@@ -0,0 +1,324 @@
+import {
+  applySort,
+  CollectionFields,
+  CollectionQuery,
+  paginateCollection,
+  parseCollectionQuery,
+  selectFields,
+} from "./collection";
+
+interface Item {
+  id: string;
+  group: string;
+  rank: number;
+}
+
+const collectionFields: CollectionFields = {
+  filterable: { group: "string", rank: "number" },
+  selectable: ["id", "group", "rank"],
+};
+
+function parse(query: Record<string, unknown>): CollectionQuery {
+  const { query: parsed, error } = parseCollectionQuery(
+    query,
+    collectionFields,
+  );
+  expect(error).toBeUndefined();
+  return parsed;
+}
+
+/** Ten items in three groups, so sorting by group leaves ties */
+function createItems(): Item[] {
+  return Array.from({ length: 10 }, (_, index) => ({
+    id: `item-${String(9 - index).padStart(2, "0")}`,
+    group: ["b", "a", "c"][index % 3]!,
+    rank: index,
+  }));
+}
+
+/** Follows `nextCursor` from the first page to the last */
+function walk(items: Item[], query: Record<string, unknown>): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = paginateCollection(
+      items,
+      parse({ ...query, ...(cursor && { cursor }) }),
+    );
+    pages.push(page.data.map((item) => item.id as string));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe("parseCollectionQuery", () => {
+  it("parses multi-key sorts with a leading - for descending", () => {
+    const query = parse({ sort: "-group,rank" });
+
+    expect(query.sort).toEqual([
+      { field: "group", type: "string", direction: -1 },
+      { field: "rank", type: "number", direction: 1 },
+    ]);
+  });
+
+  it("rejects unknown sort fields", () => {
+    const { error } = parseCollectionQuery(
+      { sort: "rank,-missing" },
+      collectionFields,
+    );
+
+    expect(error?.code).toBe("INVALID_SORT");
+    expect(error?.details).toEqual([
+      { field: "missing", message: "is not a sortable field" },
+    ]);
+  });
+
+  it("always includes id in a sparse fieldset", () => {
+    expect(parse({ fields: "rank,group" }).fields).toEqual([
+      "id",
+      "rank",
+      "group",
+    ]);
+    expect(parse({}).fields).toBeUndefined();
+  });
+
+  it("rejects unknown fields", () => {
+    const { error } = parseCollectionQuery(
+      { fields: "rank,secret" },
+      collectionFields,
+    );
+
+    expect(error?.code).toBe("INVALID_FIELDS");
+    expect(error?.details).toEqual([
+      { field: "secret", message: "is not a selectable field" },
+    ]);
+  });
+
+  it("defaults to the first page of 10", () => {
+    const query = parse({});
+
+    expect(query.page).toBe(1);
+    expect(query.limit).toBe(10);
+    expect(query.cursor).toBeUndefined();
+  });
+
+  it.each([
+    [{ limit: "0" }, "limit", "must be between 1 and 100"],
+    [{ limit: "101" }, "limit", "must be between 1 and 100"],
+    [{ page: "0" }, "page", "must be between 1 and 10000"],
+    [{ page: "10001" }, "page", "must be between 1 and 10000"],
+    [{ page: "1.5" }, "page", "must be an integer between 1 and 10000"],
+    [{ page: "2", cursor: "abc" }, "cursor", "cannot be combined with page"],
+  ])("rejects %j", (query, field, message) => {
+    const { error } = parseCollectionQuery(query, collectionFields);
+
+    expect(error?.code).toBe("INVALID_PAGINATION");
+    expect(error?.details).toEqual([{ field, message }]);
+  });
+
+  it("rejects malformed cursors", () => {
+    const { error } = parseCollectionQuery(
+      { cursor: "not-a-cursor" },
+      collectionFields,
+    );
+
+    expect(error?.code).toBe("INVALID_CURSOR");
+  });
+
+  it("rejects cursors issued for another sort", () => {
+    const { nextCursor } = paginateCollection(
+      createItems(),
+      parse({ sort: "rank", limit: "2" }),
+    );
+    const { error } = parseCollectionQuery(
+      { sort: "-rank", cursor: nextCursor },
+      collectionFields,
+    );
+
+    expect(error?.code).toBe("INVALID_CURSOR");
+    expect(error?.details[0]?.message).toBe(
+      "was issued for sort 'rank' and cannot be used with sort '-rank'",
+    );
+  });
+});
+
+describe("applySort", () => {
+  it("sorts by each key in turn", () => {
+    const sorted = applySort(
+      createItems(),
+      parse({ sort: "group,-rank" }).sort,
+    );
+
+    expect(sorted.map((item) => `${item.group}${item.rank}`)).toEqual([
+      "a7",
+      "a4",
+      "a1",
+      "b9",
+      "b6",
+      "b3",
+      "b0",
+      "c8",
+      "c5",
+      "c2",
+    ]);
+  });
+
+  it("sorts items without a value last", () => {
+    const items = [
+      { id: "x", rank: undefined },
+      { id: "y", rank: 2 },
+      { id: "z", rank: 1 },
+    ];
+
+    expect(
+      applySort(items, parse({ sort: "rank" }).sort).map((item) => item.id),
+    ).toEqual(["z", "y", "x"]);
+  });
+
+  it("keeps the original order without a sort", () => {
+    const items = createItems();
+
+    expect(applySort(items, [])).toBe(items);
+  });
+});
+
+describe("selectFields", () => {
+  const product = {
+    id: "p1",
+    name: "Desk Lamp",
+    price: { amount: 25, currency: "USD" },
+  };
+
+  it("keeps the nesting of dotted paths", () => {
+    expect(selectFields(product, ["id", "price.amount"])).toEqual({
+      id: "p1",
+      price: { amount: 25 },
+    });
+  });
+
+  it("lets a selected parent cover its children", () => {
+    expect(selectFields(product, ["id", "price", "price.amount"])).toEqual({
+      id: "p1",
+      price: { amount: 25, currency: "USD" },
+    });
+  });
+
+  it("returns the entity as is without a fieldset", () => {
+    expect(selectFields(product)).toBe(product);
+  });
+});
+
+describe("paginateCollection", () => {
+  it("pages by page number", () => {
+    const page = paginateCollection(
+      createItems(),
+      parse({ sort: "rank", page: "2", limit: "4" }),
+    );
+
+    expect(page.data.map((item) => item.rank)).toEqual([4, 5, 6, 7]);
+    expect(page.total).toBe(10);
+    expect(page.nextCursor).toBeDefined();
+    expect(page.prevCursor).toBeDefined();
+  });
+
+  it("rejects a page past the last one", () => {
+    const page = paginateCollection(
+      createItems(),
+      parse({ page: "4", limit: "4" }),
+    );
+
+    expect(page.data).toEqual([]);
+    expect(page.error).toEqual({
+      code: "INVALID_PAGINATION",
+      message: "Invalid pagination parameters",
+      details: [{ field: "page", message: "must not exceed the last page, 3" }],
+    });
+  });
+
+  it("serves an empty first page for an empty collection", () => {
+    const page = paginateCollection([], parse({ page: "1" }));
+
+    expect(page.error).toBeUndefined();
+    expect(page.total).toBe(0);
+    expect(paginateCollection([], parse({ page: "2" })).error).toBeDefined();
+  });
+
+  it("breaks sort ties by id", () => {
+    const page = paginateCollection(createItems(), parse({ sort: "group" }));
+
+    expect(page.data.map((item) => item.id)).toEqual([
+      "item-02",
+      "item-05",
+      "item-08",
+      "item-00",
+      "item-03",
+      "item-06",
+      "item-09",
+      "item-01",
+      "item-04",
+      "item-07",
+    ]);
+  });
+
+  it("walks every item exactly once with cursors", () => {
+    const pages = walk(createItems(), { sort: "-group", limit: "3" });
+
+    expect(pages.map((page) => page.length)).toEqual([3, 3, 3, 1]);
+    expect(new Set(pages.flat()).size).toBe(10);
+  });
+
+  it("pages back with prevCursor", () => {
+    const items = createItems();
+    const second = paginateCollection(
+      items,
+      parse({ sort: "rank", page: "2", limit: "3" }),
+    );
+    const first = paginateCollection(
+      items,
+      parse({ sort: "rank", limit: "3", cursor: second.prevCursor }),
+    );
+
+    expect(first.data.map((item) => item.rank)).toEqual([0, 1, 2]);
+    expect(first.prevCursor).toBeUndefined();
+  });
+
+  it("does not repeat items inserted before the cursor", () => {
+    const items = createItems();
+    const first = paginateCollection(
+      items,
+      parse({ sort: "rank", limit: "3" }),
+    );
+    items.unshift({ id: "item-new", group: "a", rank: -1 });
+    const second = paginateCollection(
+      items,
+      parse({ sort: "rank", limit: "3", cursor: first.nextCursor }),
+    );
+
+    expect(second.data.map((item) => item.rank)).toEqual([3, 4, 5]);
+  });
+
+  it("resumes after a removed anchor among equal sort values", () => {
+    const items = createItems();
+    const first = paginateCollection(
+      items,
+      parse({ sort: "group", limit: "2" }),
+    );
+    // The anchor, item-05, shares its group with item-02 and item-08
+    const remaining = items.filter((item) => item.id !== "item-05");
+    const second = paginateCollection(
+      remaining,
+      parse({ sort: "group", limit: "2", cursor: first.nextCursor }),
+    );
+
+    expect(second.data.map((item) => item.id)).toEqual(["item-08", "item-00"]);
+  });
+
+  it("projects sparse fieldsets", () => {
+    const page = paginateCollection(
+      createItems(),
+      parse({ sort: "rank", limit: "1", fields: "rank" }),
+    );
+
+    expect(page.data).toEqual([{ id: "item-09", rank: 0 }]);
+  });
+});
@@ -0,0 +1,635 @@
+import { Request, Response } from "express";
+import { FieldError, PaginatedResponse } from "../types";
+import { DataGenerator } from "./dataGenerator";
+import {
+  applyFilters,
+  Filter,
+  FilterFields,
+  FilterFieldType,
+  getPath,
+  parseFilters,
+} from "./filters";
+
+/**
+ * Fields a collection route exposes to its query string.
+ */
+export interface CollectionFields {
+  /** Fields usable in filters and, except for `array` fields, in `sort` */
+  filterable: FilterFields;
+  /** Dotted paths accepted by `fields`, e.g. `price` or `price.amount` */
+  selectable: readonly string[];
+}
+
+export interface SortKey {
+  field: string;
+  type: FilterFieldType;
+  direction: 1 | -1;
+}
+
+/**
+ * Position decoded from an opaque `cursor` parameter: the item the page
+ * starts after (`next`) or ends before (`prev`).
+ */
+export interface Cursor {
+  id: string;
+  /** Sort key values of the anchor item, to re-locate it once deleted */
+  values: unknown[];
+  /** Index of the anchor item when the cursor was issued */
+  index: number;
+  /** Sort the cursor was issued for, as in the `sort` parameter */
+  sort: string;
+  direction: "next" | "prev";
+}
+
+export interface CollectionQuery {
+  filters: Filter[];
+  sort: SortKey[];
+  /** Requested sparse fieldset, or undefined for full entities */
+  fields?: string[];
+  page: number;
+  limit: number;
+  cursor?: Cursor;
+}
+
+export interface CollectionQueryError {
+  code:
+    | "INVALID_FILTER"
+    | "INVALID_SORT"
+    | "INVALID_FIELDS"
+    | "INVALID_PAGINATION"
+    | "INVALID_CURSOR";
+  message: string;
+  details: FieldError[];
+}
+
+/**
+ * One page of a collection, with the cursors of its neighbouring pages.
+ */
+export interface CollectionPage<T> {
+  data: Array<T | Record<string, unknown>>;
+  total: number;
+  nextCursor?: string;
+  prevCursor?: string;
+  /** Set when `page` lies beyond the last page */
+  error?: CollectionQueryError;
+}
+
+export const DEFAULT_LIMIT = 10;
+export const MAX_LIMIT = 100;
+export const MAX_PAGE = 10000;
+
+export interface ParsedCollectionQuery {
+  query: CollectionQuery;
+  error?: CollectionQueryError;
+}
+
+function parseList(raw: unknown): string[] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Array.isArray(raw) ? raw.join(",") : raw;
+  return typeof value === "string"
+    ? value.split(",").map((part) => part.trim())
+    : [];
+}
+
+/**
+ * Parses `sort=-createdAt,price.amount`. A leading `-` sorts descending.
+ */
+export function parseSort(
+  raw: unknown,
+  fields: FilterFields,
+): { sort: SortKey[]; errors: FieldError[] } {
+  const sort: SortKey[] = [];
+  const errors: FieldError[] = [];
+
+  for (const part of parseList(raw) || []) {
+    const descending = part.startsWith("-");
+    const field = part.replace(/^[-+]/, "");
+
+    if (!field) {
+      errors.push({ field: "sort", message: "contains an empty sort key" });
+    } else if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+      errors.push({ field, message: "is not a sortable field" });
+    } else if (fields[field] === "array") {
+      errors.push({ field, message: "is an array and cannot be sorted on" });
+    } else {
+      const type = fields[field] as FilterFieldType;
+      sort.push({ field, type, direction: descending ? -1 : 1 });
+    }
+  }
+
+  return { sort, errors };
+}
+
+/**
+ * Parses `fields=id,name,price`. `id` is always included in the result.
+ */
+export function parseFieldset(
+  raw: unknown,
+  selectable: readonly string[],
+): { fields?: string[]; errors: FieldError[] } {
+  const requested = parseList(raw);
+  if (!requested) {
+    return { errors: [] };
+  }
+
+  const errors: FieldError[] = [];
+  for (const field of requested) {
+    if (!field) {
+      errors.push({ field: "fields", message: "contains an empty field" });
+    } else if (!selectable.includes(field)) {
+      errors.push({ field, message: "is not a selectable field" });
+    }
+  }
+
+  return { fields: Array.from(new Set(["id", ...requested])), errors };
+}
+
+function sortSignature(sort: SortKey[]): string {
+  return sort
+    .map((key) => `${key.direction < 0 ? "-" : ""}${key.field}`)
+    .join(",");
+}
+
+export function parseInteger(
+  raw: unknown,
+  field: string,
+  min: number,
+  max: number,
+): number | FieldError {
+  const range =
+    max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+  if (typeof raw !== "string" || !/^\d+$/.test(raw)) {
+    return { field, message: `must be an integer ${range}` };
+  }
+  const value = Number(raw);
+  return value < min || value > max
+    ? { field, message: `must be ${range}` }
+    : value;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  const payload = {
+    i: cursor.id,
+    v: cursor.values,
+    n: cursor.index,
+    s: cursor.sort,
+    d: cursor.direction,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+function decodeCursor(raw: unknown, sort: SortKey[]): Cursor | FieldError {
+  const invalid = { field: "cursor", message: "is not a valid cursor" };
+  if (typeof raw !== "string" || raw === "") {
+    return invalid;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return invalid;
+  }
+
+  const { i, v, n, s, d } = payload ?? {};
+  if (
+    typeof i !== "string" ||
+    !Array.isArray(v) ||
+    typeof n !== "number" ||
+    typeof s !== "string" ||
+    (d !== "next" && d !== "prev")
+  ) {
+    return invalid;
+  }
+  if (s !== sortSignature(sort)) {
+    const describe = (signature: string) =>
+      signature ? `sort '${signature}'` : "the default order";
+    return {
+      field: "cursor",
+      message: `was issued for ${describe(s)} and cannot be used with ${describe(sortSignature(sort))}`,
+    };
+  }
+
+  return { id: i, values: v, index: n, sort: s, direction: d };
+}
+
+/**
+ * Parses `page`, `limit` and `cursor`. `limit` defaults to 10 and may not
+ * exceed 100, `page` may not exceed 10000; `page` and `cursor` are mutually
+ * exclusive.
+ */
+export function parsePagination(
+  query: Record<string, unknown>,
+  sort: SortKey[],
+): {
+  page: number;
+  limit: number;
+  cursor?: Cursor;
+  errors: FieldError[];
+  cursorErrors: FieldError[];
+} {
+  const errors: FieldError[] = [];
+  const cursorErrors: FieldError[] = [];
+  let page = 1;
+  let limit = DEFAULT_LIMIT;
+  let cursor: Cursor | undefined;
+
+  if (query["limit"] !== undefined) {
+    const value = parseInteger(query["limit"], "limit", 1, MAX_LIMIT);
+    if (typeof value === "number") {
+      limit = value;
+    } else {
+      errors.push(value);
+    }
+  }
+  if (query["page"] !== undefined) {
+    const value = parseInteger(query["page"], "page", 1, MAX_PAGE);
+    if (typeof value === "number") {
+      page = value;
+    } else {
+      errors.push(value);
+    }
+  }
+  if (query["cursor"] !== undefined) {
+    if (query["page"] !== undefined) {
+      errors.push({ field: "cursor", message: "cannot be combined with page" });
+    } else {
+      const value = decodeCursor(query["cursor"], sort);
+      if ("id" in value) {
+        cursor = value;
+      } else {
+        cursorErrors.push(value);
+      }
+    }
+  }
+
+  return { page, limit, ...(cursor && { cursor }), errors, cursorErrors };
+}
+
+/**
+ * Parses filters, `sort`, `fields` and pagination from a list route's query
+ * string. Parameters in `reserved` are left for the route to handle. The first
+ * invalid part of the query is reported in `error`.
+ */
+export function parseCollectionQuery(
+  query: Record<string, unknown>,
+  fields: CollectionFields,
+  reserved: string[] = [],
+): ParsedCollectionQuery {
+  const filters = parseFilters(query, fields.filterable, reserved);
+  const sort = parseSort(query["sort"], fields.filterable);
+  const fieldset = parseFieldset(query["fields"], fields.selectable);
+  const pagination = parsePagination(query, sort.sort);
+
+  const parsed: ParsedCollectionQuery = {
+    query: {
+      filters: filters.filters,
+      sort: sort.sort,
+      ...(fieldset.fields && { fields: fieldset.fields }),
+      page: pagination.page,
+      limit: pagination.limit,
+      ...(pagination.cursor && { cursor: pagination.cursor }),
+    },
+  };
+
+  if (filters.errors.length > 0) {
+    parsed.error = {
+      code: "INVALID_FILTER",
+      message: "Invalid filter parameters",
+      details: filters.errors,
+    };
+  } else if (sort.errors.length > 0) {
+    parsed.error = {
+      code: "INVALID_SORT",
+      message: "Invalid sort parameter",
+      details: sort.errors,
+    };
+  } else if (fieldset.errors.length > 0) {
+    parsed.error = {
+      code: "INVALID_FIELDS",
+      message: "Invalid fields parameter",
+      details: fieldset.errors,
+    };
+  } else if (pagination.errors.length > 0) {
+    parsed.error = {
+      code: "INVALID_PAGINATION",
+      message: "Invalid pagination parameters",
+      details: pagination.errors,
+    };
+  } else if (pagination.cursorErrors.length > 0) {
+    parsed.error = {
+      code: "INVALID_CURSOR",
+      message: "Invalid cursor",
+      details: pagination.cursorErrors,
+    };
+  }
+
+  return parsed;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function compareValues(a: unknown, b: unknown, type: FilterFieldType): number {
+  if (type === "string") {
+    return String(a).localeCompare(String(b));
+  }
+  if (type === "date") {
+    return Date.parse(String(a)) - Date.parse(String(b));
+  }
+  return Number(a) - Number(b);
+}
+
+function sortValues(item: unknown, sort: SortKey[]): unknown[] {
+  return sort.map((key) => getPath(item, key.field));
+}
+
+function compareSortValues(
+  left: unknown[],
+  right: unknown[],
+  sort: SortKey[],
+): number {
+  for (const [index, key] of sort.entries()) {
+    const a = left[index];
+    const b = right[index];
+
+    if (isMissing(a) || isMissing(b)) {
+      if (isMissing(a) !== isMissing(b)) {
+        return isMissing(a) ? 1 : -1;
+      }
+      continue;
+    }
+
+    const result = compareValues(a, b, key.type) * key.direction;
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compares two positions in a sorted collection: sort values first, then
+ * ids, so no two entities tie.
+ */
+function comparePositions(
+  left: { values: unknown[]; id: string },
+  right: { values: unknown[]; id: string },
+  sort: SortKey[],
+): number {
+  const result = compareSortValues(left.values, right.values, sort);
+  if (result !== 0 || left.id === right.id) {
+    return result;
+  }
+  return left.id < right.id ? -1 : 1;
+}
+
+/**
+ * Sorts entities by the given keys. Entities without a value for a key
+ * always sort last; ties are broken by id, so cursors can re-locate an
+ * entity's position after it is removed.
+ */
+export function applySort<T extends { id: string }>(
+  items: T[],
+  sort: SortKey[],
+): T[] {
+  if (sort.length === 0) {
+    return items;
+  }
+
+  return [...items].sort((left, right) =>
+    comparePositions(
+      { values: sortValues(left, sort), id: left.id },
+      { values: sortValues(right, sort), id: right.id },
+      sort,
+    ),
+  );
+}
+
+/**
+ * Filters and sorts entities. Pagination is left to the caller.
+ */
+export function applyCollectionQuery<T extends { id: string }>(
+  items: T[],
+  query: CollectionQuery,
+): T[] {
+  return applySort(applyFilters(items, query.filters), query.sort);
+}
+
+/**
+ * Projects an entity onto a sparse fieldset, keeping the nesting of dotted
+ * paths (`price.amount` yields `{ price: { amount } }`).
+ */
+export function selectFields<T>(
+  item: T,
+  fields?: string[],
+): T | Record<string, unknown> {
+  if (!fields) {
+    return item;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = getPath(item, field);
+    // Skip `price.amount` when `price` is selected as a whole
+    const coveredByParent = fields.some((other) =>
+      field.startsWith(`${other}.`),
+    );
+    if (value === undefined || coveredByParent) {
+      continue;
+    }
+
+    const keys = field.split(".");
+    const last = keys.pop() as string;
+    let target = result;
+    for (const key of keys) {
+      const next = target[key];
+      if (typeof next !== "object" || next === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[last] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Finds where a cursor's page starts (`next`) or ends (`prev`). The anchor
+ * item is looked up by id, so pages stay stable when items are inserted
+ * elsewhere. If the anchor has since been removed, its sort values and
+ * id (or, without a sort, its last known index) are used instead.
+ */
+function locateCursor<T extends { id: string }>(
+  items: T[],
+  cursor: Cursor,
+  sort: SortKey[],
+): number {
+  const index = items.findIndex((item) => item.id === cursor.id);
+  if (index >= 0) {
+    return cursor.direction === "next" ? index + 1 : index;
+  }
+  if (sort.length === 0) {
+    return Math.min(cursor.index, items.length);
+  }
+
+  const position = items.findIndex(
+    (item) =>
+      comparePositions(
+        { values: sortValues(item, sort), id: item.id },
+        cursor,
+        sort,
+      ) > 0,
+  );
+  return position >= 0 ? position : items.length;
+}
+
+function cursorFor<T extends { id: string }>(
+  items: T[],
+  index: number,
+  sort: SortKey[],
+  direction: Cursor["direction"],
+): string {
+  const item = items[index] as T;
+  return encodeCursor({
+    id: item.id,
+    values: sortValues(item, sort),
+    index,
+    sort: sortSignature(sort),
+    direction,
+  });
+}
+
+/**
+ * Filters, sorts and paginates a collection, then applies `transform` and
+ * the requested sparse fieldset to the page. The page is addressed by
+ * `cursor` when one was given, otherwise by `page`; cursors for the
+ * neighbouring pages are returned either way, so a client can switch to
+ * cursors after the first page. A `page` beyond the last page is reported
+ * in `error` instead.
+ */
+export function paginateCollection<T extends { id: string }>(
+  items: T[],
+  query: CollectionQuery,
+  transform: (item: T) => T = (item) => item,
+): CollectionPage<T> {
+  const ordered = applyCollectionQuery(items, query);
+
+  let start = (query.page - 1) * query.limit;
+  let end = start + query.limit;
+  if (query.cursor) {
+    const position = locateCursor(ordered, query.cursor, query.sort);
+    start =
+      query.cursor.direction === "next"
+        ? position
+        : Math.max(0, position - query.limit);
+    end = query.cursor.direction === "next" ? position + query.limit : position;
+  }
+
+  const lastPage = Math.max(1, Math.ceil(ordered.length / query.limit));
+  if (!query.cursor && query.page > lastPage) {
+    return {
+      data: [],
+      total: ordered.length,
+      error: {
+        code: "INVALID_PAGINATION",
+        message: "Invalid pagination parameters",
+        details: [
+          {
+            field: "page",
+            message: `must not exceed the last page, ${lastPage}`,
+          },
+        ],
+      },
+    };
+  }
+
+  const page = ordered.slice(start, end);
+  const last = start + page.length - 1;
+
+  return {
+    data: page.map((item) => selectFields(transform(item), query.fields)),
+    total: ordered.length,
+    ...(page.length > 0 &&
+      last < ordered.length - 1 && {
+        nextCursor: cursorFor(ordered, last, query.sort, "next"),
+      }),
+    ...(page.length > 0 &&
+      start > 0 && {
+        prevCursor: cursorFor(ordered, start, query.sort, "prev"),
+      }),
+  };
+}
+
+/**
+ * Wraps a collection page in the standard paginated response envelope.
+ */
+export function createCollectionResponse<T>(
+  result: CollectionPage<T>,
+  query: CollectionQuery,
+): PaginatedResponse<T | Record<string, unknown>> {
+  const cursors = {
+    ...(result.nextCursor && { nextCursor: result.nextCursor }),
+    ...(result.prevCursor && { prevCursor: result.prevCursor }),
+  };
+
+  return query.cursor
+    ? DataGenerator.createCursorPaginatedResponse(
+        result.data,
+        query.limit,
+        result.total,
+        cursors,
+      )
+    : DataGenerator.createPaginatedResponse(
+        result.data,
+        query.page,
+        query.limit,
+        result.total,
+        cursors,
+      );
+}
+
+/**
+ * Sets an RFC 8288 `Link` header with `next` and `prev` relations. Page
+ * requests link to neighbouring page numbers, cursor requests to cursors.
+ */
+export function setPaginationLinks(
+  req: Request,
+  res: Response,
+  result: CollectionPage<unknown>,
+  query: CollectionQuery,
+): void {
+  const link = (param: "page" | "cursor", value: string, rel: string) => {
+    const url = new URL(req.originalUrl, "http://localhost");
+    url.searchParams.delete("page");
+    url.searchParams.delete("cursor");
+    url.searchParams.set(param, value);
+    return `<${url.pathname}${url.search}>; rel="${rel}"`;
+  };
+
+  const links: string[] = [];
+  if (query.cursor) {
+    if (result.nextCursor) {
+      links.push(link("cursor", result.nextCursor, "next"));
+    }
+    if (result.prevCursor) {
+      links.push(link("cursor", result.prevCursor, "prev"));
+    }
+  } else {
+    const totalPages = Math.ceil(result.total / query.limit);
+    if (query.page < totalPages) {
+      links.push(link("page", String(query.page + 1), "next"));
+    }
+    if (query.page > 1) {
+      links.push(link("page", String(query.page - 1), "prev"));
+    }
+  }
+
+  if (links.length > 0) {
+    res.setHeader("Link", links.join(", "));
+  }
+}
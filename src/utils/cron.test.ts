@@ -0,0 +1,102 @@
+import { CronExpression, nextCronRun, parseCron } from "./cron";
+
+function parse(expression: string): CronExpression {
+  const cron = parseCron(expression);
+  if (typeof cron === "string") {
+    throw new Error(`'${expression}' did not parse: ${cron}`);
+  }
+  return cron;
+}
+
+function next(expression: string, after: string): string | undefined {
+  return nextCronRun(parse(expression), new Date(after))?.toISOString();
+}
+
+describe("parseCron", () => {
+  it("expands wildcards, ranges, steps and lists", () => {
+    const cron = parse("*/15 9-17/4 1,15 * *");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect(cron.restrictedDays).toBe(false);
+  });
+
+  it("reads a single value with a step as running to the end of the range", () => {
+    expect([...parse("50/5 * * * *").minutes]).toEqual([50, 55]);
+  });
+
+  it("accepts month and weekday names and 7 for Sunday", () => {
+    const cron = parse("0 8 * jan,DEC sun,7,Mon");
+
+    expect([...cron.months]).toEqual([1, 12]);
+    expect([...cron.daysOfWeek].sort()).toEqual([0, 1]);
+  });
+
+  it("expands macros", () => {
+    expect(parse("@weekly").source).toBe("@weekly");
+    expect([...parse("@daily").hours]).toEqual([0]);
+    expect([...parse("@hourly").minutes]).toEqual([0]);
+  });
+
+  it.each([
+    ["* * * *", "must have 5 fields"],
+    ["60 * * * *", "invalid minute field '60'"],
+    ["* 5-1 * * *", "invalid hour field '5-1'"],
+    ["*/0 * * * *", "invalid step in minute field '*/0'"],
+    ["* * 0 * *", "invalid day of month field '0'"],
+    ["* * * foo *", "invalid month field 'foo'"],
+  ])("rejects '%s'", (expression, message) => {
+    expect(parseCron(expression)).toEqual(expect.stringContaining(message));
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute, exclusive of the current one", () => {
+    expect(next("*/15 * * * *", "2024-03-10T10:15:00Z")).toBe(
+      "2024-03-10T10:30:00.000Z",
+    );
+    expect(next("*/15 * * * *", "2024-03-10T10:14:59Z")).toBe(
+      "2024-03-10T10:15:00.000Z",
+    );
+  });
+
+  it("rolls over hours, days, months and years", () => {
+    expect(next("30 8 * * *", "2024-03-10T09:00:00Z")).toBe(
+      "2024-03-11T08:30:00.000Z",
+    );
+    expect(next("0 0 1 * *", "2024-01-31T12:00:00Z")).toBe(
+      "2024-02-01T00:00:00.000Z",
+    );
+    expect(next("@yearly", "2024-06-01T00:00:00Z")).toBe(
+      "2025-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("finds leap days", () => {
+    expect(next("0 12 29 2 *", "2024-03-01T00:00:00Z")).toBe(
+      "2028-02-29T12:00:00.000Z",
+    );
+  });
+
+  it("matches either restricted day field", () => {
+    // 2024-03-10 is a Sunday; the 13th is the next day of month
+    expect(next("0 0 13 * mon", "2024-03-10T00:00:00Z")).toBe(
+      "2024-03-11T00:00:00.000Z",
+    );
+    expect(next("0 0 13 * mon", "2024-03-11T00:00:00Z")).toBe(
+      "2024-03-13T00:00:00.000Z",
+    );
+  });
+
+  it("requires both day fields when one is a wildcard", () => {
+    expect(next("0 0 * * fri", "2024-03-10T00:00:00Z")).toBe(
+      "2024-03-15T00:00:00.000Z",
+    );
+  });
+
+  it("gives up on dates that never occur", () => {
+    expect(next("0 0 30 2 *", "2024-01-01T00:00:00Z")).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month
+ * and day of week. Times are evaluated in UTC.
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 (Sunday) to 6 */
+  daysOfWeek: Set<number>;
+  /** Whether neither day of month nor day of week starts with `*` */
+  restrictedDays: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  {
+    name: "day of week",
+    min: 0,
+    // 7 is accepted for Sunday as well
+    max: 7,
+    names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Runs are searched this far ahead before giving up, e.g. for 30 Feb */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseValue(value: string, spec: FieldSpec): number | undefined {
+  const named = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named !== -1) {
+    return named + (spec.name === "month" ? 1 : 0);
+  }
+  if (!/^\d+$/.test(value)) {
+    return undefined;
+  }
+  const number = Number(value);
+  return number >= spec.min && number <= spec.max ? number : undefined;
+}
+
+/**
+ * Parses one field: `*`, values, ranges (`1-5`), steps (`*\/15`, `1-30/2`)
+ * and comma-separated lists of those.
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      return `invalid step in ${spec.name} field '${part}'`;
+    }
+
+    let start: number | undefined;
+    let end: number | undefined;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const [from = "", to] = range.split("-");
+      start = parseValue(from, spec);
+      end = to === undefined ? start : parseValue(to, spec);
+      // `5/15` means every 15 from 5 to the end of the range
+      if (to === undefined && stepText !== undefined) {
+        end = spec.max;
+      }
+    }
+    if (start === undefined || end === undefined || start > end) {
+      return `invalid ${spec.name} field '${part}', expected values from ${spec.min} to ${spec.max}`;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression such as `0 8 * * mon` (08:00 UTC on Mondays)
+ * or one of the macros `@hourly`, `@daily`, `@weekly`, `@monthly` and
+ * `@yearly`. Returns an error message for invalid expressions.
+ */
+export function parseCron(expression: string): CronExpression | string {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5) {
+    return "must have 5 fields: minute, hour, day of month, month and day of week";
+  }
+
+  const parsed: Array<Set<number>> = [];
+  for (const [i, field] of fields.entries()) {
+    const values = parseField(field, FIELDS[i]!);
+    if (typeof values === "string") {
+      return values;
+    }
+    parsed.push(values);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as [
+    Set<number>,
+    Set<number>,
+    Set<number>,
+    Set<number>,
+    Set<number>,
+  ];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDays: !fields[2]!.startsWith("*") && !fields[4]!.startsWith("*"),
+  };
+}
+
+/**
+ * Whether the cron runs on the day of `date`. As in cron, when both day
+ * of month and day of week are restricted, matching either is enough.
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  return cron.restrictedDays
+    ? dayOfMonth || dayOfWeek
+    : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time after `after` (exclusive, at minute precision) the cron
+ * runs, or undefined if it never does, e.g. for `0 0 30 2 *`.
+ */
+export function nextCronRun(
+  cron: CronExpression,
+  after: Date,
+): Date | undefined {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return undefined;
+}
@@ -1,32 +1,108 @@
-import * as faker from "faker";
+import faker from "faker";
 import { v4 as uuidv4 } from "uuid";
 import {
   User,
   Product,
   Order,
-  Analytics,
+  OrderStatus,
+  PaymentStatus,
   Article,
   Notification,
-  SystemHealth,
   ApiResponse,
   PaginatedResponse,
-} from "../types";     
+  PaginationCursors,
+} from "../types";
+
+const DEFAULT_REFERENCE_DATE = "2024-01-01T00:00:00.000Z";
 
 export class DataGenerator {
+  private static activeSeed: number | undefined;
+
+  /**
+   * Runs `fn` with faker seeded so that every generator call inside it is
+   * reproducible, including ids and timestamps. While seeded, dates are
+   * relative to `MOCK_REFERENCE_DATE` (default 2024-01-01) instead of the
+   * clock. Calls may be nested; the outer sequence stays deterministic.
+   */
+  static withSeed<T>(seed: number, fn: () => T): T {
+    const outerSeed = DataGenerator.activeSeed;
+    const resumeSeed =
+      outerSeed !== undefined
+        ? faker.datatype.number({ min: 0, max: 2147483647 })
+        : undefined;
+
+    DataGenerator.activeSeed = seed;
+    faker.seed(seed);
+
+    try {
+      return fn();
+    } finally {
+      DataGenerator.activeSeed = outerSeed;
+      faker.seed(resumeSeed ?? Math.floor(Math.random() * 2147483647));
+    }
+  }
+
+  /**
+   * Derives a seed from any string, e.g. an entity id or a seed header.
+   * Numeric strings are used as-is.
+   */
+  static parseSeed(value: string): number {
+    if (/^\d+$/.test(value)) {
+      return parseInt(value, 10) % 2147483648;
+    }
+
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % 2147483648;
+  }
+
+  /**
+   * Generates the entity that belongs to `id`: the same id always yields
+   * the same entity.
+   */
+  static generateForId<T extends { id: string }>(
+    id: string,
+    generator: () => T,
+  ): T {
+    return {
+      ...DataGenerator.withSeed(DataGenerator.parseSeed(id), generator),
+      id,
+    };
+  }
+
+  static referenceDate(): Date {
+    if (DataGenerator.activeSeed === undefined) {
+      return new Date();
+    }
+    return DataGenerator.mockReferenceDate();
+  }
+
+  /** The "now" of seeded generation, `MOCK_REFERENCE_DATE` */
+  static mockReferenceDate(): Date {
+    return new Date(
+      process.env["MOCK_REFERENCE_DATE"] || DEFAULT_REFERENCE_DATE,
+    );
+  }
+
   static generateUser(): User {
+    const now = DataGenerator.referenceDate();
     const firstName = faker.name.firstName();
     const lastName = faker.name.lastName();
     const username = faker.internet.userName(firstName, lastName);
 
     return {
-      id: uuidv4(),
+      id: faker.datatype.uuid(),
       username,
       email: faker.internet.email(firstName, lastName),
       firstName,
       lastName,
       avatar: faker.internet.avatar(),
-      createdAt: faker.date.past(2).toISOString(),
-      updatedAt: faker.date.recent(30).toISOString(),
+      createdAt: faker.date.past(2, now).toISOString(),
+      updatedAt: faker.date.recent(30, now).toISOString(),
       isActive: faker.datatype.boolean(),
       role: faker.random.arrayElement(["admin", "user", "moderator"]),
       profile: {
@@ -61,7 +137,7 @@ export class DataGenerator {
       },
       stats: {
         loginCount: faker.datatype.number({ min: 1, max: 1000 }),
-        lastLoginAt: faker.date.recent(7).toISOString(),
+        lastLoginAt: faker.date.recent(7, now).toISOString(),
         postsCount: faker.datatype.number({ min: 0, max: 500 }),
         followersCount: faker.datatype.number({ min: 0, max: 10000 }),
         followingCount: faker.datatype.number({ min: 0, max: 2000 }),
@@ -70,6 +146,7 @@ export class DataGenerator {
   }
 
   static generateProduct(): Product {
+    const now = DataGenerator.referenceDate();
     const name = faker.commerce.productName();
     const originalPrice = faker.datatype.number({ min: 10, max: 1000 });
     const hasDiscount = faker.datatype.boolean();
@@ -79,9 +156,14 @@ export class DataGenerator {
     const price = hasDiscount
       ? Math.round(originalPrice * (1 - discountPercentage! / 100))
       : originalPrice;
+    const stock = faker.datatype.number({ min: 0, max: 1000 });
+    const reserved = faker.datatype.number({
+      min: 0,
+      max: Math.min(50, stock),
+    });
 
     return {
-      id: uuidv4(),
+      id: faker.datatype.uuid(),
       name,
       description: faker.lorem.paragraphs(2),
       category: faker.commerce.department(),
@@ -106,9 +188,9 @@ export class DataGenerator {
         certified: faker.datatype.boolean(),
       },
       inventory: {
-        stock: faker.datatype.number({ min: 0, max: 1000 }),
-        reserved: faker.datatype.number({ min: 0, max: 50 }),
-        available: faker.datatype.number({ min: 0, max: 950 }),
+        stock,
+        reserved,
+        available: stock - reserved,
         lowStockThreshold: faker.datatype.number({ min: 5, max: 20 }),
       },
       ratings: {
@@ -128,9 +210,9 @@ export class DataGenerator {
         { length: faker.datatype.number({ min: 2, max: 8 }) },
         () => faker.lorem.word(),
       ),
-      createdAt: faker.date.past(1).toISOString(),
-      updatedAt: faker.date.recent(30).toISOString(),
-      isActive: Math.random() > 0.1,
+      createdAt: faker.date.past(1, now).toISOString(),
+      updatedAt: faker.date.recent(30, now).toISOString(),
+      isActive: faker.datatype.number({ min: 1, max: 10 }) > 1,
       seoData: {
         title: `${name} - Best Deal Online`,
         description: faker.lorem.sentences(2),
@@ -143,12 +225,13 @@ export class DataGenerator {
   }
 
   static generateOrder(): Order {
+    const now = DataGenerator.referenceDate();
     const itemCount = faker.datatype.number({ min: 1, max: 5 });
     const items = Array.from({ length: itemCount }, () => {
       const unitPrice = faker.datatype.number({ min: 10, max: 500 });
       const quantity = faker.datatype.number({ min: 1, max: 3 });
       return {
-        productId: uuidv4(),
+        productId: faker.datatype.uuid(),
         productName: faker.commerce.productName(),
         quantity,
         unitPrice,
@@ -165,18 +248,50 @@ export class DataGenerator {
       : 0;
     const total = subtotal + tax + shippingCost - discount;
 
+    // Seeded orders carry a plausible history for their current status
+    const status = faker.random.arrayElement<OrderStatus>([
+      "pending",
+      "processing",
+      "shipped",
+      "delivered",
+      "cancelled",
+      "refunded",
+    ]);
+    const lifecycle: Record<OrderStatus, OrderStatus[]> = {
+      pending: ["pending"],
+      processing: ["pending", "processing"],
+      shipped: ["pending", "processing", "shipped"],
+      delivered: ["pending", "processing", "shipped", "delivered"],
+      cancelled: ["pending", "cancelled"],
+      refunded: ["pending", "processing", "shipped", "delivered", "refunded"],
+    };
+    const paymentStatus: Record<OrderStatus, PaymentStatus> = {
+      pending: "pending",
+      processing: "completed",
+      shipped: "completed",
+      delivered: "completed",
+      cancelled: "failed",
+      refunded: "refunded",
+    };
+    const createdAt = faker.date.past(0.5, now);
+    const updatedAt = faker.date.between(createdAt, now);
+    const steps = lifecycle[status];
+    const statusHistory = steps.map((step, index) => ({
+      status: step,
+      changedAt: new Date(
+        createdAt.getTime() +
+          ((updatedAt.getTime() - createdAt.getTime()) * index) /
+            Math.max(steps.length - 1, 1),
+      ).toISOString(),
+    }));
+    const shipped = steps.includes("shipped");
+
     return {
-      id: uuidv4(),
+      id: faker.datatype.uuid(),
       orderNumber: `ORD-${faker.datatype.number({ min: 100000, max: 999999 })}`,
-      customerId: uuidv4(),
-      status: faker.random.arrayElement([
-        "pending",
-        "processing",
-        "shipped",
-        "delivered",
-        "cancelled",
-        "refunded",
-      ]),
+      customerId: faker.datatype.uuid(),
+      status,
+      statusHistory,
       items,
       shipping: {
         address: {
@@ -193,8 +308,8 @@ export class DataGenerator {
           "ground",
         ]),
         cost: shippingCost,
-        estimatedDelivery: faker.date.future(0.1).toISOString(),
-        ...(faker.datatype.boolean() && {
+        estimatedDelivery: faker.date.future(0.1, now).toISOString(),
+        ...(shipped && {
           trackingNumber: faker.random.alphaNumeric(12).toUpperCase(),
         }),
       },
@@ -205,12 +320,7 @@ export class DataGenerator {
           "bank_transfer",
           "crypto",
         ]),
-        status: faker.random.arrayElement([
-          "pending",
-          "completed",
-          "failed",
-          "refunded",
-        ]),
+        status: paymentStatus[status],
         transactionId: faker.random.alphaNumeric(16),
         amount: total,
         currency: "USD",
@@ -222,132 +332,28 @@ export class DataGenerator {
         discount,
         total,
       },
-      createdAt: faker.date.past(0.5).toISOString(),
-      updatedAt: faker.date.recent(7).toISOString(),
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
       notes: faker.datatype.boolean() ? faker.lorem.sentence() : undefined,
     };
   }
 
-  static generateAnalytics(): Analytics {
-    const startDate = faker.date.past(1);
-    const endDate = new Date();
-    const days = Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24),
-    );
-
-    const trends = Array.from({ length: Math.min(days, 30) }, (_, i) => {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      return {
-        date: date.toISOString().split("T")[0]!,
-        users: faker.datatype.number({ min: 100, max: 5000 }),
-        revenue: faker.datatype.number({ min: 1000, max: 50000 }),
-        orders: faker.datatype.number({ min: 10, max: 500 }),
-        pageViews: faker.datatype.number({ min: 500, max: 20000 }),
-      };
-    });
-
-    return {
-      period: "last_30_days",
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
-      metrics: {
-        totalUsers: faker.datatype.number({ min: 10000, max: 100000 }),
-        activeUsers: faker.datatype.number({ min: 1000, max: 10000 }),
-        newUsers: faker.datatype.number({ min: 500, max: 5000 }),
-        totalRevenue: faker.datatype.number({ min: 50000, max: 1000000 }),
-        totalOrders: faker.datatype.number({ min: 1000, max: 10000 }),
-        averageOrderValue: faker.datatype.number({ min: 50, max: 500 }),
-        conversionRate: parseFloat(
-          faker.datatype.float({ min: 1, max: 15, precision: 0.1 }).toFixed(1),
-        ),
-        bounceRate: parseFloat(
-          faker.datatype.float({ min: 20, max: 80, precision: 0.1 }).toFixed(1),
-        ),
-        pageViews: faker.datatype.number({ min: 100000, max: 1000000 }),
-        uniqueVisitors: faker.datatype.number({ min: 50000, max: 500000 }),
-      },
-      trends,
-      topProducts: Array.from({ length: 10 }, () => ({
-        id: uuidv4(),
-        name: faker.commerce.productName(),
-        sales: faker.datatype.number({ min: 10, max: 1000 }),
-        revenue: faker.datatype.number({ min: 1000, max: 50000 }),
-      })),
-      trafficSources: [
-        {
-          source: "Organic Search",
-          visitors: faker.datatype.number({ min: 1000, max: 10000 }),
-          percentage: 0,
-        },
-        {
-          source: "Social Media",
-          visitors: faker.datatype.number({ min: 500, max: 5000 }),
-          percentage: 0,
-        },
-        {
-          source: "Direct",
-          visitors: faker.datatype.number({ min: 800, max: 8000 }),
-          percentage: 0,
-        },
-        {
-          source: "Email",
-          visitors: faker.datatype.number({ min: 300, max: 3000 }),
-          percentage: 0,
-        },
-        {
-          source: "Paid Search",
-          visitors: faker.datatype.number({ min: 200, max: 2000 }),
-          percentage: 0,
-        },
-      ].map((source) => {
-        const totalVisitors = 20000; // Mock total for percentage calculation
-        return {
-          ...source,
-          percentage: parseFloat(
-            ((source.visitors / totalVisitors) * 100).toFixed(1),
-          ),
-        };
-      }),
-      demographics: {
-        ageGroups: {
-          "18-24": faker.datatype.number({ min: 500, max: 5000 }),
-          "25-34": faker.datatype.number({ min: 1000, max: 10000 }),
-          "35-44": faker.datatype.number({ min: 800, max: 8000 }),
-          "45-54": faker.datatype.number({ min: 600, max: 6000 }),
-          "55+": faker.datatype.number({ min: 400, max: 4000 }),
-        },
-        countries: {
-          "United States": faker.datatype.number({ min: 5000, max: 50000 }),
-          Canada: faker.datatype.number({ min: 1000, max: 10000 }),
-          "United Kingdom": faker.datatype.number({ min: 800, max: 8000 }),
-          Germany: faker.datatype.number({ min: 600, max: 6000 }),
-          France: faker.datatype.number({ min: 500, max: 5000 }),
-        },
-        devices: {
-          Desktop: faker.datatype.number({ min: 3000, max: 30000 }),
-          Mobile: faker.datatype.number({ min: 4000, max: 40000 }),
-          Tablet: faker.datatype.number({ min: 1000, max: 10000 }),
-        },
-      },
-    };
-  }
-
   static generateArticle(): Article {
+    const now = DataGenerator.referenceDate();
     const title = faker.lorem.words(faker.datatype.number({ min: 3, max: 8 }));
     const slug = title
       .toLowerCase()
       .replace(/\s+/g, "-")
       .replace(/[^\w-]+/g, "");
     const author = {
-      id: uuidv4(),
+      id: faker.datatype.uuid(),
       name: faker.name.findName(),
       avatar: faker.internet.avatar(),
       bio: faker.lorem.sentence(),
     };
 
     return {
-      id: uuidv4(),
+      id: faker.datatype.uuid(),
       title,
       slug,
       content: faker.lorem.paragraphs(
@@ -367,9 +373,9 @@ export class DataGenerator {
         { length: faker.datatype.number({ min: 2, max: 6 }) },
         () => faker.lorem.word(),
       ),
-      featured: Math.random() < 0.2,
-      publishedAt: faker.date.past(1).toISOString(),
-      updatedAt: faker.date.recent(30).toISOString(),
+      featured: faker.datatype.number({ min: 1, max: 5 }) === 1,
+      publishedAt: faker.date.past(1, now).toISOString(),
+      updatedAt: faker.date.recent(30, now).toISOString(),
       status: faker.random.arrayElement(["draft", "published", "archived"]),
       seo: {
         title: `${title} | Blog`,
@@ -398,7 +404,8 @@ export class DataGenerator {
   }
 
   static generateNotification(): Notification {
-    const userId = uuidv4();
+    const now = DataGenerator.referenceDate();
+    const userId = faker.datatype.uuid();
     const type = faker.random.arrayElement([
       "info",
       "success",
@@ -408,14 +415,14 @@ export class DataGenerator {
     ]) as "info" | "success" | "warning" | "error" | "promotion";
 
     return {
-      id: uuidv4(),
+      id: faker.datatype.uuid(),
       userId,
       type,
       title: faker.lorem.words(faker.datatype.number({ min: 2, max: 6 })),
       message: faker.lorem.sentences(faker.datatype.number({ min: 1, max: 3 })),
       data: faker.datatype.boolean()
         ? {
-            orderId: uuidv4(),
+            orderId: faker.datatype.uuid(),
             amount: faker.datatype.number({ min: 10, max: 1000 }),
             productName: faker.commerce.productName(),
           }
@@ -427,83 +434,20 @@ export class DataGenerator {
         faker.datatype.number({ min: 1, max: 3 }),
       ),
       scheduledFor: faker.datatype.boolean()
-        ? faker.date.future(1).toISOString()
+        ? faker.date.future(1, now).toISOString()
         : undefined,
-      createdAt: faker.date.recent(7).toISOString(),
+      createdAt: faker.date.recent(7, now).toISOString(),
       readAt: faker.datatype.boolean()
-        ? faker.date.recent(3).toISOString()
+        ? faker.date.recent(3, now).toISOString()
         : undefined,
       actionUrl: faker.datatype.boolean() ? faker.internet.url() : undefined,
       actionText: faker.datatype.boolean() ? faker.lorem.words(2) : undefined,
       expiresAt: faker.datatype.boolean()
-        ? faker.date.future(1).toISOString()
+        ? faker.date.future(1, now).toISOString()
         : undefined,
     };
   }
 
-  static generateSystemHealth(): SystemHealth {
-    const services = [
-      "database",
-      "redis",
-      "api-gateway",
-      "user-service",
-      "order-service",
-      "payment-service",
-      "notification-service",
-    ];
-
-    return {
-      status: faker.random.arrayElement(["healthy", "degraded", "down"]),
-      timestamp: new Date().toISOString(),
-      uptime: faker.datatype.number({ min: 3600, max: 2592000 }), // 1 hour to 30 days in seconds
-      version: `v${faker.datatype.number({ min: 1, max: 3 })}.${faker.datatype.number({ min: 0, max: 20 })}.${faker.datatype.number({ min: 0, max: 50 })}`,
-      environment: faker.random.arrayElement([
-        "production",
-        "staging",
-        "development",
-      ]),
-      services: services.map((serviceName) => ({
-        name: serviceName,
-        status: faker.random.arrayElement(["healthy", "degraded", "down"]),
-        responseTime: faker.datatype.number({ min: 1, max: 500 }),
-        lastCheck: faker.date.recent(0.1).toISOString(),
-        ...(faker.datatype.boolean() && {
-          details: {
-            connections: faker.datatype.number({ min: 1, max: 100 }),
-            memoryUsage: `${faker.datatype.number({ min: 10, max: 90 })}%`,
-            cpuUsage: `${faker.datatype.number({ min: 5, max: 95 })}%`,
-          },
-        }),
-      })),
-      performance: {
-        cpu: {
-          usage: faker.datatype.number({ min: 10, max: 85 }),
-          cores: faker.random.arrayElement([2, 4, 8, 16, 32]),
-        },
-        memory: {
-          used: faker.datatype.number({ min: 1, max: 16 }),
-          total: faker.random.arrayElement([8, 16, 32, 64]),
-          percentage: faker.datatype.number({ min: 20, max: 80 }),
-        },
-        disk: {
-          used: faker.datatype.number({ min: 10, max: 800 }),
-          total: faker.random.arrayElement([256, 512, 1024, 2048]),
-          percentage: faker.datatype.number({ min: 15, max: 75 }),
-        },
-      },
-      database: {
-        status: faker.random.arrayElement([
-          "connected",
-          "disconnected",
-          "error",
-        ]),
-        responseTime: faker.datatype.number({ min: 1, max: 100 }),
-        activeConnections: faker.datatype.number({ min: 5, max: 50 }),
-        maxConnections: faker.datatype.number({ min: 100, max: 200 }),
-      },
-    };
-  }
-
   static createApiResponse<T>(
     data: T,
     success: boolean = true,
@@ -527,11 +471,34 @@ export class DataGenerator {
     };
   }
 
+  static createErrorResponse(
+    code: string,
+    message: string,
+    details?: any,
+  ): ApiResponse<null> {
+    return {
+      success: false,
+      data: null,
+      message,
+      error: {
+        code,
+        message,
+        ...(details !== undefined && { details }),
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId: uuidv4(),
+        version: "v1.0.0",
+      },
+    };
+  }
+
   static createPaginatedResponse<T>(
     data: T[],
     page: number = 1,
     limit: number = 10,
     total?: number,
+    cursors: PaginationCursors = {},
   ): PaginatedResponse<T> {
     const actualTotal = total || data.length;
     const totalPages = Math.ceil(actualTotal / limit);
@@ -547,6 +514,36 @@ export class DataGenerator {
           totalPages,
           hasNext: page < totalPages,
           hasPrev: page > 1,
+          ...cursors,
+        },
+        timestamp: new Date().toISOString(),
+        requestId: uuidv4(),
+        version: "v1.0.0",
+      },
+    };
+  }
+
+  /**
+   * Like `createPaginatedResponse`, for pages addressed by cursor rather
+   * than page number. `hasNext`/`hasPrev` follow from the cursors present.
+   */
+  static createCursorPaginatedResponse<T>(
+    data: T[],
+    limit: number,
+    total: number,
+    cursors: PaginationCursors,
+  ): PaginatedResponse<T> {
+    return {
+      success: true,
+      data,
+      metadata: {
+        pagination: {
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: cursors.nextCursor !== undefined,
+          hasPrev: cursors.prevCursor !== undefined,
+          ...cursors,
         },
         timestamp: new Date().toISOString(),
         requestId: uuidv4(),
@@ -0,0 +1,79 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BucketSize = "day" | "week" | "month";
+
+export interface Bucket {
+  start: number;
+  /** Exclusive */
+  end: number;
+}
+
+export function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a YYYY-MM-DD date as UTC midnight, rejecting dates that do not
+ * exist such as 2024-02-30.
+ */
+export function parseDate(date: string): number | undefined {
+  const time = Date.parse(`${date}T00:00:00.000Z`);
+  return Number.isNaN(time) || formatDate(time) !== date ? undefined : time;
+}
+
+/**
+ * Start of the bucket after the one containing `time`. Weeks start on
+ * Monday.
+ */
+function nextBucketStart(time: number, size: BucketSize): number {
+  const date = new Date(time);
+  switch (size) {
+    case "day":
+      return time + DAY_MS;
+    case "week":
+      return time + (7 - ((date.getUTCDay() + 6) % 7)) * DAY_MS;
+    case "month":
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+}
+
+/**
+ * Splits a range into consecutive buckets, stopping after `limit + 1`
+ * buckets. The first and last bucket are cut off at the range, so a
+ * weekly range starting on a Wednesday starts with a Wednesday–Sunday
+ * bucket.
+ */
+export function createBuckets(
+  start: number,
+  end: number,
+  size: BucketSize,
+  limit = Infinity,
+): Bucket[] {
+  const buckets: Bucket[] = [];
+  for (let time = start; time < end && buckets.length <= limit;) {
+    const next = Math.min(nextBucketStart(time, size), end);
+    buckets.push({ start: time, end: next });
+    time = next;
+  }
+  return buckets;
+}
+
+/**
+ * Index of the bucket containing `time`, or -1 outside the range.
+ */
+export function findBucket(buckets: Bucket[], time: number): number {
+  let low = 0;
+  let high = buckets.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const bucket = buckets[middle]!;
+    if (time < bucket.start) {
+      high = middle - 1;
+    } else if (time >= bucket.end) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,122 @@
+import { applyFilters, FilterFields, getPath, parseFilters } from "./filters";
+
+const fields: FilterFields = {
+  name: "string",
+  status: "string",
+  "price.amount": "number",
+  isActive: "boolean",
+  createdAt: "date",
+  tags: "array",
+};
+
+const items = [
+  {
+    id: "a",
+    name: "Desk Lamp",
+    status: "active",
+    price: { amount: 25 },
+    isActive: true,
+    createdAt: "2024-01-10T00:00:00Z",
+    tags: ["home", "light"],
+  },
+  {
+    id: "b",
+    name: "Office Chair",
+    status: "archived",
+    price: { amount: 150 },
+    isActive: false,
+    createdAt: "2024-02-10T00:00:00Z",
+    tags: ["office"],
+  },
+  {
+    id: "c",
+    name: "Standing Desk",
+    status: "active",
+    price: { amount: 400 },
+    isActive: true,
+    createdAt: "2024-03-10T00:00:00Z",
+    tags: ["office", "home"],
+  },
+];
+
+function ids(query: Record<string, unknown>): string[] {
+  const { filters, errors } = parseFilters(query, fields);
+  expect(errors).toEqual([]);
+  return applyFilters(items, filters).map((item) => item.id);
+}
+
+describe("getPath", () => {
+  it("reads dotted paths and stops at missing values", () => {
+    expect(getPath(items[0], "price.amount")).toBe(25);
+    expect(getPath(items[0], "price.currency")).toBeUndefined();
+    expect(getPath(items[0], "name.first")).toBeUndefined();
+  });
+});
+
+describe("parseFilters", () => {
+  it("treats a plain parameter as equality and repeats as any of", () => {
+    expect(ids({ status: "active" })).toEqual(["a", "c"]);
+    expect(ids({ name: ["Desk Lamp", "Office Chair"] })).toEqual(["a", "b"]);
+  });
+
+  it("applies comparison operators to numbers and dates", () => {
+    expect(ids({ "price.amount": { gte: "150", lt: "400" } })).toEqual(["b"]);
+    expect(ids({ createdAt: { gt: "2024-02-01" } })).toEqual(["b", "c"]);
+  });
+
+  it("parses booleans and list operators", () => {
+    expect(ids({ isActive: "false" })).toEqual(["b"]);
+    expect(ids({ status: { nin: "archived, deleted" } })).toEqual(["a", "c"]);
+    expect(ids({ name: { contains: "DESK" } })).toEqual(["a", "c"]);
+  });
+
+  it("matches array fields by membership", () => {
+    expect(ids({ tags: "light" })).toEqual(["a"]);
+    expect(ids({ tags: { in: "light,office" } })).toEqual(["a", "b", "c"]);
+    expect(ids({ tags: { all: "office,home" } })).toEqual(["c"]);
+    expect(ids({ tags: { nin: "home" } })).toEqual(["b"]);
+  });
+
+  it("skips reserved parameters", () => {
+    const { filters, errors } = parseFilters(
+      { page: "2", sort: "name", q: "desk", status: "active" },
+      fields,
+      ["q"],
+    );
+
+    expect(errors).toEqual([]);
+    expect(filters).toEqual([
+      { field: "status", type: "string", operator: "eq", values: ["active"] },
+    ]);
+  });
+
+  it("reports unknown fields, unsupported operators and bad values", () => {
+    const { errors } = parseFilters(
+      {
+        color: "red",
+        name: { gt: "a" },
+        "price.amount": { gte: "cheap" },
+        isActive: "yes",
+        createdAt: { lt: "soon" },
+        status: { eq: ["a", "b"] },
+      },
+      fields,
+    );
+
+    expect(errors).toEqual([
+      { field: "color", message: "is not a filterable field" },
+      {
+        field: "name",
+        message:
+          "unsupported operator 'gt', expected one of: eq, ne, in, nin, contains",
+      },
+      { field: "price.amount", message: "'cheap' is not a number" },
+      {
+        field: "isActive",
+        message: "'yes' is not a boolean (true or false)",
+      },
+      { field: "createdAt", message: "'soon' is not an ISO 8601 date" },
+      { field: "status", message: "operator 'eq' expects a single value" },
+    ]);
+  });
+});
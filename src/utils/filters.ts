@@ -0,0 +1,259 @@
+import { FieldError } from "../types";
+
+export type FilterFieldType =
+  "string" | "number" | "boolean" | "date" | "array";
+
+export type FilterOperator =
+  "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "nin" | "contains" | "all";
+
+/**
+ * Filterable fields of an entity, keyed by dotted path (e.g. `price.amount`).
+ * `array` fields are arrays of strings such as `tags`.
+ */
+export type FilterFields = Record<string, FilterFieldType>;
+
+export type FilterValue = string | number | boolean;
+
+export interface Filter {
+  field: string;
+  type: FilterFieldType;
+  operator: FilterOperator;
+  values: FilterValue[];
+}
+
+export interface ParsedFilters {
+  filters: Filter[];
+  errors: FieldError[];
+}
+
+/**
+ * Query parameters shared by all list endpoints that are never treated as
+ * filters.
+ */
+export const RESERVED_PARAMS = [
+  "page",
+  "limit",
+  "cursor",
+  "seed",
+  "sort",
+  "fields",
+  "currency",
+];
+
+const OPERATORS: Record<FilterFieldType, FilterOperator[]> = {
+  string: ["eq", "ne", "in", "nin", "contains"],
+  number: ["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin"],
+  boolean: ["eq", "ne"],
+  date: ["eq", "ne", "gt", "gte", "lt", "lte"],
+  array: ["eq", "in", "nin", "all"],
+};
+
+const LIST_OPERATORS: FilterOperator[] = ["in", "nin", "all"];
+
+/**
+ * Reads a dotted path such as `price.amount` from an entity.
+ */
+export function getPath(item: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, item);
+}
+
+function parseValue(
+  raw: string,
+  type: FilterFieldType,
+  field: string,
+): FilterValue | FieldError {
+  switch (type) {
+    case "number": {
+      const value = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(value)
+        ? value
+        : { field, message: `'${raw}' is not a number` };
+    }
+    case "boolean":
+      if (raw === "true" || raw === "false") {
+        return raw === "true";
+      }
+      return { field, message: `'${raw}' is not a boolean (true or false)` };
+    case "date": {
+      const value = Date.parse(raw);
+      return Number.isNaN(value)
+        ? { field, message: `'${raw}' is not an ISO 8601 date` }
+        : value;
+    }
+    default:
+      return raw;
+  }
+}
+
+function parseCondition(
+  field: string,
+  type: FilterFieldType,
+  operator: string,
+  raw: unknown,
+): Filter | FieldError[] {
+  if (!OPERATORS[type].includes(operator as FilterOperator)) {
+    return [
+      {
+        field,
+        message: `unsupported operator '${operator}', expected one of: ${OPERATORS[type].join(", ")}`,
+      },
+    ];
+  }
+
+  if (typeof raw !== "string") {
+    return [
+      { field, message: `operator '${operator}' expects a single value` },
+    ];
+  }
+
+  const op = operator as FilterOperator;
+  const parts = LIST_OPERATORS.includes(op)
+    ? raw.split(",").map((part) => part.trim())
+    : [raw];
+
+  const values: FilterValue[] = [];
+  const errors: FieldError[] = [];
+  for (const part of parts) {
+    const value = parseValue(part, type, field);
+    if (typeof value === "object") {
+      errors.push(value);
+    } else {
+      values.push(value);
+    }
+  }
+
+  return errors.length > 0 ? errors : { field, type, operator: op, values };
+}
+
+/**
+ * Parses list filters from a query string. Two forms are accepted:
+ *
+ * - `field=value` matches on equality; repeating the parameter
+ *   (`status=a&status=b`) matches any of the values.
+ * - `field[op]=value` applies an operator, e.g. `price.amount[gte]=10`,
+ *   `createdAt[lt]=2024-01-01` or `tags[in]=a,b`.
+ *
+ * Parameters in `RESERVED_PARAMS` and `reserved` are skipped. Unknown fields,
+ * unsupported operators and values of the wrong type are returned as errors.
+ */
+export function parseFilters(
+  query: Record<string, unknown>,
+  fields: FilterFields,
+  reserved: string[] = [],
+): ParsedFilters {
+  const skipped = new Set([...RESERVED_PARAMS, ...reserved]);
+  const filters: Filter[] = [];
+  const errors: FieldError[] = [];
+
+  for (const [field, raw] of Object.entries(query)) {
+    if (skipped.has(field)) {
+      continue;
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+      errors.push({ field, message: "is not a filterable field" });
+      continue;
+    }
+
+    const type = fields[field] as FilterFieldType;
+    const conditions: Array<[string, unknown]> =
+      typeof raw === "object" && raw !== null && !Array.isArray(raw)
+        ? Object.entries(raw)
+        : Array.isArray(raw)
+          ? [["in", raw.join(",")]]
+          : [["eq", raw]];
+
+    for (const [operator, value] of conditions) {
+      const result = parseCondition(field, type, operator, value);
+      if (Array.isArray(result)) {
+        errors.push(...result);
+      } else {
+        filters.push(result);
+      }
+    }
+  }
+
+  return { filters, errors };
+}
+
+function normalize(value: unknown, type: FilterFieldType): unknown {
+  if (type === "date" && typeof value === "string") {
+    return Date.parse(value);
+  }
+  return value;
+}
+
+function matchesScalar(value: unknown, filter: Filter): boolean {
+  const [first] = filter.values;
+
+  switch (filter.operator) {
+    case "eq":
+      return value === first;
+    case "ne":
+      return value !== first;
+    case "in":
+      return filter.values.includes(value as FilterValue);
+    case "nin":
+      return !filter.values.includes(value as FilterValue);
+    case "contains":
+      return (
+        typeof value === "string" &&
+        value.toLowerCase().includes(String(first).toLowerCase())
+      );
+    default:
+      if (typeof value !== "number" || typeof first !== "number") {
+        return false;
+      }
+      if (filter.operator === "gt") {
+        return value > first;
+      }
+      if (filter.operator === "gte") {
+        return value >= first;
+      }
+      if (filter.operator === "lt") {
+        return value < first;
+      }
+      return value <= first;
+  }
+}
+
+function matchesArray(value: unknown, filter: Filter): boolean {
+  const items = Array.isArray(value) ? value : [];
+
+  switch (filter.operator) {
+    case "eq":
+      return items.includes(filter.values[0]);
+    case "in":
+      return filter.values.some((candidate) => items.includes(candidate));
+    case "nin":
+      return !filter.values.some((candidate) => items.includes(candidate));
+    default:
+      return filter.values.every((candidate) => items.includes(candidate));
+  }
+}
+
+/**
+ * Returns true when `item` satisfies every filter.
+ */
+export function matchesFilters(item: unknown, filters: Filter[]): boolean {
+  return filters.every((filter) => {
+    const value = normalize(getPath(item, filter.field), filter.type);
+    return filter.type === "array"
+      ? matchesArray(value, filter)
+      : matchesScalar(value, filter);
+  });
+}
+
+/**
+ * Applies parsed filters to a list of entities.
+ */
+export function applyFilters<T>(items: T[], filters: Filter[]): T[] {
+  return filters.length === 0
+    ? items
+    : items.filter((item) => matchesFilters(item, filters));
+}
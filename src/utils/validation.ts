@@ -0,0 +1,212 @@
+import { FieldError } from "../types";
+
+interface BaseRule {
+  required?: boolean;
+}
+
+export interface StringRule extends BaseRule {
+  type: "string";
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  format?: "email" | "url" | "date-time";
+  enum?: readonly string[];
+}
+
+export interface NumberRule extends BaseRule {
+  type: "number";
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface BooleanRule extends BaseRule {
+  type: "boolean";
+}
+
+export interface ObjectRule extends BaseRule {
+  type: "object";
+  fields: ObjectSchema;
+}
+
+export interface ArrayRule extends BaseRule {
+  type: "array";
+  items: FieldRule;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type FieldRule =
+  StringRule | NumberRule | BooleanRule | ObjectRule | ArrayRule;
+
+export type ObjectSchema = Record<string, FieldRule>;
+
+export interface ValidateOptions {
+  /** Skip `required` checks, for PATCH-style partial updates */
+  partial?: boolean;
+  /** Top-level fields that are accepted but not validated (e.g. read-only) */
+  ignore?: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateString(
+  value: unknown,
+  rule: StringRule,
+  field: string,
+): FieldError[] {
+  if (typeof value !== "string") {
+    return [{ field, message: "must be a string" }];
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    return [{ field, message: `must be one of: ${rule.enum.join(", ")}` }];
+  }
+  if (rule.minLength !== undefined && value.trim().length < rule.minLength) {
+    return [
+      { field, message: `must be at least ${rule.minLength} characters` },
+    ];
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return [{ field, message: `must be at most ${rule.maxLength} characters` }];
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    return [{ field, message: rule.patternMessage || "has an invalid format" }];
+  }
+  if (rule.format === "email" && !EMAIL_PATTERN.test(value)) {
+    return [{ field, message: "must be a valid email address" }];
+  }
+  // Empty strings are accepted as "no URL", matching generated entities
+  if (rule.format === "url" && value !== "") {
+    try {
+      new URL(value);
+    } catch {
+      return [{ field, message: "must be a valid URL" }];
+    }
+  }
+  if (rule.format === "date-time" && Number.isNaN(Date.parse(value))) {
+    return [{ field, message: "must be an ISO 8601 date-time" }];
+  }
+  return [];
+}
+
+function validateNumber(
+  value: unknown,
+  rule: NumberRule,
+  field: string,
+): FieldError[] {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return [{ field, message: "must be a number" }];
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    return [{ field, message: "must be an integer" }];
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return [{ field, message: `must be at least ${rule.min}` }];
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return [{ field, message: `must be at most ${rule.max}` }];
+  }
+  return [];
+}
+
+function validateField(
+  value: unknown,
+  rule: FieldRule,
+  field: string,
+  partial: boolean,
+): FieldError[] {
+  switch (rule.type) {
+    case "string":
+      return validateString(value, rule, field);
+    case "number":
+      return validateNumber(value, rule, field);
+    case "boolean":
+      return typeof value === "boolean"
+        ? []
+        : [{ field, message: "must be a boolean" }];
+    case "object":
+      return validateObject(value, rule.fields, { partial }, field);
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [{ field, message: "must be an array" }];
+      }
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        return [
+          { field, message: `must contain at least ${rule.minItems} items` },
+        ];
+      }
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        return [
+          { field, message: `must contain at most ${rule.maxItems} items` },
+        ];
+      }
+      // Items are always validated in full, even for partial updates
+      return value.flatMap((item, index) =>
+        validateField(item, rule.items, `${field}[${index}]`, false),
+      );
+    }
+  }
+}
+
+/**
+ * Validates a request body against a schema and returns one error per
+ * offending field, using dotted paths (e.g. `preferences.theme`). Unknown
+ * fields and `null` values are reported as errors.
+ */
+export function validateObject(
+  value: unknown,
+  schema: ObjectSchema,
+  options: ValidateOptions = {},
+  path = "",
+): FieldError[] {
+  const prefix = path ? `${path}.` : "";
+
+  if (!isPlainObject(value)) {
+    return [{ field: path || "body", message: "must be an object" }];
+  }
+
+  const errors: FieldError[] = [];
+  const ignored = new Set(options.ignore || []);
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const fieldValue = value[key];
+    if (fieldValue === undefined) {
+      if (rule.required && !options.partial) {
+        errors.push({ field: `${prefix}${key}`, message: "is required" });
+      }
+      continue;
+    }
+    // Fields are omitted rather than cleared, so null is never a value
+    if (fieldValue === null) {
+      errors.push({ field: `${prefix}${key}`, message: "must not be null" });
+      continue;
+    }
+    errors.push(
+      ...validateField(
+        fieldValue,
+        rule,
+        `${prefix}${key}`,
+        options.partial || false,
+      ),
+    );
+  }
+
+  for (const key of Object.keys(value)) {
+    if (
+      !Object.prototype.hasOwnProperty.call(schema, key) &&
+      !ignored.has(key)
+    ) {
+      errors.push({
+        field: `${prefix}${key}`,
+        message: "is not a known field",
+      });
+    }
+  }
+
+  return errors;
+}